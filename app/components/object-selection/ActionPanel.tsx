@@ -3,10 +3,14 @@ import { Button } from "~/components/ui/button";
 import { Trash2, Download, CheckCircle, Loader2 } from "lucide-react";
 import type { ClickPoint, MaskData } from "~/hooks/useObjectSelection";
 import { Progress } from "~/components/ui/progress";
+import type { TaskEstimate } from "~/lib/processing.client";
+import { formatEta } from "~/lib/progress";
+import { TaskEstimateSummary } from "~/components/object-selection/TaskEstimateSummary";
 
 interface TaskProgress {
   percentage: number;
   status: string;
+  etaSeconds?: number;
 }
 
 interface ActionPanelProps {
@@ -14,6 +18,8 @@ interface ActionPanelProps {
   maskData: MaskData | null;
   taskProgress: TaskProgress | null;
   isProcessing: boolean;
+  estimate?: TaskEstimate | null; // 确认前的费用和耗时估计
+  isEstimating?: boolean;
   onRemove: () => void;
   onExtract: () => void;
   onConfirm: () => void;
@@ -25,6 +31,8 @@ export function ActionPanel({
   maskData,
   taskProgress,
   isProcessing,
+  estimate = null,
+  isEstimating = false,
   onRemove,
   onExtract,
   onConfirm,
@@ -32,6 +40,7 @@ export function ActionPanel({
 }: ActionPanelProps) {
   const hasSelection = selectedObject !== null;
   const hasMask = maskData !== null;
+  const insufficientCredits = estimate !== null && !estimate.sufficient;
 
   return (
     <div className="w-80 border-l bg-background flex-shrink-0 flex flex-col">
@@ -74,7 +83,10 @@ export function ActionPanel({
           <div className="space-y-2">
             <h4 className="text-sm font-medium text-muted-foreground">处理进度</h4>
             <Progress value={taskProgress.percentage} className="h-2" />
-            <p className="text-xs text-muted-foreground">{taskProgress.status}</p>
+            <p className="text-xs text-muted-foreground">
+              {taskProgress.status}
+              {taskProgress.etaSeconds !== undefined && ` · 剩余${formatEta(taskProgress.etaSeconds)}`}
+            </p>
           </div>
         )}
 
@@ -84,10 +96,11 @@ export function ActionPanel({
           
           {hasMask && (
             <>
+              {!isProcessing && <TaskEstimateSummary estimate={estimate} isLoading={isEstimating} />}
               <Button
                 onClick={onConfirm}
                 className="w-full"
-                disabled={isProcessing}
+                disabled={isProcessing || insufficientCredits}
               >
                 <CheckCircle className="mr-2 h-4 w-4" />
                 确认操作
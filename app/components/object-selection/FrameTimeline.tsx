@@ -2,7 +2,7 @@ import React, { useRef, useEffect, useCallback, useState } from "react";
 import { SimpleTimelineRuler } from "~/components/object-selection/SimpleTimelineRuler";
 import { PIXELS_PER_SECOND } from "~/components/timeline/types";
 import { Button } from "~/components/ui/button";
-import { ZoomIn, ZoomOut, RotateCcw } from "lucide-react";
+import { ZoomIn, ZoomOut, RotateCcw, X } from "lucide-react";
 
 interface Frame {
   index: number;
@@ -19,6 +19,12 @@ interface FrameTimelineProps {
   onFrameSelect: (index: number) => void;
   onTimelineSeek: (time: number) => void;
   onZoomChange?: (zoomLevel: number) => void;
+  range?: { start: number; end: number } | null; // 处理范围（入点/出点，秒）
+  onSetInPoint?: () => void;
+  onSetOutPoint?: () => void;
+  onClearRange?: () => void;
+  // 带有视觉提示或手动修正的关键帧（按帧索引）
+  promptFrames?: Record<number, { include: number; exclude: number; boxes: number; edited: boolean }>;
 }
 
 const MIN_ZOOM = 0.25;
@@ -35,6 +41,11 @@ export function FrameTimeline({
   onFrameSelect,
   onTimelineSeek,
   onZoomChange,
+  range,
+  onSetInPoint,
+  onSetOutPoint,
+  onClearRange,
+  promptFrames,
 }: FrameTimelineProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [scrollLeft, setScrollLeft] = React.useState(0);
@@ -169,11 +180,22 @@ export function FrameTimeline({
         e.preventDefault();
         handleZoomReset();
       }
+      // I / O 设置入点 / 出点（输入框中不触发）
+      const target = e.target as HTMLElement | null;
+      const isEditing = target?.tagName === "INPUT" || target?.tagName === "TEXTAREA" || target?.isContentEditable;
+      if (!isEditing && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        if (e.key === "i" || e.key === "I") {
+          onSetInPoint?.();
+        }
+        if (e.key === "o" || e.key === "O") {
+          onSetOutPoint?.();
+        }
+      }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [handleZoomIn, handleZoomOut, handleZoomReset]);
+  }, [handleZoomIn, handleZoomOut, handleZoomReset, onSetInPoint, onSetOutPoint]);
 
   return (
     <div className="h-48 border-t bg-muted/30 flex flex-col">
@@ -213,12 +235,54 @@ export function FrameTimeline({
             {Math.round(zoomLevel * 100)}%
           </span>
         </div>
-        {/* Key Frame Markers Info */}
-        {selectedFrameIndex !== null && (
-          <div className="text-xs text-muted-foreground">
-            帧 {selectedFrameIndex + 1} / {frames.length}
-          </div>
-        )}
+        <div className="flex items-center gap-3">
+          {/* 处理范围：只对入点到出点之间的片段生成遮罩和修复 */}
+          {onSetInPoint && onSetOutPoint && (
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onSetInPoint}
+                className="h-6 px-2 text-xs"
+                title="将当前时间设为入点 (I)"
+              >
+                设为入点
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onSetOutPoint}
+                className="h-6 px-2 text-xs"
+                title="将当前时间设为出点 (O)"
+              >
+                设为出点
+              </Button>
+              {range && (
+                <>
+                  <span className="text-xs text-muted-foreground">
+                    {range.start.toFixed(2)}s - {range.end.toFixed(2)}s
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={onClearRange}
+                    className="h-6 px-2 text-xs"
+                    title="清除范围，处理整个视频"
+                  >
+                    <X className="h-3 w-3" />
+                    清除范围
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+          {/* Key Frame Markers Info */}
+          {selectedFrameIndex !== null && (
+            <div className="text-xs text-muted-foreground">
+              帧 {selectedFrameIndex + 1} / {frames.length}
+            </div>
+          )}
+        </div>
       </div>
       {/* Timeline Ruler - 无时间框 */}
       <div className="px-4">
@@ -254,6 +318,17 @@ export function FrameTimeline({
           />
         )}
         
+        {/* 处理范围高亮 */}
+        {range && (
+          <div
+            className="absolute top-0 bottom-0 bg-primary/15 border-x-2 border-primary pointer-events-none z-[15]"
+            style={{
+              left: `${range.start * pixelsPerSecond + 16}px`,
+              width: `${(range.end - range.start) * pixelsPerSecond}px`,
+            }}
+          />
+        )}
+
         {/* 缩略图容器，添加 padding 以对齐标尺，确保从时间0开始显示 */}
         <div
           className="relative h-full px-4"
@@ -268,6 +343,7 @@ export function FrameTimeline({
             const frameLeft = index * frameWidth + 16; // 加上 padding (px-4 = 16px)
             const frameCenter = frameLeft + frameWidth / 2;
             const isSelected = selectedFrameIndex === index;
+            const prompts = promptFrames?.[index];
             const isCurrentFrame =
               currentTime >= frame.timestamp &&
               (index === frames.length - 1 || currentTime < frames[index + 1].timestamp);
@@ -298,6 +374,25 @@ export function FrameTimeline({
                   alt={`Frame ${index}`}
                   className="w-full h-full object-cover rounded-sm"
                 />
+                {/* 该帧上的包含点 / 排除点数量 */}
+                {prompts && (
+                  <div className="absolute bottom-0.5 right-0.5 flex gap-0.5 text-[10px] leading-none">
+                    {prompts.include > 0 && (
+                      <span className="rounded-sm bg-green-500 px-1 py-0.5 text-white">+{prompts.include}</span>
+                    )}
+                    {prompts.exclude > 0 && (
+                      <span className="rounded-sm bg-red-500 px-1 py-0.5 text-white">-{prompts.exclude}</span>
+                    )}
+                    {prompts.boxes > 0 && (
+                      <span className="rounded-sm bg-blue-500 px-1 py-0.5 text-white">□{prompts.boxes}</span>
+                    )}
+                    {prompts.edited && (
+                      <span className="rounded-sm bg-amber-500 px-1 py-0.5 text-white" title="手动修正过遮罩">
+                        ✎
+                      </span>
+                    )}
+                  </div>
+                )}
               </div>
             );
           })}
@@ -0,0 +1,41 @@
+import React from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+import { INPAINT_PRESETS, type InpaintPreset } from "~/lib/inpaint-options";
+import { cn } from "~/lib/utils";
+
+interface InpaintPresetSelectProps {
+  value: InpaintPreset | null; // null 表示自定义参数
+  onChange: (preset: InpaintPreset) => void;
+  className?: string;
+}
+
+const PRESETS = Object.keys(INPAINT_PRESETS) as InpaintPreset[];
+
+/**
+ * 删除对象的质量预设，高质量耗时更长、消耗更多 credits
+ */
+export function InpaintPresetSelect({ value, onChange, className }: InpaintPresetSelectProps) {
+  return (
+    <Select value={value ?? "custom"} onValueChange={(next) => next !== "custom" && onChange(next as InpaintPreset)}>
+      <SelectTrigger size="sm" className={cn("w-full", className)}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {PRESETS.map((preset) => (
+          <SelectItem key={preset} value={preset}>
+            {INPAINT_PRESETS[preset].label}
+            <span className="text-muted-foreground">
+              {" "}
+              · {INPAINT_PRESETS[preset].description} · ×{INPAINT_PRESETS[preset].creditMultiplier}
+            </span>
+          </SelectItem>
+        ))}
+        {value === null && (
+          <SelectItem value="custom" disabled>
+            自定义
+          </SelectItem>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
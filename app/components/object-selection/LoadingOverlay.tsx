@@ -1,13 +1,27 @@
 import React from "react";
 import { Loader2 } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Progress } from "~/components/ui/progress";
+import { formatEta } from "~/lib/progress";
 import { cn } from "~/lib/utils";
 
 interface LoadingOverlayProps {
   message?: string;
   className?: string;
+  percentage?: number; // 提供时显示进度条
+  etaSeconds?: number; // 预计剩余时间（秒）
+  onCancel?: () => void; // 提供时显示取消按钮
+  isCancelling?: boolean;
 }
 
-export function LoadingOverlay({ message = "处理中...", className }: LoadingOverlayProps) {
+export function LoadingOverlay({
+  message = "处理中...",
+  className,
+  percentage,
+  etaSeconds,
+  onCancel,
+  isCancelling = false,
+}: LoadingOverlayProps) {
   return (
     <div
       className={cn(
@@ -18,6 +32,20 @@ export function LoadingOverlay({ message = "处理中...", className }: LoadingO
       <div className="flex flex-col items-center gap-4 rounded-lg bg-background/95 p-6 shadow-lg">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
         <p className="text-sm font-medium text-foreground">{message}</p>
+        {percentage !== undefined && (
+          <div className="w-56 space-y-1">
+            <Progress value={percentage} className="h-1.5" />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{Math.round(percentage)}%</span>
+              {etaSeconds !== undefined && <span>剩余{formatEta(etaSeconds)}</span>}
+            </div>
+          </div>
+        )}
+        {onCancel && (
+          <Button variant="outline" size="sm" onClick={onCancel} disabled={isCancelling}>
+            {isCancelling ? "正在取消..." : "取消任务"}
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,63 @@
+import React, { useState } from "react";
+import { FileDown, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "~/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu";
+import type { MaskExportFormat } from "~/lib/mask-file";
+import { exportMask, type GeneratedMask } from "~/lib/processing.client";
+
+interface MaskExportMenuProps {
+  source: { taskId: string } | { mask: Pick<GeneratedMask, "maskVideoUrl"> }; // 任务使用的遮罩或刚生成的遮罩
+  className?: string;
+}
+
+const FORMATS: Array<{ format: MaskExportFormat; label: string }> = [
+  { format: "video", label: "二值视频 (MP4)" },
+  { format: "png", label: "PNG 序列 (zip)" },
+];
+
+/**
+ * 导出遮罩到其他工具使用：服务端转换完成后自动下载
+ */
+export function MaskExportMenu({ source, className }: MaskExportMenuProps) {
+  const [exporting, setExporting] = useState<MaskExportFormat | null>(null);
+
+  const handleExport = async (format: MaskExportFormat) => {
+    setExporting(format);
+    try {
+      const download = await exportMask(source, format);
+      const link = document.createElement("a");
+      link.href = download.url;
+      link.download = download.filename;
+      link.click();
+    } catch (error) {
+      console.error("❌ Failed to export mask:", error);
+      toast.error(error instanceof Error ? error.message : "导出遮罩失败");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" disabled={exporting !== null} className={className}>
+          {exporting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <FileDown className="h-4 w-4 mr-1" />}
+          导出遮罩
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "~/components/ui/dialog";
+import { Label } from "~/components/ui/label";
+import { InpaintPresetSelect } from "~/components/object-selection/InpaintPresetSelect";
+import { TaskEstimateSummary } from "~/components/object-selection/TaskEstimateSummary";
+import type { InpaintPreset } from "~/lib/inpaint-options";
+import { MASK_FILE_EXTENSIONS, MAX_MASK_FILE_BYTES, maskFileKind } from "~/lib/mask-file";
+import { estimateTask, type TaskEstimate } from "~/lib/processing.client";
+
+type MaskImportAction = "remove" | "extract";
+
+interface MaskImportDialogProps {
+  open: boolean;
+  assetId: string;
+  range: { start: number; end: number } | null; // 处理范围，遮罩需覆盖整个源视频
+  inpaintPreset: InpaintPreset;
+  onInpaintPresetChange: (preset: InpaintPreset) => void;
+  onConfirm: (file: File, action: MaskImportAction) => void;
+  onCancel: () => void;
+}
+
+const ACCEPT = Object.values(MASK_FILE_EXTENSIONS).flat().join(",");
+
+const ACTIONS: Array<{ action: MaskImportAction; label: string }> = [
+  { action: "remove", label: "删除对象" },
+  { action: "extract", label: "提取对象" },
+];
+
+/**
+ * 导入在其他工具中做好的遮罩，跳过 SAM3 直接开始修复或提取
+ */
+export function MaskImportDialog({
+  open,
+  assetId,
+  range,
+  inpaintPreset,
+  onInpaintPresetChange,
+  onConfirm,
+  onCancel,
+}: MaskImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [action, setAction] = useState<MaskImportAction>("remove");
+  const [estimate, setEstimate] = useState<TaskEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setIsEstimating(true);
+    estimateTask({ assetId, action, range, inpaint: { preset: inpaintPreset } })
+      .then((next) => {
+        if (!cancelled) setEstimate(next);
+      })
+      .catch((error: unknown) => {
+        // 估算失败不阻止提交，余额由 start-task 再次检查
+        console.error("❌ Failed to estimate task:", error);
+        if (!cancelled) setEstimate(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsEstimating(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, assetId, action, range, inpaintPreset]);
+
+  // 关闭后清空选择的文件
+  useEffect(() => {
+    if (!open) setFile(null);
+  }, [open]);
+
+  const fileError =
+    file && !maskFileKind(file.name)
+      ? "不支持的文件格式"
+      : file && file.size > MAX_MASK_FILE_BYTES
+        ? `文件不能超过 ${MAX_MASK_FILE_BYTES / 1024 / 1024}MB`
+        : null;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onCancel()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>导入遮罩</DialogTitle>
+          <DialogDescription>
+            白色为对象、黑色为保留。支持与源视频逐帧对应的遮罩视频（MP4 / MOV / WebM）、按文件名排序的 PNG 序列 zip，
+            或应用到所有帧的单张 PNG；尺寸会缩放到源视频大小。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="mask-import-file" className="text-xs">
+              遮罩文件
+            </Label>
+            <input
+              id="mask-import-file"
+              type="file"
+              accept={ACCEPT}
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="block w-full text-sm file:mr-3 file:rounded file:border-0 file:bg-muted file:px-3 file:py-1.5 file:text-sm"
+            />
+            {fileError && <p className="text-xs text-destructive">{fileError}</p>}
+            {range && (
+              <p className="text-xs text-muted-foreground">
+                只处理 {range.start.toFixed(2)}s - {range.end.toFixed(2)}s，遮罩仍需从视频开头开始与源视频对应。
+              </p>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            {ACTIONS.map((item) => (
+              <Button
+                key={item.action}
+                size="sm"
+                variant={action === item.action ? "default" : "outline"}
+                className="flex-1"
+                onClick={() => setAction(item.action)}>
+                {item.label}
+              </Button>
+            ))}
+          </div>
+
+          {action === "remove" && (
+            <div className="space-y-1">
+              <Label className="text-xs">处理质量</Label>
+              <InpaintPresetSelect value={inpaintPreset} onChange={onInpaintPresetChange} />
+            </div>
+          )}
+
+          <TaskEstimateSummary estimate={estimate} isLoading={isEstimating} />
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onCancel}>
+            取消
+          </Button>
+          <Button
+            disabled={!file || fileError !== null || (estimate !== null && !estimate.sufficient)}
+            onClick={() => file && onConfirm(file, action)}>
+            导入并开始处理
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
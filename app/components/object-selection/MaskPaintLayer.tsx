@@ -0,0 +1,106 @@
+import React, { useEffect, useRef } from "react";
+import { useElementBox } from "~/hooks/useElementBox";
+import type { MaskPaintTool } from "~/hooks/useObjectSelection";
+import { cn } from "~/lib/utils";
+
+interface MaskPaintLayerProps {
+  targetRef: React.RefObject<HTMLElement | null>; // 显示当前帧的元素（视频或遮罩预览图）
+  transform: string; // 与目标元素相同的缩放和平移
+  width: number; // 源视频尺寸，修正图与其一致
+  height: number;
+  image: string | null; // 当前帧上已有的修正
+  tool: MaskPaintTool | null; // null 时只显示不响应绘制
+  brushSize: number; // 画笔直径（源视频像素）
+  onChange: (image: string) => void; // 每画完一笔后的修正图（PNG data URL）
+}
+
+/**
+ * 在当前帧上手动修正遮罩：画笔画白色（添加），橡皮画黑色（擦除），其余保持透明
+ * 与目标元素使用相同的布局位置和 transform，画布按源视频尺寸绘制后缩放显示
+ */
+export function MaskPaintLayer({
+  targetRef,
+  transform,
+  width,
+  height,
+  image,
+  tool,
+  brushSize,
+  onChange,
+}: MaskPaintLayerProps) {
+  const box = useElementBox(targetRef);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const emittedRef = useRef<string | null>(null); // 本图层刚提交的修正，回传时不需要重绘
+
+  // 外部的修正变化时（切换帧、清除）重绘画布
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || image === emittedRef.current) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    emittedRef.current = image;
+    if (!image) return;
+    const img = new Image();
+    img.onload = () => ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    img.src = image;
+  }, [image, box]);
+
+  if (!box || box.width === 0) return null;
+
+  // getBoundingClientRect 包含缩放和平移，换算为画布坐标
+  const canvasPosition = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [((e.clientX - rect.left) / rect.width) * width, ((e.clientY - rect.top) / rect.height) * height];
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!tool || !ctx || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const [x, y] = canvasPosition(e);
+    ctx.strokeStyle = tool === "brush" ? "#ffffff" : "#000000";
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    // 单击也留下一个圆点
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!drawingRef.current || !ctx) return;
+    const [x, y] = canvasPosition(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const handlePointerUp = () => {
+    const canvas = canvasRef.current;
+    if (!drawingRef.current || !canvas) return;
+    drawingRef.current = false;
+    const next = canvas.toDataURL("image/png");
+    emittedRef.current = next;
+    onChange(next);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className={cn("absolute z-[6] opacity-60", tool === null ? "pointer-events-none" : "cursor-crosshair")}
+      style={{ ...box, transform }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      // 绘制时不触发画布的拖拽平移
+      onMouseDown={(e) => tool !== null && e.stopPropagation()}
+    />
+  );
+}
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "~/components/ui/dialog";
+import { Label } from "~/components/ui/label";
+import { MASK_REFINE_LIMITS, RECOMMENDED_MASK_REFINE, type MaskRefineOptions } from "~/lib/mask-refine";
+import { previewMaskRefinement, type GeneratedMask } from "~/lib/processing.client";
+
+interface MaskRefineDialogProps {
+  open: boolean;
+  assetId: string;
+  mask: GeneratedMask; // 全视频遮罩
+  frameTime: number; // 预览的帧在源视频中的时间（秒）
+  onConfirm: (options: MaskRefineOptions) => void; // 使用处理后的遮罩继续
+  onSkip: () => void; // 使用原始遮罩继续
+  onCancel: () => void; // 取消本次处理
+}
+
+const FIELDS: Array<{ key: keyof MaskRefineOptions; label: string; unit: string }> = [
+  { key: "dilation", label: "膨胀", unit: "像素" },
+  { key: "feather", label: "羽化", unit: "像素" },
+  { key: "temporalSmoothing", label: "时间平滑", unit: "帧" },
+];
+
+// 拖动滑块时等停下后再刷新预览
+const PREVIEW_DEBOUNCE_MS = 400;
+
+/**
+ * 遮罩后处理：调整膨胀、羽化和时间平滑，在选中帧上预览效果后再开始修复
+ */
+export function MaskRefineDialog({ open, assetId, mask, frameTime, onConfirm, onSkip, onCancel }: MaskRefineDialogProps) {
+  const [options, setOptions] = useState<MaskRefineOptions>(RECOMMENDED_MASK_REFINE);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const abort = new AbortController();
+    const timer = setTimeout(() => {
+      setIsPreviewing(true);
+      setPreviewError(null);
+      previewMaskRefinement({ assetId, mask, time: frameTime, options, signal: abort.signal })
+        .then((blob) => {
+          setPreviewUrl((previous) => {
+            if (previous) URL.revokeObjectURL(previous);
+            return URL.createObjectURL(blob);
+          });
+        })
+        .catch((error: unknown) => {
+          if (abort.signal.aborted) return;
+          console.error("❌ Failed to preview refined mask:", error);
+          setPreviewError(error instanceof Error ? error.message : "预览失败");
+        })
+        .finally(() => {
+          if (!abort.signal.aborted) setIsPreviewing(false);
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      abort.abort();
+    };
+  }, [open, assetId, mask, frameTime, options]);
+
+  // 关闭时释放预览图
+  useEffect(() => {
+    if (open || !previewUrl) return;
+    URL.revokeObjectURL(previewUrl);
+    setPreviewUrl(null);
+  }, [open, previewUrl]);
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>优化遮罩</DialogTitle>
+          <DialogDescription>
+            扩展遮罩覆盖对象边缘、柔化边界并消除逐帧闪烁，可以减少修复后的残影。预览为 {frameTime.toFixed(2)}s 处的帧。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative aspect-video w-full overflow-hidden rounded bg-muted">
+          {previewUrl && <img src={previewUrl} alt="遮罩预览" className="h-full w-full object-contain" />}
+          {isPreviewing && (
+            <div className="absolute inset-0 flex items-center justify-center bg-background/40">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </div>
+        {previewError && <p className="text-sm text-destructive">{previewError}</p>}
+
+        <div className="space-y-3">
+          {FIELDS.map(({ key, label, unit }) => (
+            <div key={key} className="space-y-1">
+              <div className="flex items-center justify-between text-xs">
+                <Label htmlFor={`mask-refine-${key}`} className="text-xs">
+                  {label}
+                </Label>
+                <span className="text-muted-foreground">
+                  {options[key]} {unit}
+                </span>
+              </div>
+              <input
+                id={`mask-refine-${key}`}
+                type="range"
+                min={MASK_REFINE_LIMITS[key].min}
+                max={MASK_REFINE_LIMITS[key].max}
+                step={1}
+                value={options[key]}
+                onChange={(e) => setOptions((prev) => ({ ...prev, [key]: Number(e.target.value) }))}
+                className="w-full accent-primary"
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onCancel}>
+            取消
+          </Button>
+          <Button variant="outline" onClick={onSkip}>
+            使用原始遮罩
+          </Button>
+          <Button onClick={() => onConfirm(options)}>应用并开始处理</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,15 @@
 import React, { useState, useRef, useEffect } from "react";
 import { Send, Bot, ChevronLeft } from "lucide-react";
 import { Button } from "~/components/ui/button";
+import { Label } from "~/components/ui/label";
+import { Switch } from "~/components/ui/switch";
 import { cn } from "~/lib/utils";
 import { callDifyAPI } from "~/lib/dify.api";
 import type { DifyOperationResult } from "~/lib/dify.api";
+import type { TaskEstimate } from "~/lib/processing.client";
+import { TaskEstimateSummary } from "~/components/object-selection/TaskEstimateSummary";
+import { InpaintPresetSelect } from "~/components/object-selection/InpaintPresetSelect";
+import type { InpaintPreset } from "~/lib/inpaint-options";
 
 interface Message {
   id: string;
@@ -27,6 +33,14 @@ interface ObjectSelectionChatBoxProps {
   conversationId?: string;
   onConversationIdChange?: (id: string) => void;
   waitingForConfirmation?: boolean; // 是否等待用户确认
+  keepAudio?: boolean; // 输出是否保留原音频
+  onKeepAudioChange?: (keepAudio: boolean) => void;
+  refineMask?: boolean; // 生成全视频遮罩后是否先调整遮罩边缘
+  onRefineMaskChange?: (refineMask: boolean) => void;
+  inpaintPreset?: InpaintPreset; // 删除对象的质量预设
+  onInpaintPresetChange?: (preset: InpaintPreset) => void; // 不传时不显示（如提取对象）
+  estimate?: TaskEstimate | null; // 确认前的费用和耗时估计，余额不足时禁用确认
+  isEstimating?: boolean;
 }
 
 export function ObjectSelectionChatBox({
@@ -43,6 +57,14 @@ export function ObjectSelectionChatBox({
   conversationId,
   onConversationIdChange,
   waitingForConfirmation = false,
+  keepAudio = true,
+  onKeepAudioChange,
+  refineMask = false,
+  onRefineMaskChange,
+  inpaintPreset = "standard",
+  onInpaintPresetChange,
+  estimate = null,
+  isEstimating = false,
 }: ObjectSelectionChatBoxProps) {
   const [inputValue, setInputValue] = useState("");
   const [isTyping, setIsTyping] = useState(false);
@@ -492,8 +514,42 @@ export function ObjectSelectionChatBox({
             <p className="text-xs text-muted-foreground mb-3">
               请选择操作：
             </p>
+            {onKeepAudioChange && (
+              <div className="flex items-center gap-2 mb-3">
+                <Switch
+                  id="keep-audio"
+                  checked={keepAudio}
+                  onCheckedChange={onKeepAudioChange}
+                  className="scale-75"
+                />
+                <Label htmlFor="keep-audio" className="text-xs">
+                  保留原音频
+                </Label>
+              </div>
+            )}
+            {onRefineMaskChange && (
+              <div className="flex items-center gap-2 mb-3">
+                <Switch
+                  id="refine-mask"
+                  checked={refineMask}
+                  onCheckedChange={onRefineMaskChange}
+                  className="scale-75"
+                />
+                <Label htmlFor="refine-mask" className="text-xs">
+                  优化遮罩边缘
+                </Label>
+              </div>
+            )}
+            {onInpaintPresetChange && (
+              <div className="space-y-1 mb-3">
+                <Label className="text-xs">处理质量</Label>
+                <InpaintPresetSelect value={inpaintPreset} onChange={onInpaintPresetChange} />
+              </div>
+            )}
+            <TaskEstimateSummary estimate={estimate} isLoading={isEstimating} className="mb-3" />
             <div className="flex gap-2">
               <Button
+                disabled={estimate !== null && !estimate.sufficient}
                 onClick={() => {
                   if (onUserConfirm) {
                     console.log("✅ User confirmed via button, calling onUserConfirm");
@@ -0,0 +1,190 @@
+import React from "react";
+import { Brush, Eraser, Loader2, MinusCircle, PlusCircle, RefreshCw, SquareDashed, Trash2, X } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+import { Switch } from "~/components/ui/switch";
+import type { MaskPaintTool, SelectionObject, VisualPromptTool } from "~/hooks/useObjectSelection";
+import { MASK_EDIT_SPREAD_OPTIONS } from "~/lib/mask-edit";
+import { cn } from "~/lib/utils";
+
+interface SelectionObjectListProps {
+  objects: SelectionObject[];
+  activeObjectId: string | null;
+  disabled?: boolean; // 处理中不允许修改
+  onSelect: (objectId: string) => void; // 在画布上预览该对象的遮罩
+  onToggle: (objectId: string) => void;
+  onRemove: (objectId: string) => void;
+  // 在选中的关键帧上为当前对象添加包含/排除点、框选区域，或用画笔/橡皮修正遮罩，不传时不显示
+  tool?: VisualPromptTool | MaskPaintTool | null;
+  onToolChange?: (tool: VisualPromptTool | MaskPaintTool | null) => void;
+  onRefreshMask?: () => void; // 用当前帧上的提示重新生成当前对象的遮罩预览
+  // 画笔和橡皮的设置
+  brushSize?: number;
+  onBrushSizeChange?: (size: number) => void;
+  spreadFrames?: number; // 当前帧的修正同时应用到前后各多少帧
+  onSpreadFramesChange?: (frames: number) => void;
+  onClearMaskEdit?: () => void; // 清除当前帧上的修正
+  className?: string;
+}
+
+const TOOLS: Array<{ tool: VisualPromptTool | MaskPaintTool; label: string; title: string; Icon: typeof PlusCircle }> = [
+  { tool: "include", label: "包含", title: "在当前帧上点击添加包含点", Icon: PlusCircle },
+  { tool: "exclude", label: "排除", title: "在当前帧上点击添加排除点", Icon: MinusCircle },
+  { tool: "box", label: "框选", title: "在当前帧上拖动框选对象", Icon: SquareDashed },
+  { tool: "brush", label: "画笔", title: "在当前帧上涂抹，补上遗漏的区域", Icon: Brush },
+  { tool: "eraser", label: "橡皮", title: "在当前帧上涂抹，擦掉多选的区域", Icon: Eraser },
+];
+
+/**
+ * 已选中的对象：开关决定是否参与本次处理，点击名称在画布上预览该对象的遮罩
+ * 可以在多个关键帧上为当前对象添加点或框，修正后续帧的跟踪
+ */
+export function SelectionObjectList({
+  objects,
+  activeObjectId,
+  disabled = false,
+  onSelect,
+  onToggle,
+  onRemove,
+  tool = null,
+  onToolChange,
+  onRefreshMask,
+  brushSize = 24,
+  onBrushSizeChange,
+  spreadFrames = 0,
+  onSpreadFramesChange,
+  onClearMaskEdit,
+  className,
+}: SelectionObjectListProps) {
+  if (objects.length === 0) return null;
+  const enabledCount = objects.filter((object) => object.enabled).length;
+
+  return (
+    // 列表浮在画布上，放大后画布可以拖拽平移，列表上的点击不触发拖拽
+    <div
+      className={cn("space-y-1 rounded-md border bg-background/90 p-2 text-xs shadow-sm", className)}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-1 text-muted-foreground">
+        <span>已选对象</span>
+        <span>
+          {enabledCount}/{objects.length}
+        </span>
+      </div>
+      {objects.map((object) => (
+        <div
+          key={object.id}
+          className={cn(
+            "flex items-center gap-2 rounded px-1 py-0.5",
+            object.id === activeObjectId && "bg-primary/10"
+          )}
+        >
+          <Switch
+            checked={object.enabled}
+            onCheckedChange={() => onToggle(object.id)}
+            disabled={disabled}
+            className="scale-75"
+          />
+          <button
+            type="button"
+            className={cn("flex-1 truncate text-left", !object.enabled && "text-muted-foreground line-through")}
+            onClick={() => onSelect(object.id)}
+            title={object.textPrompt}
+          >
+            {object.name}
+          </button>
+          {!object.maskData && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-5 w-5"
+            onClick={() => onRemove(object.id)}
+            disabled={disabled}
+            title="移除对象"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      {onToolChange && (
+        <div className="flex flex-wrap items-center gap-1 border-t pt-1">
+          {TOOLS.map(({ tool: value, label, title, Icon }) => (
+            <Button
+              key={value}
+              variant={tool === value ? "default" : "ghost"}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => onToolChange(tool === value ? null : value)}
+              disabled={disabled}
+              title={title}
+            >
+              <Icon className="mr-1 h-3 w-3" />
+              {label}
+            </Button>
+          ))}
+          {onRefreshMask && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="ml-auto h-6 px-2 text-xs"
+              onClick={onRefreshMask}
+              disabled={disabled}
+              title="用当前帧上的提示重新生成遮罩预览"
+            >
+              <RefreshCw className="mr-1 h-3 w-3" />
+              更新
+            </Button>
+          )}
+        </div>
+      )}
+      {(tool === "brush" || tool === "eraser") && (
+        <div className="space-y-1 border-t pt-1">
+          {onBrushSizeChange && (
+            <label className="flex items-center gap-2 px-1">
+              <span className="shrink-0 text-muted-foreground">大小</span>
+              <input
+                type="range"
+                min={4}
+                max={120}
+                step={2}
+                value={brushSize}
+                onChange={(e) => onBrushSizeChange(Number(e.target.value))}
+                className="w-full accent-primary"
+              />
+              <span className="w-8 shrink-0 text-right text-muted-foreground">{brushSize}</span>
+            </label>
+          )}
+          <div className="flex items-center gap-1 px-1">
+            {onSpreadFramesChange && (
+              <Select value={String(spreadFrames)} onValueChange={(next) => onSpreadFramesChange(Number(next))}>
+                <SelectTrigger size="sm" className="h-6 flex-1 text-xs" title="修正同时应用到相邻的帧">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MASK_EDIT_SPREAD_OPTIONS.map((frames) => (
+                    <SelectItem key={frames} value={String(frames)}>
+                      {frames === 0 ? "仅当前帧" : `前后各 ${frames} 帧`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {onClearMaskEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={onClearMaskEdit}
+                disabled={disabled}
+                title="清除当前帧上的修正"
+              >
+                <Trash2 className="mr-1 h-3 w-3" />
+                清除
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
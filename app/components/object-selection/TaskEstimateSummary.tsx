@@ -0,0 +1,52 @@
+import React from "react";
+import { Coins, Clock, Loader2 } from "lucide-react";
+import type { TaskEstimate } from "~/lib/processing.client";
+import { formatEta } from "~/lib/progress";
+import { cn } from "~/lib/utils";
+
+interface TaskEstimateSummaryProps {
+  estimate: TaskEstimate | null;
+  isLoading?: boolean;
+  className?: string;
+}
+
+/**
+ * 确认操作前展示预计消耗的 credits 和处理耗时，余额不足时给出提示
+ */
+export function TaskEstimateSummary({ estimate, isLoading = false, className }: TaskEstimateSummaryProps) {
+  if (isLoading) {
+    return (
+      <div className={cn("flex items-center gap-2 text-xs text-muted-foreground", className)}>
+        <Loader2 className="h-3 w-3 animate-spin" />
+        正在估算费用...
+      </div>
+    );
+  }
+  if (!estimate) return null;
+
+  return (
+    <div className={cn("space-y-1 text-xs", className)}>
+      <div className="flex items-center justify-between text-muted-foreground">
+        <span className="inline-flex items-center gap-1">
+          <Coins className="h-3 w-3" />
+          预计消耗
+        </span>
+        <span className="font-medium text-foreground">{estimate.credits} Credits</span>
+      </div>
+      <div className="flex items-center justify-between text-muted-foreground">
+        <span className="inline-flex items-center gap-1">
+          <Clock className="h-3 w-3" />
+          预计耗时
+        </span>
+        <span className="font-medium text-foreground">{formatEta(estimate.estimatedSeconds)}</span>
+      </div>
+      {estimate.sufficient ? (
+        <p className="text-muted-foreground">余额 {estimate.balance} Credits</p>
+      ) : (
+        <p className="text-destructive">
+          Credits 不足：需要 {estimate.credits}，当前余额 {estimate.balance}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router";
+import { Columns2, Loader2, Pause, Pencil, Play } from "lucide-react";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "~/components/ui/dialog";
+import { flattenLineage, type LineageNode, type LineageResponse } from "~/lib/lineage";
+import { cn } from "~/lib/utils";
+
+interface VersionHistoryDialogProps {
+  assetId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ACTION_LABELS: Record<NonNullable<LineageNode["action"]>, string> = {
+  remove: "删除对象",
+  extract: "提取对象",
+};
+
+function versionLabel(node: LineageNode): string {
+  return node.action ? ACTION_LABELS[node.action] : "原始视频";
+}
+
+/**
+ * 并排对比两个版本，播放和进度保持同步
+ */
+function VersionCompare({ left, right }: { left: LineageNode; right: LineageNode }) {
+  const leftRef = useRef<HTMLVideoElement>(null);
+  const rightRef = useRef<HTMLVideoElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const togglePlay = useCallback(() => {
+    const videos = [leftRef.current, rightRef.current].filter((v): v is HTMLVideoElement => v !== null);
+    if (isPlaying) {
+      videos.forEach((v) => v.pause());
+      setIsPlaying(false);
+    } else {
+      Promise.all(videos.map((v) => v.play())).catch(() => undefined);
+      setIsPlaying(true);
+    }
+  }, [isPlaying]);
+
+  // 以左侧为准，右侧偏差超过 0.1 秒时对齐
+  const handleTimeUpdate = useCallback(() => {
+    const a = leftRef.current;
+    const b = rightRef.current;
+    if (a && b && Math.abs(a.currentTime - b.currentTime) > 0.1) {
+      b.currentTime = a.currentTime;
+    }
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        {[left, right].map((node, index) => (
+          <div key={node.id} className="space-y-1">
+            <video
+              ref={index === 0 ? leftRef : rightRef}
+              src={node.mediaUrlRemote}
+              className="w-full aspect-video rounded bg-black object-contain"
+              muted
+              playsInline
+              onTimeUpdate={index === 0 ? handleTimeUpdate : undefined}
+              onSeeked={index === 0 ? handleTimeUpdate : undefined}
+              onEnded={() => setIsPlaying(false)}
+              controls={index === 0}
+            />
+            <p className="text-xs text-muted-foreground truncate">
+              {versionLabel(node)} · {node.name}
+            </p>
+          </div>
+        ))}
+      </div>
+      <Button size="sm" variant="outline" onClick={togglePlay}>
+        {isPlaying ? <Pause className="h-3 w-3 mr-1" /> : <Play className="h-3 w-3 mr-1" />}
+        {isPlaying ? "暂停" : "同步播放"}
+      </Button>
+    </div>
+  );
+}
+
+export function VersionHistoryDialog({ assetId, open, onOpenChange }: VersionHistoryDialogProps) {
+  const navigate = useNavigate();
+  const [lineage, setLineage] = useState<LineageResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setCompareIds([]);
+    fetch(`/api/assets/${assetId}/lineage`, { credentials: "include" })
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`加载版本失败 (${res.status})`);
+        return (await res.json()) as LineageResponse;
+      })
+      .then((data) => {
+        if (!cancelled) setLineage(data);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "加载版本失败");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [assetId, open]);
+
+  const versions = lineage ? flattenLineage(lineage.root) : [];
+  const compareNodes = compareIds
+    .map((id) => versions.find((v) => v.node.id === id)?.node)
+    .filter((node): node is LineageNode => node !== undefined);
+
+  // 最多选择两个版本对比，再选时替换较早选中的那个
+  const toggleCompare = (id: string) => {
+    setCompareIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id].slice(-2)));
+  };
+
+  const handleEdit = (id: string) => {
+    onOpenChange(false);
+    navigate(`/object-selection/${id}`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>版本历史</DialogTitle>
+          <DialogDescription>每次处理都会生成一个新版本，可以从任意版本继续编辑或选择两个版本对比</DialogDescription>
+        </DialogHeader>
+
+        {loading && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {!loading && lineage && (
+          <div className="space-y-4">
+            <div className="max-h-72 overflow-y-auto space-y-1">
+              {versions.map(({ node, depth }) => (
+                <div
+                  key={node.id}
+                  className={cn(
+                    "flex items-center gap-2 rounded-md border px-3 py-2",
+                    node.id === lineage.assetId && "border-primary bg-primary/5"
+                  )}
+                  style={{ marginLeft: `${depth * 16}px` }}
+                >
+                  <Badge variant={node.action ? "outline" : "secondary"} className="text-xs shrink-0">
+                    {versionLabel(node)}
+                  </Badge>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm truncate">{node.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(node.createdAt).toLocaleString("zh-CN", {
+                        month: "short",
+                        day: "numeric",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}
+                      {node.id === lineage.assetId && " · 当前版本"}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant={compareIds.includes(node.id) ? "default" : "ghost"}
+                    className="h-7 px-2 text-xs"
+                    onClick={() => toggleCompare(node.id)}
+                    title="选择两个版本进行对比"
+                  >
+                    <Columns2 className="h-3 w-3 mr-1" />
+                    对比
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => handleEdit(node.id)}
+                    disabled={node.id === lineage.assetId}
+                  >
+                    <Pencil className="h-3 w-3 mr-1" />
+                    从此版本编辑
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {compareNodes.length === 2 && (
+              <VersionCompare key={compareIds.join(":")} left={compareNodes[0]} right={compareNodes[1]} />
+            )}
+            {compareNodes.length === 1 && <p className="text-xs text-muted-foreground">再选择一个版本进行对比</p>}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import { useElementBox } from "~/hooks/useElementBox";
+import type { VisualPromptBox, VisualPromptPoint, VisualPromptTool } from "~/hooks/useObjectSelection";
+import { cn } from "~/lib/utils";
+
+interface NormalizedRect {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+interface VisualPromptLayerProps {
+  targetRef: React.RefObject<HTMLElement | null>; // 显示当前帧的元素（视频或遮罩预览图）
+  transform: string; // 与目标元素相同的缩放和平移
+  points: VisualPromptPoint[]; // 当前帧上的点
+  boxes: VisualPromptBox[]; // 当前帧上的框
+  tool: VisualPromptTool | null; // 当前工具，null 时只显示不响应点击
+  onAddPoint: (normalizedX: number, normalizedY: number) => void;
+  onRemovePoint: (pointId: string) => void;
+  onAddBox: (rect: NormalizedRect) => void; // 左上角、右下角的归一化坐标
+  onRemoveBox: (boxId: string) => void;
+}
+
+// 框的宽或高小于画面的 1% 时视为误触，不添加
+const MIN_BOX_SIZE = 0.01;
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/**
+ * getBoundingClientRect 包含缩放和平移，直接换算为归一化坐标
+ */
+function normalizedPosition(e: React.PointerEvent<HTMLDivElement> | React.MouseEvent<HTMLDivElement>) {
+  const rect = e.currentTarget.getBoundingClientRect();
+  return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+}
+
+function rectStyle(rect: NormalizedRect): React.CSSProperties {
+  return {
+    left: `${Math.min(rect.x1, rect.x2) * 100}%`,
+    top: `${Math.min(rect.y1, rect.y2) * 100}%`,
+    width: `${Math.abs(rect.x2 - rect.x1) * 100}%`,
+    height: `${Math.abs(rect.y2 - rect.y1) * 100}%`,
+  };
+}
+
+/**
+ * 覆盖在当前帧上的视觉提示：绿色为包含点，红色为排除点，蓝色为框选区域，点击已有的点或框的删除按钮删除
+ * 与目标元素使用相同的布局位置和 transform，点和框的位置按归一化坐标显示
+ */
+export function VisualPromptLayer({
+  targetRef,
+  transform,
+  points,
+  boxes,
+  tool,
+  onAddPoint,
+  onRemovePoint,
+  onAddBox,
+  onRemoveBox,
+}: VisualPromptLayerProps) {
+  const box = useElementBox(targetRef);
+  const [draft, setDraft] = useState<NormalizedRect | null>(null); // 正在拖动的框
+
+  // 切换工具时丢弃未完成的框
+  useEffect(() => {
+    if (tool !== "box") setDraft(null);
+  }, [tool]);
+
+  if (!box || box.width === 0 || (tool === null && points.length === 0 && boxes.length === 0)) return null;
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (tool !== "include" && tool !== "exclude") return;
+    const { x, y } = normalizedPosition(e);
+    if (x < 0 || x > 1 || y < 0 || y > 1) return;
+    onAddPoint(x, y);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (tool !== "box" || e.button !== 0) return;
+    const { x, y } = normalizedPosition(e);
+    // 拖出图层外时继续接收移动事件
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft({ x1: clamp(x), y1: clamp(y), x2: clamp(x), y2: clamp(y) });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!draft) return;
+    const { x, y } = normalizedPosition(e);
+    setDraft({ ...draft, x2: clamp(x), y2: clamp(y) });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    setDraft(null);
+    if (Math.abs(draft.x2 - draft.x1) < MIN_BOX_SIZE || Math.abs(draft.y2 - draft.y1) < MIN_BOX_SIZE) return;
+    onAddBox({
+      x1: Math.min(draft.x1, draft.x2),
+      y1: Math.min(draft.y1, draft.y2),
+      x2: Math.max(draft.x1, draft.x2),
+      y2: Math.max(draft.y1, draft.y2),
+    });
+  };
+
+  return (
+    <div
+      className={cn("absolute z-[5]", tool === null ? "pointer-events-none" : "cursor-crosshair")}
+      style={{ ...box, transform }}
+      onClick={handleClick}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDraft(null)}
+      // 添加点或框时不触发画布的拖拽平移
+      onMouseDown={(e) => tool !== null && e.stopPropagation()}
+    >
+      {boxes.map((promptBox) => (
+        <div
+          key={promptBox.id}
+          className="pointer-events-none absolute border-2 border-blue-500 bg-blue-500/10"
+          style={rectStyle(promptBox.normalized)}
+        >
+          <button
+            type="button"
+            className={cn(
+              "absolute -right-2 -top-2 flex h-4 w-4 items-center justify-center rounded-full bg-blue-500 text-white shadow",
+              tool === null ? "pointer-events-none" : "pointer-events-auto"
+            )}
+            title="框选区域（点击删除）"
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={(e) => {
+              e.stopPropagation();
+              onRemoveBox(promptBox.id);
+            }}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+      {draft && (
+        <div className="pointer-events-none absolute border-2 border-dashed border-blue-500" style={rectStyle(draft)} />
+      )}
+      {points.map((point) => (
+        <button
+          key={point.id}
+          type="button"
+          className={cn(
+            "absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow",
+            point.label === 1 ? "bg-green-500" : "bg-red-500",
+            tool === null ? "pointer-events-none" : "pointer-events-auto"
+          )}
+          style={{ left: `${point.normalizedX * 100}%`, top: `${point.normalizedY * 100}%` }}
+          title={point.label === 1 ? "包含点（点击删除）" : "排除点（点击删除）"}
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemovePoint(point.id);
+          }}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from "react";
+import { Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { InpaintPresetSelect } from "~/components/object-selection/InpaintPresetSelect";
+import { TaskEstimateSummary } from "~/components/object-selection/TaskEstimateSummary";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Switch } from "~/components/ui/switch";
+import {
+  DEFAULT_INPAINT_OPTIONS,
+  INPAINT_OPTION_LIMITS,
+  INPAINT_PRESETS,
+  matchInpaintPreset,
+  type InpaintPreset,
+} from "~/lib/inpaint-options";
+import { estimateTask, retryTask, type TaskEstimate } from "~/lib/processing.client";
+import type { TaskDetail } from "~/lib/task-history";
+
+interface RetryTaskFormProps {
+  task: TaskDetail;
+  onRetried: (taskId: string) => void;
+}
+
+/**
+ * 重新运行任务：沿用遮罩和源视频，只修改 ProPainter 参数（选择预设或单独修改），不需要重新生成遮罩
+ */
+export function RetryTaskForm({ task, onRetried }: RetryTaskFormProps) {
+  const initial = task.processing_params?.inpaint ?? DEFAULT_INPAINT_OPTIONS;
+  const [resizeRatio, setResizeRatio] = useState(String(initial.resizeRatio));
+  const [subvideoLength, setSubvideoLength] = useState(String(initial.subvideoLength));
+  const [fp16, setFp16] = useState(initial.fp16);
+  const [keepAudio, setKeepAudio] = useState(task.keep_audio);
+  const [estimate, setEstimate] = useState<TaskEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  // 同一次打开表单内的重复点击使用同一个幂等键
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
+
+  const rangeStart = task.processing_params?.range?.start;
+  const rangeEnd = task.processing_params?.range?.end;
+  const options = { resizeRatio: Number(resizeRatio), subvideoLength: Number(subvideoLength), fp16 };
+  const preset = matchInpaintPreset({ ...options, saveFps: initial.saveFps });
+
+  const applyPreset = (next: InpaintPreset) => {
+    const presetOptions = INPAINT_PRESETS[next].options;
+    setResizeRatio(String(presetOptions.resizeRatio));
+    setSubvideoLength(String(presetOptions.subvideoLength));
+    setFp16(presetOptions.fp16);
+  };
+
+  // 参数影响价格，修改后重新估算
+  useEffect(() => {
+    let cancelled = false;
+    setIsEstimating(true);
+    const range = rangeStart !== undefined && rangeEnd !== undefined ? { start: rangeStart, end: rangeEnd } : null;
+    const inpaint = { resizeRatio: Number(resizeRatio), subvideoLength: Number(subvideoLength), fp16 };
+    estimateTask({ assetId: task.asset_id, action: task.action, range, inpaint })
+      .then((data) => {
+        if (!cancelled) setEstimate(data);
+      })
+      .catch((error) => {
+        // 参数超出范围时估算失败，提交时由服务端返回具体错误
+        console.warn("⚠️ Failed to estimate retry:", error);
+        if (!cancelled) setEstimate(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsEstimating(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [task.asset_id, task.action, rangeStart, rangeEnd, resizeRatio, subvideoLength, fp16]);
+
+  const handleRetry = async () => {
+    setSubmitting(true);
+    try {
+      const result = await retryTask(task.id, task.action === "remove" ? { ...options, keepAudio } : { keepAudio }, idempotencyKey);
+      if (result.taskId) {
+        toast.success(result.duplicate ? "相同参数的任务已存在" : "已重新运行任务");
+        onRetried(result.taskId);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "重新运行失败");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-border p-3">
+      <h4 className="text-sm font-medium">重新运行</h4>
+      {task.action === "remove" && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="col-span-2 space-y-1">
+            <Label className="text-xs">处理质量</Label>
+            <InpaintPresetSelect value={preset} onChange={applyPreset} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="retry-resize-ratio" className="text-xs">
+              缩放比例
+            </Label>
+            <Input
+              id="retry-resize-ratio"
+              type="number"
+              step={0.05}
+              min={INPAINT_OPTION_LIMITS.resizeRatio.min}
+              max={INPAINT_OPTION_LIMITS.resizeRatio.max}
+              value={resizeRatio}
+              onChange={(e) => setResizeRatio(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="retry-subvideo-length" className="text-xs">
+              分段长度（帧）
+            </Label>
+            <Input
+              id="retry-subvideo-length"
+              type="number"
+              step={1}
+              min={INPAINT_OPTION_LIMITS.subvideoLength.min}
+              max={INPAINT_OPTION_LIMITS.subvideoLength.max}
+              value={subvideoLength}
+              onChange={(e) => setSubvideoLength(e.target.value)}
+            />
+          </div>
+          <Label className="text-xs">
+            <Switch checked={fp16} onCheckedChange={setFp16} />
+            半精度（fp16）
+          </Label>
+          <Label className="text-xs">
+            <Switch checked={keepAudio} onCheckedChange={setKeepAudio} />
+            保留原音频
+          </Label>
+        </div>
+      )}
+      {task.action === "extract" && (
+        <Label className="text-xs">
+          <Switch checked={keepAudio} onCheckedChange={setKeepAudio} />
+          保留原音频
+        </Label>
+      )}
+      <TaskEstimateSummary estimate={estimate} isLoading={isEstimating} />
+      <Button size="sm" onClick={handleRetry} disabled={submitting || estimate?.sufficient === false}>
+        {submitting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-1" />}
+        重新运行
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router";
+import { Download, Loader2, Pencil } from "lucide-react";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "~/components/ui/dialog";
+import { RetryTaskForm } from "~/components/tasks/RetryTaskForm";
+import { MaskExportMenu } from "~/components/object-selection/MaskExportMenu";
+import { INPAINT_PRESETS, matchInpaintPreset } from "~/lib/inpaint-options";
+import type { TaskDetail } from "~/lib/task-history";
+
+interface TaskDetailDialogProps {
+  taskId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelectTask?: (taskId: string) => void; // 切换到源任务或重新运行创建的任务
+}
+
+const ACTION_LABELS: Record<TaskDetail["action"], string> = {
+  remove: "删除对象",
+  extract: "提取对象",
+};
+
+const STATUS_LABELS: Record<TaskDetail["status"], string> = {
+  pending: "等待中",
+  processing: "处理中",
+  completed: "已完成",
+  failed: "失败",
+  cancelled: "已取消",
+};
+
+const FINISHED_STATUSES = new Set<TaskDetail["status"]>(["completed", "failed", "cancelled"]);
+
+const TRANSACTION_LABELS: Record<TaskDetail["credit_transactions"][number]["type"], string> = {
+  reserve: "预留",
+  capture: "扣除",
+  refund: "退还",
+  grant: "充值",
+};
+
+// ProPainter 参数，较早的任务没有保存时不显示
+function inpaintRows(task: TaskDetail): Array<[string, React.ReactNode]> {
+  const options = task.processing_params?.inpaint;
+  if (!options) return [];
+  const preset = task.processing_params?.preset ?? matchInpaintPreset(options);
+  return [
+    ["处理质量", preset ? INPAINT_PRESETS[preset].label : "自定义"],
+    ["缩放比例", options.resizeRatio],
+    ["分段长度", `${options.subvideoLength} 帧`],
+    ["半精度", options.fp16 ? "是" : "否"],
+  ];
+}
+
+function formatTime(value: string): string {
+  return new Date(value).toLocaleString("zh-CN", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+/**
+ * 任务详情：源视频、处理参数、输出和 credits 流水；已结束的任务可以修改参数重新运行
+ */
+export function TaskDetailDialog({ taskId, open, onOpenChange, onSelectTask }: TaskDetailDialogProps) {
+  const navigate = useNavigate();
+  const [task, setTask] = useState<TaskDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetch(`/api/tasks/${encodeURIComponent(taskId)}`, { credentials: "include" })
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`加载任务失败 (${res.status})`);
+        return ((await res.json()) as { task: TaskDetail }).task;
+      })
+      .then((data) => {
+        if (!cancelled) setTask(data);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "加载任务失败");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId, open]);
+
+  const rows: Array<[string, React.ReactNode]> = task
+    ? [
+        ["源视频", task.asset_name ?? "已删除"],
+        ["状态", STATUS_LABELS[task.status]],
+        ["进度", `${task.progress}%`],
+        ["保留原音频", task.keep_audio ? "是" : "否"],
+        ["Credits", task.credits_cost ?? "—"],
+        ...(task.processing_params?.objects?.length
+          ? [["对象", task.processing_params.objects.join("、")] as [string, React.ReactNode]]
+          : []),
+        ...inpaintRows(task),
+        ["创建时间", formatTime(task.created_at)],
+        ["更新时间", formatTime(task.updated_at)],
+      ]
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>任务详情</DialogTitle>
+          <DialogDescription className="font-mono text-xs">{taskId}</DialogDescription>
+        </DialogHeader>
+
+        {loading && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {task && !loading && (
+          <div className="space-y-4">
+            <div className="flex gap-4">
+              {task.thumbnail_url && (
+                <img
+                  src={task.thumbnail_url}
+                  alt={task.asset_name ?? ""}
+                  className="w-40 aspect-video rounded object-cover bg-muted shrink-0"
+                />
+              )}
+              <div className="flex-1 min-w-0 space-y-2">
+                <Badge variant="outline">{ACTION_LABELS[task.action]}</Badge>
+                <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                  {rows.map(([label, value]) => (
+                    <React.Fragment key={label}>
+                      <dt className="text-muted-foreground">{label}</dt>
+                      <dd className="truncate">{value}</dd>
+                    </React.Fragment>
+                  ))}
+                </dl>
+              </div>
+            </div>
+
+            {task.error_message && task.status !== "completed" && (
+              <p className="text-sm text-destructive">{task.error_message}</p>
+            )}
+
+            {task.parent_task_id && (
+              <p className="text-xs text-muted-foreground">
+                由任务{" "}
+                <button type="button" className="font-mono underline" onClick={() => onSelectTask?.(task.parent_task_id ?? "")}>
+                  {task.parent_task_id}
+                </button>{" "}
+                重新运行
+              </p>
+            )}
+
+            {task.credit_transactions.length > 0 && (
+              <div className="space-y-1">
+                <h4 className="text-sm font-medium">Credits 流水</h4>
+                <div className="divide-y divide-border text-xs">
+                  {task.credit_transactions.map((tx) => (
+                    <div key={tx.id} className="flex justify-between py-1.5">
+                      <span>
+                        {TRANSACTION_LABELS[tx.type]} {tx.amount}
+                      </span>
+                      <span className="text-muted-foreground">{formatTime(tx.created_at)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              {task.status === "completed" && task.output_url && (
+                <Button size="sm" variant="outline" onClick={() => window.open(task.output_url ?? "", "_blank")}>
+                  <Download className="h-4 w-4 mr-1" />
+                  下载结果
+                </Button>
+              )}
+              {task.output_asset_id && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    onOpenChange(false);
+                    navigate(`/object-selection/${task.output_asset_id}`);
+                  }}>
+                  <Pencil className="h-4 w-4 mr-1" />
+                  继续编辑结果
+                </Button>
+              )}
+              {task.mask_url && <MaskExportMenu source={{ taskId: task.id }} />}
+            </div>
+
+            {FINISHED_STATUSES.has(task.status) && task.mask_url && task.asset_name !== null && (
+              <RetryTaskForm key={task.id} task={task} onRetried={(id) => onSelectTask?.(id)} />
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,34 @@
+import React, { useEffect, useState } from "react";
+
+export interface ElementBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 元素在父元素中的布局位置和尺寸（不含 transform），随图片加载和窗口大小变化更新
+ * 用于让覆盖层与视频或遮罩预览图对齐
+ */
+export function useElementBox(targetRef: React.RefObject<HTMLElement | null>): ElementBox | null {
+  const [box, setBox] = useState<ElementBox | null>(null);
+
+  useEffect(() => {
+    const element = targetRef.current;
+    if (!element) return;
+    const update = () =>
+      setBox({
+        left: element.offsetLeft,
+        top: element.offsetTop,
+        width: element.offsetWidth,
+        height: element.offsetHeight,
+      });
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [targetRef]);
+
+  return box;
+}
@@ -24,18 +24,68 @@ export interface VisualPromptPoint {
   timestamp: number; // 时间戳（秒）
 }
 
+/**
+ * Visual Prompt Box - 用于 SAM3 visual_prompt 的框选区域，细小的对象用框比点更可靠
+ */
+export interface VisualPromptBox {
+  id: string;
+  x1: number; // 左上角像素坐标
+  y1: number;
+  x2: number; // 右下角像素坐标
+  y2: number;
+  normalized: { x1: number; y1: number; x2: number; y2: number }; // 归一化坐标 (0-1)
+  frameIndex: number; // 帧索引（对应关键帧）
+  timestamp: number; // 时间戳（秒）
+}
+
+/**
+ * 画布上添加视觉提示的工具：包含点、排除点、框选
+ */
+export type VisualPromptTool = "include" | "exclude" | "box";
+
+/**
+ * 在画布上直接修正遮罩的工具：画笔添加、橡皮擦除
+ */
+export type MaskPaintTool = "brush" | "eraser";
+
+/**
+ * 在关键帧上手动绘制的遮罩修正，每个关键帧一个，生成全视频遮罩后应用
+ */
+export interface ManualMaskEdit {
+  frameIndex: number;
+  timestamp: number; // 时间戳（秒）
+  image: string; // 与源视频同尺寸的 PNG data URL：白色为添加，黑色为擦除，透明为不变
+  spreadFrames: number; // 同时应用到前后各多少帧
+}
+
 export interface MaskData {
   preview: string; // base64 image
   maskUrl?: string;
   predictionId?: string;
   // 新增：visual_prompt 相关
   visualPromptPoints?: VisualPromptPoint[]; // 所有点击点
+  visualPromptBoxes?: VisualPromptBox[]; // 所有框选区域
   textPrompt?: string; // 合并的文本提示（如 "dog, mouse"）
   negativePrompt?: string; // 排除提示（如 "cat"）
   imageWidth?: number; // 图片宽度（用于坐标转换）
   imageHeight?: number; // 图片高度
 }
 
+/**
+ * 选中的对象：每个对象有自己的文本提示、视觉提示点和单帧遮罩
+ * 可以同时选中多个对象，确认时只处理 enabled 的对象，它们的遮罩合并后一次修复
+ */
+export interface SelectionObject {
+  id: string;
+  name: string; // 显示名称
+  textPrompt: string;
+  visualPromptPoints: VisualPromptPoint[];
+  visualPromptBoxes: VisualPromptBox[];
+  maskEdits: ManualMaskEdit[];
+  maskData: MaskData | null; // 单帧预览遮罩，生成中为 null
+  enabled: boolean; // 是否参与本次处理
+}
+
 /**
  * 待确认的遮罩操作
  */
@@ -53,7 +103,8 @@ export interface PendingMaskOperation {
 
 export interface ObjectSelectionState {
   clickPoints: ClickPoint[];
-  maskData: MaskData | null;
+  objects: SelectionObject[];
+  activeObjectId: string | null; // 画布上预览遮罩的对象
   selectedFrameIndex: number | null;
   selectedObject: ClickPoint | null;
   pendingAction: "remove" | "extract" | null;
@@ -64,10 +115,18 @@ export interface ObjectSelectionState {
 
 const deepClone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
 
+/**
+ * 确认时参与处理的对象：已开启且遮罩已生成
+ */
+export function getEnabledObjects(objects: SelectionObject[]): SelectionObject[] {
+  return objects.filter((object) => object.enabled && object.maskData !== null);
+}
+
 export function useObjectSelection(initialState?: Partial<ObjectSelectionState>) {
   const defaultState: ObjectSelectionState = {
     clickPoints: [],
-    maskData: null,
+    objects: [],
+    activeObjectId: null,
     selectedFrameIndex: null,
     selectedObject: null,
     pendingAction: null,
@@ -144,10 +203,45 @@ export function useObjectSelection(initialState?: Partial<ObjectSelectionState>)
     }));
   }, [updateState]);
 
-  const setMaskData = useCallback((maskData: MaskData | null) => {
+  // 添加对象并在画布上预览它；同 ID 的对象已存在时替换
+  const addObject = useCallback((object: SelectionObject) => {
+    updateState((prev) => ({
+      ...prev,
+      objects: [...prev.objects.filter((o) => o.id !== object.id), object],
+      activeObjectId: object.id,
+    }));
+  }, [updateState]);
+
+  const updateObject = useCallback((objectId: string, changes: Partial<Omit<SelectionObject, "id">>) => {
+    updateState((prev) => ({
+      ...prev,
+      objects: prev.objects.map((o) => (o.id === objectId ? { ...o, ...changes } : o)),
+    }));
+  }, [updateState]);
+
+  const removeObject = useCallback((objectId: string) => {
+    updateState((prev) => {
+      const objects = prev.objects.filter((o) => o.id !== objectId);
+      return {
+        ...prev,
+        objects,
+        activeObjectId:
+          prev.activeObjectId === objectId ? objects[objects.length - 1]?.id ?? null : prev.activeObjectId,
+      };
+    });
+  }, [updateState]);
+
+  const toggleObject = useCallback((objectId: string) => {
+    updateState((prev) => ({
+      ...prev,
+      objects: prev.objects.map((o) => (o.id === objectId ? { ...o, enabled: !o.enabled } : o)),
+    }));
+  }, [updateState]);
+
+  const setActiveObjectId = useCallback((objectId: string | null) => {
     updateState((prev) => ({
       ...prev,
-      maskData,
+      activeObjectId: objectId,
     }));
   }, [updateState]);
 
@@ -188,7 +282,8 @@ export function useObjectSelection(initialState?: Partial<ObjectSelectionState>)
       ...prev,
       clickPoints: [],
       selectedObject: null,
-      maskData: null,
+      objects: [],
+      activeObjectId: null,
       pendingAction: null,
     }));
   }, [updateState]);
@@ -204,7 +299,11 @@ export function useObjectSelection(initialState?: Partial<ObjectSelectionState>)
     updateState,
     addClickPoint,
     removeClickPoint,
-    setMaskData,
+    addObject,
+    updateObject,
+    removeObject,
+    toggleObject,
+    setActiveObjectId,
     setSelectedFrameIndex,
     setPendingAction,
     clearSelection,
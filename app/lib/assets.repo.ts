@@ -13,6 +13,8 @@ export type AssetRecord = {
   width: number | null;
   height: number | null;
   duration_seconds: number | null;
+  derived_from_asset_id: string | null; // 处理结果的源资产
+  task_id: string | null; // 生成该资产的处理任务
   created_at: string;
   deleted_at: string | null;
 };
@@ -27,6 +29,8 @@ export async function insertAsset(params: {
   width?: number | null;
   height?: number | null;
   durationSeconds?: number | null;
+  derivedFromAssetId?: string | null;
+  taskId?: string | null;
 }): Promise<AssetRecord> {
   return queryWithFallback(
     async (supabase: SupabaseClient) => {
@@ -44,6 +48,8 @@ export async function insertAsset(params: {
           width: params.width ?? null,
           height: params.height ?? null,
           duration_seconds: params.durationSeconds ?? null,
+          derived_from_asset_id: params.derivedFromAssetId ?? null,
+          task_id: params.taskId ?? null,
         })
         .select()
         .single();
@@ -58,8 +64,8 @@ export async function insertAsset(params: {
       try {
         const id = crypto.randomUUID();
         const { rows } = await client.query<AssetRecord>(
-          `insert into assets (id, user_id, project_id, original_name, storage_key, mime_type, size_bytes, width, height, duration_seconds)
-           values ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)
+          `insert into assets (id, user_id, project_id, original_name, storage_key, mime_type, size_bytes, width, height, duration_seconds, derived_from_asset_id, task_id)
+           values ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12)
            returning *`,
           [
             id,
@@ -72,6 +78,8 @@ export async function insertAsset(params: {
             params.width ?? null,
             params.height ?? null,
             params.durationSeconds ?? null,
+            params.derivedFromAssetId ?? null,
+            params.taskId ?? null,
           ]
         );
         return rows[0];
@@ -187,3 +195,64 @@ export async function softDeleteAsset(
     }
   );
 }
+
+export type AssetLineageRecord = AssetRecord & {
+  action: "remove" | "extract" | null; // 生成该版本的任务操作，原始上传为 null
+};
+
+/**
+ * 返回资产所在版本树的全部资产（从最早的原始资产开始，包含已删除的版本，由调用方决定是否展示）
+ * 递归查询只走直接数据库连接（Supabase REST 不支持递归 CTE）
+ */
+export async function listAssetLineage(assetId: string, userId: string): Promise<AssetLineageRecord[]> {
+  const pool = getDirectDbPool();
+  const { rows } = await pool.query<AssetLineageRecord>(
+    `with recursive ancestors as (
+       select id, derived_from_asset_id, 0 as depth from assets where id = $1 and user_id = $2
+       union all
+       select a.id, a.derived_from_asset_id, c.depth + 1
+         from assets a join ancestors c on a.id = c.derived_from_asset_id
+        where a.user_id = $2
+     ),
+     descendants as (
+       select a.* from assets a
+        where a.id = (select id from ancestors order by depth desc limit 1)
+       union all
+       select a.* from assets a join descendants d on a.derived_from_asset_id = d.id
+        where a.user_id = $2
+     )
+     select d.*, t.action
+       from descendants d
+       left join tasks t on t.id = d.task_id
+      order by d.created_at asc`,
+    [assetId, userId]
+  );
+  return rows;
+}
+
+/**
+ * 用户的原始上传（不是处理结果）及其派生版本数，按上传时间倒序
+ */
+export async function listOriginalAssets(
+  userId: string,
+  limit = 20
+): Promise<Array<AssetRecord & { version_count: number }>> {
+  const pool = getDirectDbPool();
+  const { rows } = await pool.query<AssetRecord & { version_count: number }>(
+    `with recursive tree as (
+       select id, id as root_id, deleted_at from assets
+        where user_id = $1 and derived_from_asset_id is null and deleted_at is null
+       union all
+       select a.id, t.root_id, a.deleted_at
+         from assets a join tree t on a.derived_from_asset_id = t.id
+     )
+     select r.*, (count(t.id) filter (where t.deleted_at is null and t.id <> r.id))::int as version_count
+       from assets r
+       join tree t on t.root_id = r.id
+      group by r.id
+      order by r.created_at desc
+      limit $2`,
+    [userId, limit]
+  );
+  return rows;
+}
@@ -0,0 +1,217 @@
+import crypto from "crypto";
+import type { Pool, PoolClient } from "pg";
+import { getDirectDbPool } from "~/lib/supabase.server";
+
+/**
+ * Credits 账本：余额保存在 credits 表，每次变化都写入 credit_transactions
+ * 任务启动时预留（从可用余额中扣除），完成时确认扣费，失败或取消时退还
+ * 所有操作都在事务中锁定相关行，只走直接数据库连接
+ */
+
+// 复用同一个连接池（worker 和 web 进程都会频繁结算）
+let pool: Pool | null = null;
+function creditsPool(): Pool {
+  if (!pool) pool = getDirectDbPool();
+  return pool;
+}
+
+export type CreditTransactionType = "reserve" | "capture" | "refund" | "grant";
+
+export interface CreditTransaction {
+  id: string;
+  user_id: string;
+  task_id: string | null;
+  type: CreditTransactionType;
+  amount: number; // 始终为正数，对余额的影响由 type 决定
+  balance_after: number;
+  description: string | null;
+  created_at: string;
+}
+
+/**
+ * 在事务中执行，出错时回滚
+ */
+async function withTransaction<T>(run: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await creditsPool().connect();
+  try {
+    await client.query("begin");
+    const result = await run(client);
+    await client.query("commit");
+    return result;
+  } catch (error) {
+    await client.query("rollback").catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * 锁定用户的余额行（不存在时创建），返回当前余额
+ */
+async function lockBalance(client: PoolClient, userId: string): Promise<number> {
+  await client.query(`insert into credits (user_id, balance) values ($1, 0) on conflict (user_id) do nothing`, [userId]);
+  const { rows } = await client.query<{ balance: number }>(
+    `select balance from credits where user_id = $1 for update`,
+    [userId]
+  );
+  return Number(rows[0]?.balance) || 0;
+}
+
+async function changeBalance(client: PoolClient, userId: string, delta: number): Promise<number> {
+  const { rows } = await client.query<{ balance: number }>(
+    `update credits set balance = balance + $2, updated_at = now() where user_id = $1 returning balance`,
+    [userId, delta]
+  );
+  return Number(rows[0]?.balance) || 0;
+}
+
+async function recordTransaction(
+  client: PoolClient,
+  entry: Omit<CreditTransaction, "id" | "created_at">
+): Promise<void> {
+  await client.query(
+    `insert into credit_transactions (id, user_id, task_id, type, amount, balance_after, description)
+     values ($1, $2, $3, $4, $5, $6, $7)`,
+    [crypto.randomUUID(), entry.user_id, entry.task_id, entry.type, entry.amount, entry.balance_after, entry.description]
+  );
+}
+
+/**
+ * 当前可用余额（不含已预留的 credits），没有记录时为 0
+ */
+export async function getCreditBalance(userId: string): Promise<number> {
+  const { rows } = await creditsPool().query<{ balance: number }>(`select balance from credits where user_id = $1`, [userId]);
+  return Number(rows[0]?.balance) || 0;
+}
+
+/**
+ * 为任务预留 credits：余额不足、任务不存在或已经预留过时不做任何修改并返回 reserved: false
+ */
+export async function reserveTaskCredits(
+  taskId: string,
+  userId: string,
+  amount: number,
+  description: string
+): Promise<{ reserved: boolean; balance: number }> {
+  return withTransaction(async (client) => {
+    const balance = await lockBalance(client, userId);
+    if (balance < amount) {
+      return { reserved: false, balance };
+    }
+
+    // updated_at 与 updateTask 一样使用毫秒精度，任务推送按 updated_at 的毫秒游标查询
+    const { rowCount } = await client.query(
+      `update tasks set credits_reserved = $2, credits_cost = $2, updated_at = $3
+        where id = $1 and credits_reserved = 0 and credits_cost = 0`,
+      [taskId, amount, new Date().toISOString()]
+    );
+    if (!rowCount) {
+      return { reserved: false, balance };
+    }
+    if (amount <= 0) {
+      return { reserved: true, balance };
+    }
+
+    const balanceAfter = await changeBalance(client, userId, -amount);
+    await recordTransaction(client, {
+      user_id: userId,
+      task_id: taskId,
+      type: "reserve",
+      amount,
+      balance_after: balanceAfter,
+      description,
+    });
+    console.log(`💰 Reserved ${amount} credits for task ${taskId}`);
+    return { reserved: true, balance: balanceAfter };
+  });
+}
+
+/**
+ * 结算任务预留的 credits：清零预留并写入账本，返回结算的数量
+ * capture 确认扣费（余额不变），refund 退还到余额；预留已结算时返回 0，重复调用不会重复结算
+ */
+async function settleTaskCredits(taskId: string, type: "capture" | "refund"): Promise<number> {
+  return withTransaction(async (client) => {
+    const { rows } = await client.query<{ user_id: string; amount: number }>(
+      `update tasks t
+          set credits_reserved = 0, updated_at = $2
+         from (select id, credits_reserved from tasks where id = $1 for update) old
+        where t.id = old.id and old.credits_reserved > 0
+        returning t.user_id, old.credits_reserved as amount`,
+      [taskId, new Date().toISOString()]
+    );
+    const settled = rows[0];
+    if (!settled) return 0;
+
+    const amount = Number(settled.amount);
+    const balance = await lockBalance(client, settled.user_id);
+    const balanceAfter = type === "refund" ? await changeBalance(client, settled.user_id, amount) : balance;
+    await recordTransaction(client, {
+      user_id: settled.user_id,
+      task_id: taskId,
+      type,
+      amount,
+      balance_after: balanceAfter,
+      description: null,
+    });
+    return amount;
+  });
+}
+
+/**
+ * 任务完成时确认扣除预留的 credits，返回扣除的数量
+ */
+export async function captureTaskCredits(taskId: string): Promise<number> {
+  const captured = await settleTaskCredits(taskId, "capture");
+  if (captured > 0) console.log(`💰 Captured ${captured} credits for task ${taskId}`);
+  return captured;
+}
+
+/**
+ * 退还任务预留的 credits，返回退还的数量
+ * 预留清零和余额增加在同一事务中完成，重复调用不会重复退款
+ */
+export async function refundTaskCredits(taskId: string): Promise<number> {
+  const refunded = await settleTaskCredits(taskId, "refund");
+  if (refunded > 0) console.log(`💰 Refunded ${refunded} credits for task ${taskId}`);
+  return refunded;
+}
+
+/**
+ * 手动增加 credits（充值、补偿），返回新的余额
+ */
+export async function grantCredits(userId: string, amount: number, description: string): Promise<number> {
+  return withTransaction(async (client) => {
+    await lockBalance(client, userId);
+    const balanceAfter = await changeBalance(client, userId, amount);
+    await recordTransaction(client, {
+      user_id: userId,
+      task_id: null,
+      type: "grant",
+      amount,
+      balance_after: balanceAfter,
+      description,
+    });
+    return balanceAfter;
+  });
+}
+
+/**
+ * 用户的交易记录，按时间倒序；before 为上一页最后一条的 created_at，taskId 只返回该任务的记录
+ */
+export async function listCreditTransactions(
+  userId: string,
+  options: { limit?: number; before?: string; taskId?: string } = {}
+): Promise<CreditTransaction[]> {
+  const { rows } = await creditsPool().query<CreditTransaction>(
+    `select * from credit_transactions
+      where user_id = $1
+        and ($2::timestamptz is null or created_at < $2)
+        and ($4::text is null or task_id = $4)
+      order by created_at desc
+      limit $3`,
+    [userId, options.before ?? null, options.limit ?? 20, options.taskId ?? null]
+  );
+  return rows.map((row) => ({ ...row, amount: Number(row.amount), balance_after: Number(row.balance_after) }));
+}
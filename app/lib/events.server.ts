@@ -0,0 +1,106 @@
+/**
+ * Server-Sent Events 响应：worker 与 web 进程之间只通过数据库通信，
+ * 这里按间隔调用 poll 读取最新状态，只推送有变化的事件；客户端断开时停止
+ *
+ * 环境变量：
+ *   EVENTS_POLL_INTERVAL_MS - 读取数据库的间隔（默认: 1000）
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: unknown;
+  id?: string; // 客户端重连时通过 Last-Event-ID 带回
+}
+
+export interface EventPollResult {
+  events: ServerSentEvent[];
+  done?: boolean; // 推送本次事件后关闭连接
+}
+
+const POLL_INTERVAL_MS = Number(process.env.EVENTS_POLL_INTERVAL_MS) || 1000;
+// 代理通常会断开长时间没有数据的连接，定期发送注释行保持连接
+const KEEPALIVE_INTERVAL_MS = 15 * 1000;
+// 连接断开后客户端的重连间隔
+const RETRY_MS = 3000;
+
+function formatEvent(event: ServerSentEvent): string {
+  const lines = [`event: ${event.event}`];
+  if (event.id) lines.push(`id: ${event.id}`);
+  lines.push(`data: ${JSON.stringify(event.data)}`);
+  return `${lines.join("\n")}\n\n`;
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+export function eventStreamResponse(
+  request: Request,
+  poll: () => Promise<EventPollResult>,
+  intervalMs = POLL_INTERVAL_MS
+): Response {
+  const encoder = new TextEncoder();
+  const closed = new AbortController();
+  request.signal.addEventListener("abort", () => closed.abort(), { once: true });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          closed.abort(); // 流已关闭（客户端断开）
+        }
+      };
+      write(`retry: ${RETRY_MS}\n\n`);
+      let lastWriteAt = Date.now();
+
+      while (!closed.signal.aborted) {
+        try {
+          const { events, done } = await poll();
+          for (const event of events) {
+            write(formatEvent(event));
+            lastWriteAt = Date.now();
+          }
+          if (done) break;
+        } catch (error) {
+          // 数据库的临时错误不断开连接，下次轮询重试
+          console.warn("⚠️ Event stream poll failed:", error instanceof Error ? error.message : error);
+        }
+        if (Date.now() - lastWriteAt >= KEEPALIVE_INTERVAL_MS) {
+          write(": keepalive\n\n");
+          lastWriteAt = Date.now();
+        }
+        await sleep(intervalMs, closed.signal);
+      }
+
+      try {
+        controller.close();
+      } catch {
+        // 客户端已断开
+      }
+    },
+    cancel() {
+      closed.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // 关闭 nginx 缓冲
+    },
+  });
+}
@@ -0,0 +1,88 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { audioArgs, probeMedia, retimeFilter, runFfmpeg, zipDirectory } from "~/lib/media.server";
+import type { TimeRange } from "~/lib/segment.server";
+
+/**
+ * extract 操作：用 SAM3 的纯遮罩视频作为 alpha 通道，把选中对象抠到透明背景上
+ * 输出 VP9 WebM（yuva420p，浏览器和 Remotion 都能直接播放透明视频）以及 PNG 序列 zip
+ */
+
+/**
+ * PNG 序列 zip 与 WebM 资产放在一起，文件名由 WebM 的 storage_key 推导
+ */
+export function framesArchiveKey(storageKey: string): string {
+  return `${path.basename(storageKey, path.extname(storageKey))}_frames.zip`;
+}
+
+export async function renderAlphaExtract(options: {
+  sourcePath: string;
+  maskUrl: string;
+  webmPath: string;
+  zipPath: string;
+  range?: TimeRange; // 遮罩只覆盖该范围时，源视频也只取该范围
+  keepAudio?: boolean; // WebM 是否保留源视频的音轨（默认保留）
+  signal?: AbortSignal;
+}): Promise<void> {
+  const framesDir = fs.mkdtempSync(path.join(os.tmpdir(), "extract-frames-"));
+  try {
+    const { width, height, fps } = await probeMedia(options.sourcePath);
+    if (!width || !height) {
+      throw new Error(`Unable to read video size: ${options.sourcePath}`);
+    }
+
+    // 遮罩按帧序号对齐到源视频帧率、缩放到源视频尺寸后取亮度作为 alpha，白色为保留区域
+    // 不使用 scale2ref：它在两路输入帧时间戳不一致时会丢帧
+    const filter = [
+      `[1:v]${retimeFilter(fps || 30)},scale=${width}:${height},format=gray[alpha]`,
+      "[0:v][alpha]alphamerge,split=2[matted1][matted2]",
+      "[matted1]format=yuva420p[webm]",
+      "[matted2]format=rgba[png]",
+    ].join(";");
+
+    const sourceRange = options.range
+      ? ["-ss", String(options.range.start), "-t", String(options.range.end - options.range.start)]
+      : [];
+
+    await runFfmpeg([
+      ...sourceRange,
+      "-i",
+      options.sourcePath,
+      "-i",
+      options.maskUrl,
+      "-filter_complex",
+      filter,
+      // WebM：关闭 alt-ref，否则 libvpx 会丢掉 alpha
+      "-map",
+      "[webm]",
+      "-c:v",
+      "libvpx-vp9",
+      "-pix_fmt",
+      "yuva420p",
+      "-auto-alt-ref",
+      "0",
+      "-b:v",
+      "0",
+      "-crf",
+      "30",
+      ...audioArgs(options.keepAudio ?? true, "libopus"),
+      options.webmPath,
+      // PNG 序列
+      "-map",
+      "[png]",
+      "-f",
+      "image2",
+      path.join(framesDir, "frame_%05d.png"),
+    ], options.signal);
+
+    await zipDirectory(framesDir, options.zipPath);
+  } catch (error) {
+    // 清理不完整的输出
+    fs.rmSync(options.webmPath, { force: true });
+    fs.rmSync(options.zipPath, { force: true });
+    throw error;
+  } finally {
+    fs.rmSync(framesDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  DEFAULT_INPAINT_OPTIONS,
+  INPAINT_PRESETS,
+  inpaintCostMultiplier,
+  isInpaintPreset,
+  matchInpaintPreset,
+  resolveInpaintOptions,
+} from "~/lib/inpaint-options";
+
+describe("inpaint presets", () => {
+  it("recognizes preset names only", () => {
+    assert.equal(isInpaintPreset("draft"), true);
+    assert.equal(isInpaintPreset("high"), true);
+    assert.equal(isInpaintPreset("ultra"), false);
+    assert.equal(isInpaintPreset("toString"), false);
+    assert.equal(isInpaintPreset(1), false);
+  });
+
+  it("matches options back to their preset", () => {
+    assert.equal(matchInpaintPreset(DEFAULT_INPAINT_OPTIONS), "standard");
+    assert.equal(matchInpaintPreset({ ...INPAINT_PRESETS.high.options }), "high");
+    assert.equal(matchInpaintPreset({ ...INPAINT_PRESETS.draft.options, subvideoLength: 50 }), null);
+  });
+});
+
+describe("inpaintCostMultiplier", () => {
+  it("uses the preset multiplier for preset options", () => {
+    assert.equal(inpaintCostMultiplier(INPAINT_PRESETS.draft.options), 0.5);
+    assert.equal(inpaintCostMultiplier(INPAINT_PRESETS.standard.options), 1);
+    assert.equal(inpaintCostMultiplier(INPAINT_PRESETS.high.options), 2.5);
+  });
+
+  it("prices custom options by the tier they fall into", () => {
+    const standard = INPAINT_PRESETS.standard.options;
+    assert.equal(inpaintCostMultiplier({ ...standard, fp16: false }), 2.5);
+    assert.equal(inpaintCostMultiplier({ ...standard, resizeRatio: 0.7 }), 2.5);
+    assert.equal(inpaintCostMultiplier({ ...standard, resizeRatio: 0.2 }), 0.5);
+    assert.equal(inpaintCostMultiplier({ ...standard, resizeRatio: 0.4 }), 1);
+    assert.equal(inpaintCostMultiplier({ ...standard, subvideoLength: 80 }), 1);
+  });
+});
+
+describe("resolveInpaintOptions", () => {
+  it("defaults to the standard preset", () => {
+    assert.deepEqual(resolveInpaintOptions({}), { options: DEFAULT_INPAINT_OPTIONS, preset: "standard" });
+  });
+
+  it("applies a preset", () => {
+    assert.deepEqual(resolveInpaintOptions({ preset: "high" }), {
+      options: INPAINT_PRESETS.high.options,
+      preset: "high",
+    });
+  });
+
+  it("applies individual fields on top of the preset", () => {
+    const resolved = resolveInpaintOptions({ preset: "draft", subvideoLength: 50 });
+    assert.deepEqual(resolved, {
+      options: { ...INPAINT_PRESETS.draft.options, subvideoLength: 50 },
+      preset: null,
+    });
+  });
+
+  it("starts from the given base without a preset", () => {
+    const base = INPAINT_PRESETS.high.options;
+    assert.deepEqual(resolveInpaintOptions({ fp16: true }, base), {
+      options: { ...base, fp16: true },
+      preset: null,
+    });
+  });
+
+  it("rejects unknown presets and out-of-range fields", () => {
+    assert.ok("error" in resolveInpaintOptions({ preset: "ultra" }));
+    assert.ok("error" in resolveInpaintOptions({ resizeRatio: 1.5 }));
+    assert.ok("error" in resolveInpaintOptions({ resizeRatio: "0.5" }));
+    assert.ok("error" in resolveInpaintOptions({ subvideoLength: 40.5 }));
+    assert.ok("error" in resolveInpaintOptions({ fp16: "yes" }));
+  });
+
+  it("does not modify the preset options", () => {
+    resolveInpaintOptions({ preset: "standard", resizeRatio: 0.8 });
+    assert.equal(INPAINT_PRESETS.standard.options.resizeRatio, 0.5);
+  });
+});
@@ -0,0 +1,131 @@
+import type { InpaintingInput } from "~/lib/providers/types";
+
+/**
+ * ProPainter 的可调参数：提交时选择质量预设，重新运行时可以单独修改，实际使用的参数保存在任务上
+ * - resizeRatio：修复前的缩放比例，越小越快，worker 会把结果合成回原始分辨率
+ * - subvideoLength：分段长度（帧），越小显存占用越低，分段边界可能出现闪烁
+ * - fp16：半精度推理，降低显存占用和成本
+ */
+export type InpaintOptions = Pick<InpaintingInput, "fp16" | "resizeRatio" | "subvideoLength" | "saveFps">;
+
+/**
+ * 质量预设：缩放比例越大、分段越长、关闭半精度时效果越好，耗时和显存也越高，按 creditMultiplier 计价
+ */
+export type InpaintPreset = "draft" | "standard" | "high";
+
+export const INPAINT_PRESETS: Record<
+  InpaintPreset,
+  { label: string; description: string; creditMultiplier: number; options: InpaintOptions }
+> = {
+  draft: {
+    label: "草稿",
+    description: "低分辨率快速预览",
+    creditMultiplier: 0.5,
+    options: { fp16: true, resizeRatio: 0.3, subvideoLength: 30, saveFps: 24 },
+  },
+  standard: {
+    label: "标准",
+    description: "速度和效果平衡",
+    creditMultiplier: 1,
+    options: { fp16: true, resizeRatio: 0.5, subvideoLength: 40, saveFps: 24 },
+  },
+  high: {
+    label: "高质量",
+    description: "原始分辨率、全精度修复",
+    creditMultiplier: 2.5,
+    options: { fp16: false, resizeRatio: 1, subvideoLength: 60, saveFps: 24 },
+  },
+};
+
+export const DEFAULT_INPAINT_PRESET: InpaintPreset = "standard";
+export const DEFAULT_INPAINT_OPTIONS: InpaintOptions = INPAINT_PRESETS[DEFAULT_INPAINT_PRESET].options;
+
+export function isInpaintPreset(value: unknown): value is InpaintPreset {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(INPAINT_PRESETS, value);
+}
+
+/**
+ * 参数与某个预设完全一致时返回该预设，否则为 null（自定义参数）
+ */
+export function matchInpaintPreset(options: InpaintOptions): InpaintPreset | null {
+  const presets = Object.keys(INPAINT_PRESETS) as InpaintPreset[];
+  return (
+    presets.find((preset) => {
+      const candidate = INPAINT_PRESETS[preset].options;
+      return (
+        candidate.fp16 === options.fp16 &&
+        candidate.resizeRatio === options.resizeRatio &&
+        candidate.subvideoLength === options.subvideoLength &&
+        candidate.saveFps === options.saveFps
+      );
+    }) ?? null
+  );
+}
+
+/**
+ * 计价系数：预设使用预设的系数；自定义参数按处理量归入预设档位
+ * 关闭半精度或缩放比例高于标准时按高质量计价，不高于草稿时按草稿计价
+ */
+export function inpaintCostMultiplier(options: InpaintOptions): number {
+  const preset = matchInpaintPreset(options);
+  if (preset) return INPAINT_PRESETS[preset].creditMultiplier;
+  if (!options.fp16 || options.resizeRatio > INPAINT_PRESETS.standard.options.resizeRatio) {
+    return INPAINT_PRESETS.high.creditMultiplier;
+  }
+  if (options.resizeRatio <= INPAINT_PRESETS.draft.options.resizeRatio) {
+    return INPAINT_PRESETS.draft.creditMultiplier;
+  }
+  return INPAINT_PRESETS.standard.creditMultiplier;
+}
+
+export const INPAINT_OPTION_LIMITS = {
+  resizeRatio: { min: 0.1, max: 1 },
+  subvideoLength: { min: 10, max: 100 },
+} as const;
+
+/**
+ * 校验用户提交的参数，未提交的字段沿用 base；saveFps 不允许修改
+ */
+export function parseInpaintOptions(
+  input: { fp16?: unknown; resizeRatio?: unknown; subvideoLength?: unknown },
+  base: InpaintOptions = DEFAULT_INPAINT_OPTIONS
+): { options: InpaintOptions } | { error: string } {
+  const options = { ...base };
+
+  if (input.fp16 !== undefined) {
+    if (typeof input.fp16 !== "boolean") return { error: "fp16 must be a boolean" };
+    options.fp16 = input.fp16;
+  }
+  if (input.resizeRatio !== undefined) {
+    const { min, max } = INPAINT_OPTION_LIMITS.resizeRatio;
+    const value = Number(input.resizeRatio);
+    if (typeof input.resizeRatio !== "number" || !Number.isFinite(value) || value < min || value > max) {
+      return { error: `resizeRatio must be between ${min} and ${max}` };
+    }
+    options.resizeRatio = value;
+  }
+  if (input.subvideoLength !== undefined) {
+    const { min, max } = INPAINT_OPTION_LIMITS.subvideoLength;
+    const value = Number(input.subvideoLength);
+    if (typeof input.subvideoLength !== "number" || !Number.isInteger(value) || value < min || value > max) {
+      return { error: `subvideoLength must be an integer between ${min} and ${max}` };
+    }
+    options.subvideoLength = value;
+  }
+  return { options };
+}
+
+/**
+ * 预设加上单独修改的参数：先取 preset（未提交时为 base），再应用提交的字段
+ */
+export function resolveInpaintOptions(
+  input: { preset?: unknown; fp16?: unknown; resizeRatio?: unknown; subvideoLength?: unknown },
+  base: InpaintOptions = DEFAULT_INPAINT_OPTIONS
+): { options: InpaintOptions; preset: InpaintPreset | null } | { error: string } {
+  if (input.preset !== undefined && !isInpaintPreset(input.preset)) {
+    return { error: `Unknown preset "${String(input.preset)}". Supported presets: ${Object.keys(INPAINT_PRESETS).join(", ")}.` };
+  }
+  const parsed = parseInpaintOptions(input, input.preset !== undefined ? INPAINT_PRESETS[input.preset].options : base);
+  if ("error" in parsed) return parsed;
+  return { options: parsed.options, preset: matchInpaintPreset(parsed.options) };
+}
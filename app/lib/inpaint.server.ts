@@ -0,0 +1,94 @@
+import { audioArgs, probeMedia, retimeFilter, runFfmpeg } from "~/lib/media.server";
+import type { TimeRange } from "~/lib/segment.server";
+
+/**
+ * remove 操作的后处理：ProPainter 以 resize_ratio 缩小后修复，输出分辨率低于原视频
+ * 这里把修复结果放大后，只在羽化后的遮罩区域内合成回原始分辨率的源视频，遮罩外的像素保持不变
+ * ProPainter 以固定的 save_fps 输出且没有音轨，合成时按帧序号对齐到源视频的帧率，音轨取自源视频
+ *
+ * 环境变量：
+ *   INPAINT_FEATHER_PX - 遮罩边缘羽化宽度（像素，默认: 8）
+ */
+
+const DEFAULT_FEATHER_PX = 8;
+
+/**
+ * 遮罩转为 alpha：高斯模糊后亮度加倍，遮罩内部保持完全不透明，只向外羽化，避免对象边缘残留
+ */
+function featherFilter(featherPx: number): string {
+  if (featherPx <= 0) return "";
+  return `,gblur=sigma=${featherPx / 2},lut=y='min(255,val*2)'`;
+}
+
+function envFeatherPx(): number {
+  const value = Number(process.env.INPAINT_FEATHER_PX);
+  return process.env.INPAINT_FEATHER_PX && Number.isFinite(value) && value >= 0 ? value : DEFAULT_FEATHER_PX;
+}
+
+export async function compositeInpaint(options: {
+  sourcePath: string;
+  inpaintedUrl: string; // ProPainter 输出（只覆盖 range 时为片段）
+  maskUrl: string; // SAM3 纯遮罩视频，白色为修复区域
+  outputPath: string;
+  range?: TimeRange; // 修复结果只覆盖该范围，范围外直接使用源视频
+  featherPx?: number;
+  keepAudio?: boolean; // 是否保留源视频的音轨（默认保留）
+  signal?: AbortSignal;
+}): Promise<void> {
+  const info = await probeMedia(options.sourcePath);
+  if (!info.width || !info.height) {
+    throw new Error(`Unable to read video size: ${options.sourcePath}`);
+  }
+  const fps = info.fps || 30;
+  const start = options.range?.start ?? 0;
+  const duration = options.range
+    ? options.range.end - options.range.start
+    : (info.durationSeconds ?? 0);
+  if (duration <= 0) {
+    throw new Error(`Unable to read video duration: ${options.sourcePath}`);
+  }
+  const featherPx = options.featherPx ?? envFeatherPx();
+
+  // 修复结果和遮罩与输入逐帧对应，但帧率可能不同（ProPainter 固定为 save_fps），按帧序号重新计时到源视频帧率
+  // 再统一尺寸并补齐/截断到覆盖时长；不使用 scale2ref：它在两路输入帧时间戳不一致时会丢帧
+  const fit = `${retimeFilter(fps)},scale=${info.width}:${info.height}:flags=lanczos,setsar=1`;
+  const pad = `tpad=stop_mode=clone:stop_duration=${duration},trim=duration=${duration}`;
+  // 范围之前补黑色（alpha 为 0），让修复区域落在源视频的对应时间
+  const offset = start > 0 ? `,tpad=start_duration=${start}:color=black` : "";
+  const filter = [
+    "[0:v]setsar=1,format=yuv420p[base]",
+    `[1:v]${fit},format=yuv420p,${pad}${offset}[fill]`,
+    `[2:v]${fit},format=gray${featherFilter(featherPx)},${pad}${offset}[alpha]`,
+    "[fill][alpha]alphamerge[patch]",
+    // 修复区域结束后（范围之后）直接输出源视频
+    "[base][patch]overlay=eof_action=pass:format=auto,format=yuv420p[video]",
+  ].join(";");
+
+  await runFfmpeg(
+    [
+      "-i",
+      options.sourcePath,
+      "-i",
+      options.inpaintedUrl,
+      "-i",
+      options.maskUrl,
+      "-filter_complex",
+      filter,
+      "-map",
+      "[video]",
+      ...audioArgs(options.keepAudio ?? true, "aac"),
+      "-c:v",
+      "libx264",
+      "-preset",
+      "veryfast",
+      "-crf",
+      "18",
+      "-pix_fmt",
+      "yuv420p",
+      "-movflags",
+      "+faststart",
+      options.outputPath,
+    ],
+    options.signal
+  );
+}
@@ -0,0 +1,241 @@
+import crypto from "crypto";
+import type { Pool } from "pg";
+import { getDirectDbPool } from "~/lib/supabase.server";
+
+/**
+ * 基于 Postgres 的持久化任务队列
+ * 认领使用 `for update skip locked`，支持多个 worker 并发；只走直接数据库连接（Supabase REST 不支持行锁）
+ */
+
+export type JobType =
+  | "generate_mask"
+  | "refine_mask"
+  | "combine_masks"
+  | "edit_mask"
+  | "import_mask"
+  | "export_mask"
+  | "inpaint"
+  | "extract";
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export interface Job<TPayload = Record<string, unknown>, TResult = Record<string, unknown>> {
+  id: string;
+  type: JobType;
+  user_id: string;
+  task_id: string | null;
+  payload: TPayload;
+  status: JobStatus;
+  prediction_id: string | null;
+  result: TResult | null;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_at: string | null;
+  locked_by: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// worker 进程长期运行，复用同一个连接池，避免每次轮询都新建 Pool
+let pool: Pool | null = null;
+function jobsPool(): Pool {
+  if (!pool) pool = getDirectDbPool();
+  return pool;
+}
+
+export async function enqueueJob(job: {
+  type: JobType;
+  userId: string;
+  taskId?: string | null;
+  payload: Record<string, unknown>;
+  maxAttempts?: number;
+  runAt?: Date;
+}): Promise<Job> {
+  const id = `job-${crypto.randomUUID()}`;
+  const { rows } = await jobsPool().query<Job>(
+    `insert into jobs (id, type, user_id, task_id, payload, max_attempts, run_at)
+     values ($1, $2, $3, $4, $5, $6, $7)
+     returning *`,
+    [
+      id,
+      job.type,
+      job.userId,
+      job.taskId ?? null,
+      JSON.stringify(job.payload),
+      job.maxAttempts ?? 5,
+      (job.runAt ?? new Date()).toISOString(),
+    ]
+  );
+  return rows[0];
+}
+
+export async function getJobById(jobId: string): Promise<Job | null> {
+  const { rows } = await jobsPool().query<Job>(`select * from jobs where id = $1`, [jobId]);
+  return rows[0] ?? null;
+}
+
+export async function getJobByPredictionId(predictionId: string): Promise<Job | null> {
+  const { rows } = await jobsPool().query<Job>(
+    `select * from jobs where prediction_id = $1 order by created_at desc limit 1`,
+    [predictionId]
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * 用户自己的、已完成的遮罩 job 中输出为 url 的那个（generate-mask、refine-mask 等的结果都在 result.mask 中）
+ * 客户端提交的遮罩地址只接受这些，不能直接交给 ffmpeg 读取
+ */
+export async function findMaskJobByUrl(userId: string, url: string): Promise<Job | null> {
+  const { rows } = await jobsPool().query<Job>(
+    `select * from jobs
+      where user_id = $1 and status = 'succeeded'
+        and (result->'mask'->>'maskVideoUrl' = $2 or result->'mask'->>'maskUrl' = $2)
+      order by created_at desc
+      limit 1`,
+    [userId, url]
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * 任务最近一次的处理 job（较早的任务没有在任务上保存参数，重新运行时从 job 的 payload 读取）
+ */
+export async function getLatestJobForTask(taskId: string, type: JobType): Promise<Job | null> {
+  const { rows } = await jobsPool().query<Job>(
+    `select * from jobs where task_id = $1 and type = $2 order by created_at desc limit 1`,
+    [taskId, type]
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * 认领下一个可执行的任务
+ * 也会回收锁超时的 running 任务（worker 崩溃后由其他 worker 接手）
+ */
+export async function claimNextJob(workerId: string, lockTimeoutMs: number): Promise<Job | null> {
+  const { rows } = await jobsPool().query<Job>(
+    `update jobs
+        set status = 'running', locked_at = now(), locked_by = $1, updated_at = now()
+      where id = (
+        select id from jobs
+         where (status = 'queued' and run_at <= now())
+            or (status = 'running' and locked_at < now() - ($2 || ' milliseconds')::interval)
+         order by run_at
+         for update skip locked
+         limit 1
+      )
+      returning *`,
+    [workerId, String(lockTimeoutMs)]
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * 记录提供方的 prediction ID，worker 重启后不会重复创建 prediction
+ */
+export async function setJobPrediction(jobId: string, predictionId: string): Promise<void> {
+  await jobsPool().query(
+    `update jobs set prediction_id = $2, updated_at = now() where id = $1`,
+    [jobId, predictionId]
+  );
+}
+
+/**
+ * 刷新锁时间，长时间运行的本地处理（如 ffmpeg）定期调用，避免被当作崩溃而重新认领
+ * 返回 false 表示任务已不再运行（例如被取消），调用方应停止处理
+ */
+export async function heartbeatJob(jobId: string): Promise<boolean> {
+  const { rowCount } = await jobsPool().query(
+    `update jobs set locked_at = now(), updated_at = now() where id = $1 and status = 'running'`,
+    [jobId]
+  );
+  return (rowCount ?? 0) > 0;
+}
+
+/**
+ * 取消任务关联的所有未结束 job，返回被取消的 job（用于取消提供方的 prediction）
+ */
+export async function cancelJobsForTask(taskId: string): Promise<Job[]> {
+  const { rows } = await jobsPool().query<Job>(
+    `update jobs
+        set status = 'cancelled', locked_at = null, locked_by = null, updated_at = now()
+      where task_id = $1 and status in ('queued', 'running')
+      returning *`,
+    [taskId]
+  );
+  return rows;
+}
+
+/**
+ * 释放任务并在 delayMs 后重新执行（用于轮询 prediction 状态，不计入重试次数）
+ * 只处理仍为 running 的任务：webhook 可能已在轮询期间将其完成
+ */
+export async function rescheduleJob(jobId: string, delayMs: number): Promise<void> {
+  await jobsPool().query(
+    `update jobs
+        set status = 'queued', locked_at = null, locked_by = null,
+            run_at = now() + ($2 || ' milliseconds')::interval, updated_at = now()
+      where id = $1 and status = 'running'`,
+    [jobId, String(delayMs)]
+  );
+}
+
+/**
+ * 让排队中的任务立即执行（webhook 通知 prediction 已完成，但仍需 worker 做后处理）
+ */
+export async function wakeJob(jobId: string): Promise<void> {
+  await jobsPool().query(
+    `update jobs set run_at = now(), updated_at = now() where id = $1 and status = 'queued'`,
+    [jobId]
+  );
+}
+
+/**
+ * 临时失败后重试，超过 max_attempts 时返回 false 并标记为失败
+ * 只处理仍为 running 的任务：执行期间被取消的任务不会重新排队
+ */
+export async function retryJob(jobId: string, error: string, delayMs: number): Promise<boolean> {
+  const { rows } = await jobsPool().query<Job>(
+    `update jobs
+        set attempts = attempts + 1,
+            status = case when attempts + 1 >= max_attempts then 'failed' else 'queued' end,
+            run_at = now() + ($3 || ' milliseconds')::interval,
+            locked_at = null, locked_by = null,
+            last_error = $2, updated_at = now()
+      where id = $1 and status = 'running'
+      returning *`,
+    [jobId, error, String(delayMs)]
+  );
+  return rows[0]?.status === "queued";
+}
+
+/**
+ * 完成或失败只作用于未结束的任务，不覆盖已取消的任务
+ * 包括 queued：webhook 会在两次轮询之间（任务已重新排队）写入 prediction 的结果
+ */
+export async function completeJob(jobId: string, result: Record<string, unknown>): Promise<void> {
+  await jobsPool().query(
+    `update jobs
+        set status = 'succeeded', result = $2, locked_at = null, locked_by = null, updated_at = now()
+      where id = $1 and status in ('queued', 'running')`,
+    [jobId, JSON.stringify(result)]
+  );
+}
+
+export async function failJob(jobId: string, error: string): Promise<void> {
+  await jobsPool().query(
+    `update jobs
+        set status = 'failed', last_error = $2, locked_at = null, locked_by = null, updated_at = now()
+      where id = $1 and status in ('queued', 'running')`,
+    [jobId, error]
+  );
+}
+
+export async function closeJobsPool(): Promise<void> {
+  if (pool) {
+    await pool.end().catch(() => {});
+    pool = null;
+  }
+}
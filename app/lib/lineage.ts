@@ -0,0 +1,79 @@
+import type { AssetLineageRecord } from "~/lib/assets.repo";
+
+/**
+ * 资产版本树：原始上传 → 删除对象 → 再次删除 …，每个处理结果都是一个派生资产
+ */
+export interface LineageNode {
+  id: string;
+  name: string;
+  action: "remove" | "extract" | null; // 原始上传为 null
+  taskId: string | null;
+  mimeType: string;
+  width: number | null;
+  height: number | null;
+  durationInSeconds: number | null;
+  createdAt: string;
+  mediaUrlRemote: string;
+  children: LineageNode[];
+}
+
+export interface LineageResponse {
+  assetId: string; // 查询的资产
+  root: LineageNode;
+}
+
+/**
+ * 由扁平的资产列表构建版本树；已删除的版本不展示，其子版本挂到最近的未删除祖先上
+ */
+export function buildLineageTree(records: AssetLineageRecord[]): LineageNode | null {
+  const byId = new Map(records.map((r) => [r.id, r]));
+  const nodes = new Map<string, LineageNode>();
+  for (const r of records) {
+    if (r.deleted_at) continue;
+    nodes.set(r.id, {
+      id: r.id,
+      name: r.original_name,
+      action: r.action,
+      taskId: r.task_id,
+      mimeType: r.mime_type,
+      width: r.width,
+      height: r.height,
+      durationInSeconds: r.duration_seconds,
+      createdAt: r.created_at,
+      mediaUrlRemote: `/api/assets/${r.id}/raw`,
+      children: [],
+    });
+  }
+
+  const visibleParent = (record: AssetLineageRecord): string | null => {
+    let parentId = record.derived_from_asset_id;
+    while (parentId && !nodes.has(parentId)) {
+      parentId = byId.get(parentId)?.derived_from_asset_id ?? null;
+    }
+    return parentId;
+  };
+
+  let root: LineageNode | null = null;
+  for (const r of records) {
+    const node = nodes.get(r.id);
+    if (!node) continue;
+    const parentId = visibleParent(r);
+    const parent = parentId ? nodes.get(parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else if (!root) {
+      root = node;
+    } else {
+      // 原始资产已删除时会有多个没有父版本的节点，挂到最早的那个下面，避免丢失
+      root.children.push(node);
+    }
+  }
+  return root;
+}
+
+/**
+ * 按时间顺序展开版本树，depth 用于缩进展示
+ */
+export function flattenLineage(root: LineageNode, depth = 0): Array<{ node: LineageNode; depth: number }> {
+  return [{ node: root, depth }, ...root.children.flatMap((child) => flattenLineage(child, depth + 1))];
+}
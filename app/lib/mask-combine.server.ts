@@ -0,0 +1,62 @@
+import fs from "fs";
+import { probeMedia, runFfmpeg } from "~/lib/media.server";
+
+/**
+ * 多个对象的纯遮罩视频（白色为对象）合并为一个：逐帧取最大值，即遮罩的并集
+ * 所有遮罩来自同一源视频和时间范围，尺寸以第一个遮罩为准，较短的遮罩用最后一帧补齐
+ */
+export function combineMasksFilter(count: number, width: number, height: number): string {
+  const filters: string[] = [];
+  for (let i = 0; i < count; i++) {
+    filters.push(`[${i}:v]format=gray,scale=${width}:${height}[m${i}]`);
+  }
+  let previous = "m0";
+  for (let i = 1; i < count; i++) {
+    const output = i === count - 1 ? "out" : `c${i}`;
+    filters.push(`[${previous}][m${i}]blend=all_mode=lighten[${output}]`);
+    previous = output;
+  }
+  return filters.join(";");
+}
+
+/**
+ * 合并遮罩视频，先写入临时文件再重命名，重试时不会读到不完整的文件
+ */
+export async function combineMaskVideos(options: {
+  maskUrls: string[];
+  outputPath: string;
+  signal?: AbortSignal;
+}): Promise<void> {
+  if (options.maskUrls.length < 2) {
+    throw new Error("At least two masks are required");
+  }
+  const { width, height } = await probeMedia(options.maskUrls[0]);
+  if (!width || !height) {
+    throw new Error(`Unable to read mask size: ${options.maskUrls[0]}`);
+  }
+
+  const tmpPath = `${options.outputPath}.tmp.mp4`;
+  try {
+    await runFfmpeg(
+      [
+        ...options.maskUrls.flatMap((url) => ["-i", url]),
+        "-filter_complex",
+        `${combineMasksFilter(options.maskUrls.length, width, height)};[out]format=yuv420p[v]`,
+        "-map",
+        "[v]",
+        "-an",
+        "-c:v",
+        "libx264",
+        "-preset",
+        "veryfast",
+        "-crf",
+        "12",
+        tmpPath,
+      ],
+      options.signal
+    );
+    fs.renameSync(tmpPath, options.outputPath);
+  } finally {
+    fs.rmSync(tmpPath, { force: true });
+  }
+}
@@ -0,0 +1,84 @@
+import fs from "fs";
+import { probeMedia, runFfmpeg } from "~/lib/media.server";
+
+/**
+ * 手动修正应用到纯遮罩视频（白色为对象），每个修正只在 [startFrame, endFrame] 内生效
+ */
+export interface MaskEditLayer {
+  imagePath: string; // 白色为添加，黑色为擦除，透明为不变
+  startFrame: number;
+  endFrame: number;
+}
+
+/**
+ * 修正的滤镜链：修正图的颜色（灰度）为添加区域，不透明度减去颜色为擦除区域
+ * 添加区域取最大值、擦除区域取最小值，按修正的顺序依次应用，后面的修正覆盖前面的
+ */
+export function maskEditFilter(layers: MaskEditLayer[], width: number, height: number): string {
+  const filters = [`[0:v]format=gray,scale=${width}:${height}[e0]`];
+  layers.forEach((layer, i) => {
+    const input = i + 1;
+    const enable = `enable='between(n\\,${layer.startFrame}\\,${layer.endFrame})'`;
+    filters.push(
+      `[${input}:v]scale=${width}:${height},format=rgba,split[color${i}][alpha${i}]`,
+      `[color${i}]format=gray,split[add${i}][addref${i}]`,
+      `[alpha${i}]alphaextract[opacity${i}]`,
+      // 保留区域 = 255 - 擦除区域
+      `[opacity${i}][addref${i}]blend=all_mode=subtract,negate[keep${i}]`,
+      `[e${i}][add${i}]blend=all_mode=lighten:${enable}[added${i}]`,
+      `[added${i}][keep${i}]blend=all_mode=darken:${enable}[e${input}]`
+    );
+  });
+  return filters.join(";");
+}
+
+/**
+ * 遮罩视频中的帧范围：绘制的帧前后各扩展 spreadFrames 帧
+ */
+export function maskEditFrames(maskSeconds: number, fps: number, spreadFrames: number) {
+  const frame = Math.max(Math.round(maskSeconds * fps), 0);
+  return { startFrame: Math.max(frame - spreadFrames, 0), endFrame: frame + spreadFrames };
+}
+
+/**
+ * 应用修正并重新编码，帧数和时间戳与原遮罩一致
+ * 先写入临时文件再重命名，重试时不会读到不完整的文件
+ */
+export async function applyMaskEdits(options: {
+  maskUrl: string;
+  layers: MaskEditLayer[];
+  outputPath: string;
+  signal?: AbortSignal;
+}): Promise<void> {
+  const { width, height } = await probeMedia(options.maskUrl);
+  if (!width || !height) {
+    throw new Error(`Unable to read mask size: ${options.maskUrl}`);
+  }
+
+  const tmpPath = `${options.outputPath}.tmp.mp4`;
+  try {
+    await runFfmpeg(
+      [
+        "-i",
+        options.maskUrl,
+        ...options.layers.flatMap((layer) => ["-i", layer.imagePath]),
+        "-filter_complex",
+        `${maskEditFilter(options.layers, width, height)};[e${options.layers.length}]format=yuv420p[v]`,
+        "-map",
+        "[v]",
+        "-an",
+        "-c:v",
+        "libx264",
+        "-preset",
+        "veryfast",
+        "-crf",
+        "12",
+        tmpPath,
+      ],
+      options.signal
+    );
+    fs.renameSync(tmpPath, options.outputPath);
+  } finally {
+    fs.rmSync(tmpPath, { force: true });
+  }
+}
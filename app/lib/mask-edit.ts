@@ -0,0 +1,52 @@
+/**
+ * 手动修正遮罩：SAM3 选错区域时，在某一帧上用画笔补上、用橡皮擦掉，并扩展到前后若干帧
+ * image 为与源视频同尺寸的 PNG（data URL）：白色为添加，黑色为擦除，透明为不变
+ */
+export interface MaskEdit {
+  image: string;
+  time: number; // 绘制的帧在源视频中的时间（秒）
+  spreadFrames: number; // 同时应用到前后各多少帧，0 为只修改该帧
+}
+
+// 一个遮罩最多的修正数（每个关键帧一个）
+export const MAX_MASK_EDITS = 20;
+export const MAX_MASK_EDIT_SPREAD_FRAMES = 60;
+// 单张修正图的上限，稀疏的笔画压缩后通常只有几十 KB
+export const MAX_MASK_EDIT_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// 页面上可选的扩展范围（前后各多少帧）
+export const MASK_EDIT_SPREAD_OPTIONS = [0, 5, 15, 30, 60];
+
+const PNG_DATA_URL = /^data:image\/png;base64,([A-Za-z0-9+/]+={0,2})$/;
+
+/**
+ * 校验用户提交的修正，返回解码后的 PNG
+ */
+export function parseMaskEdits(
+  input: unknown
+): { edits: Array<Omit<MaskEdit, "image"> & { png: Uint8Array }> } | { error: string } {
+  if (!Array.isArray(input) || input.length === 0 || input.length > MAX_MASK_EDITS) {
+    return { error: `edits must contain 1 to ${MAX_MASK_EDITS} edits` };
+  }
+  const edits: Array<Omit<MaskEdit, "image"> & { png: Uint8Array }> = [];
+  for (const value of input as Array<Partial<MaskEdit> | null>) {
+    const match = typeof value?.image === "string" ? value.image.match(PNG_DATA_URL) : null;
+    if (!value || !match) {
+      return { error: "image must be a PNG data URL" };
+    }
+    // 解码前按 base64 长度估算大小
+    if ((match[1].length * 3) / 4 > MAX_MASK_EDIT_IMAGE_BYTES) {
+      return { error: `image must be smaller than ${MAX_MASK_EDIT_IMAGE_BYTES / 1024 / 1024}MB` };
+    }
+    if (typeof value.time !== "number" || !Number.isFinite(value.time) || value.time < 0) {
+      return { error: "time must be a non-negative number" };
+    }
+    const spreadFrames = value.spreadFrames ?? 0;
+    if (!Number.isInteger(spreadFrames) || spreadFrames < 0 || spreadFrames > MAX_MASK_EDIT_SPREAD_FRAMES) {
+      return { error: `spreadFrames must be an integer between 0 and ${MAX_MASK_EDIT_SPREAD_FRAMES}` };
+    }
+    const png = Uint8Array.from(atob(match[1]), (char) => char.charCodeAt(0));
+    edits.push({ png, time: value.time, spreadFrames });
+  }
+  return { edits };
+}
@@ -352,6 +352,7 @@ export function findClickedPoint(
 
 /**
  * 构建 visual_prompt JSON 字符串
+ * 按帧分组：只有一帧时为单个对象，多帧时为按 frame_index 排序的数组
  */
 export function buildVisualPrompt(
   visualPromptPoints: VisualPromptPoint[]
@@ -360,15 +361,24 @@ export function buildVisualPrompt(
     return undefined;
   }
 
-  const points = visualPromptPoints.map((p) => [p.x, p.y]);
-  const labels = visualPromptPoints.map((p) => p.label);
-  const frameIndex = visualPromptPoints[0]?.frameIndex ?? 0;
-
-  return JSON.stringify({
-    points,
-    labels,
+  const frames = groupPointsByFrame(visualPromptPoints).map(([frameIndex, points]) => ({
+    points: points.map((p) => [p.x, p.y]),
+    labels: points.map((p) => p.label),
     frame_index: frameIndex,
-  });
+  }));
+
+  return JSON.stringify(frames.length === 1 ? frames[0] : frames);
+}
+
+/**
+ * 按帧索引分组视觉提示点，按帧索引排序
+ */
+export function groupPointsByFrame(visualPromptPoints: VisualPromptPoint[]): Array<[number, VisualPromptPoint[]]> {
+  const frames = new Map<number, VisualPromptPoint[]>();
+  for (const point of visualPromptPoints) {
+    frames.set(point.frameIndex, [...(frames.get(point.frameIndex) ?? []), point]);
+  }
+  return [...frames.entries()].sort(([a], [b]) => a - b);
 }
 
 /**
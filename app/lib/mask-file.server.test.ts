@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkMaskArchiveEntries, MAX_MASK_ZIP_BYTES, MAX_MASK_ZIP_ENTRIES } from "~/lib/mask-file.server";
+
+describe("checkMaskArchiveEntries", () => {
+  it("accepts PNG frames at the top level", () => {
+    const entries = [
+      { name: "frame_0001.png", size: 2048 },
+      { name: "frame 0002.PNG", size: 2048 },
+    ];
+    assert.equal(checkMaskArchiveEntries(entries), null);
+  });
+
+  it("ignores macOS metadata entries", () => {
+    const entries = [
+      { name: "frame_0001.png", size: 2048 },
+      { name: "__MACOSX/", size: 0 },
+      { name: "__MACOSX/._frame_0001.png", size: 120 },
+    ];
+    assert.equal(checkMaskArchiveEntries(entries), null);
+  });
+
+  it("rejects folders, paths and other file types", () => {
+    assert.match(checkMaskArchiveEntries([{ name: "frames/0001.png", size: 1 }]) ?? "", /without folders/);
+    assert.match(checkMaskArchiveEntries([{ name: "frames/", size: 0 }]) ?? "", /without folders/);
+    assert.match(checkMaskArchiveEntries([{ name: "..\\0001.png", size: 1 }]) ?? "", /without folders/);
+    assert.match(checkMaskArchiveEntries([{ name: "0001.jpg", size: 1 }]) ?? "", /without folders/);
+  });
+
+  it("rejects archives without frames", () => {
+    assert.match(checkMaskArchiveEntries([]) ?? "", /No PNG frames/);
+    assert.match(checkMaskArchiveEntries([{ name: "__MACOSX/._a.png", size: 1 }]) ?? "", /No PNG frames/);
+  });
+
+  it("rejects archives over the entry or size limit", () => {
+    const many = Array.from({ length: MAX_MASK_ZIP_ENTRIES + 1 }, (_, i) => ({ name: `${i}.png`, size: 1 }));
+    assert.match(checkMaskArchiveEntries(many) ?? "", /more than/);
+    const huge = [
+      { name: "0001.png", size: MAX_MASK_ZIP_BYTES },
+      { name: "0002.png", size: 1 },
+    ];
+    assert.match(checkMaskArchiveEntries(huge) ?? "", /must not exceed/);
+  });
+});
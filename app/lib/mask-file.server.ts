@@ -0,0 +1,184 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { listZipEntries, retimeFilter, runFfmpeg, unzipArchive, zipDirectory } from "~/lib/media.server";
+import type { MaskExportFormat, MaskFileKind } from "~/lib/mask-file";
+import type { TimeRange } from "~/lib/segment.server";
+
+// 按 50% 二值化，压缩和缩放产生的灰色边缘归入最近的一侧
+const BINARY_FILTER = "format=gray,lut=y='if(gte(val\\,128)\\,255\\,0)'";
+
+// 上传的 zip 解压前按中央目录限制帧数和解压后的总大小，防止压缩炸弹占满磁盘
+export const MAX_MASK_ZIP_ENTRIES = 20000;
+export const MAX_MASK_ZIP_BYTES = 2 * 1024 * 1024 * 1024;
+// macOS 压缩时附带的资源文件，不要求是 PNG，解压后忽略
+const MACOS_METADATA_DIR = "__MACOSX/";
+
+/**
+ * 校验 zip 的文件列表：只接受根目录下的 PNG，文件数和解压后的总大小不能超过上限，不符合时返回错误信息
+ */
+export function checkMaskArchiveEntries(entries: Array<{ name: string; size: number }>): string | null {
+  if (entries.length > MAX_MASK_ZIP_ENTRIES) {
+    return `Archive has more than ${MAX_MASK_ZIP_ENTRIES} files`;
+  }
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (totalBytes > MAX_MASK_ZIP_BYTES) {
+    return `Archive must not exceed ${MAX_MASK_ZIP_BYTES / 1024 / 1024 / 1024}GB when extracted`;
+  }
+  const frames = entries.filter((entry) => !entry.name.startsWith(MACOS_METADATA_DIR));
+  const invalid = frames.find((entry) => !/^[^/\\]+\.png$/i.test(entry.name));
+  if (invalid) {
+    return `Archive must contain only PNG files without folders: ${invalid.name}`;
+  }
+  return frames.length === 0 ? "No PNG frames found in the archive" : null;
+}
+
+/**
+ * zip 中的 PNG 按文件名（数字按数值）排序后重命名为连续序号，供 image2 读取
+ */
+async function extractPngSequence(zipPath: string, dir: string): Promise<string> {
+  const unpackedDir = path.join(dir, "unpacked");
+  const framesDir = path.join(dir, "frames");
+  fs.mkdirSync(unpackedDir);
+  fs.mkdirSync(framesDir);
+  const invalid = checkMaskArchiveEntries(await listZipEntries(zipPath));
+  if (invalid) {
+    throw new Error(invalid);
+  }
+  await unzipArchive(zipPath, unpackedDir);
+  const files = fs
+    .readdirSync(unpackedDir)
+    .filter((file) => file.toLowerCase().endsWith(".png") && !file.startsWith("."))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  if (files.length === 0) {
+    throw new Error("No PNG frames found in the archive");
+  }
+  files.forEach((file, i) => {
+    fs.renameSync(path.join(unpackedDir, file), path.join(framesDir, `frame_${String(i).padStart(6, "0")}.png`));
+  });
+  return path.join(framesDir, "frame_%06d.png");
+}
+
+/**
+ * 导入的遮罩转换为与源视频逐帧对应的二值遮罩视频：缩放到源视频尺寸，按帧序号对齐源视频帧率，
+ * 比源视频短时重复最后一帧；设置了处理范围时只保留该范围（遮罩需覆盖整个源视频）
+ * 先写入临时文件再重命名，重试时不会读到不完整的文件
+ */
+export async function importMaskFile(options: {
+  inputPath: string;
+  kind: MaskFileKind;
+  width: number;
+  height: number;
+  fps: number;
+  durationSeconds: number;
+  range?: TimeRange;
+  outputPath: string;
+  signal?: AbortSignal;
+}): Promise<void> {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "mask-import-"));
+  const tmpPath = `${options.outputPath}.tmp.mp4`;
+  try {
+    const fps = String(options.fps);
+    let inputArgs: string[];
+    if (options.kind === "zip") {
+      inputArgs = ["-framerate", fps, "-i", await extractPngSequence(options.inputPath, workDir)];
+    } else if (options.kind === "image") {
+      inputArgs = ["-loop", "1", "-framerate", fps, "-i", options.inputPath];
+    } else {
+      inputArgs = ["-i", options.inputPath];
+    }
+    const start = options.range?.start ?? 0;
+    const end = options.range?.end ?? options.durationSeconds;
+    // 按帧数补齐（与输入帧率无关），需在重新计时之前
+    const frameCount = Math.ceil(options.durationSeconds * options.fps);
+    const filter = [
+      `tpad=stop_mode=clone:stop=${frameCount}`,
+      retimeFilter(options.fps),
+      `scale=${options.width}:${options.height}`,
+      BINARY_FILTER,
+      `trim=start=${start}:end=${end}`,
+      "setpts=PTS-STARTPTS",
+      "format=yuv420p",
+    ].join(",");
+
+    await runFfmpeg(
+      [
+        ...inputArgs,
+        "-map",
+        "0:v:0",
+        "-an",
+        "-vf",
+        filter,
+        // 输出帧率与源视频一致，否则会按输入帧率补帧或丢帧
+        "-r",
+        fps,
+        "-c:v",
+        "libx264",
+        "-preset",
+        "veryfast",
+        "-crf",
+        "12",
+        tmpPath,
+      ],
+      options.signal
+    );
+    fs.renameSync(tmpPath, options.outputPath);
+  } finally {
+    fs.rmSync(tmpPath, { force: true });
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 导出二值遮罩：video 为 H.264 MP4（High profile、yuv420p，浏览器和剪辑软件都能解码），png 为逐帧无损的 PNG 序列 zip（灰度，mask_00001.png 起）
+ */
+export async function exportMaskFile(options: {
+  maskUrl: string;
+  format: MaskExportFormat;
+  outputPath: string;
+  signal?: AbortSignal;
+}): Promise<void> {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "mask-export-"));
+  // 与输出放在同一目录，重命名不会跨设备
+  const tmpPath = `${options.outputPath}.tmp${path.extname(options.outputPath)}`;
+  try {
+    if (options.format === "video") {
+      await runFfmpeg(
+        [
+          "-i",
+          options.maskUrl,
+          "-map",
+          "0:v:0",
+          "-an",
+          "-vf",
+          `${BINARY_FILTER},format=yuv420p`,
+          "-c:v",
+          "libx264",
+          "-profile:v",
+          "high",
+          "-preset",
+          "veryfast",
+          // 无损编码（-qp 0）会使用 High 4:4:4 Predictive，很多解码器不支持；低 CRF 下黑白边缘基本不变
+          "-crf",
+          "12",
+          "-movflags",
+          "+faststart",
+          tmpPath,
+        ],
+        options.signal
+      );
+    } else {
+      const framesDir = path.join(workDir, "frames");
+      fs.mkdirSync(framesDir);
+      await runFfmpeg(
+        ["-i", options.maskUrl, "-vf", BINARY_FILTER, "-f", "image2", path.join(framesDir, "mask_%05d.png")],
+        options.signal
+      );
+      await zipDirectory(framesDir, tmpPath);
+    }
+    fs.renameSync(tmpPath, options.outputPath);
+  } finally {
+    fs.rmSync(tmpPath, { force: true });
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
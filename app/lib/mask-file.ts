@@ -0,0 +1,27 @@
+/**
+ * 导入和导出遮罩文件：在其他工具中做好的遮罩可以直接用于修复，生成的遮罩也可以导出到其他工具使用
+ * 遮罩为黑白二值：白色为对象（需要修复的区域），黑色为保留
+ * - video：与源视频逐帧对应的遮罩视频（MP4 / MOV / WebM）
+ * - zip：PNG 序列的 zip，按文件名排序后逐帧对应
+ * - image：单张 PNG，应用到所有帧
+ */
+export type MaskFileKind = "video" | "zip" | "image";
+
+export type MaskExportFormat = "video" | "png";
+
+export const MASK_FILE_EXTENSIONS: Record<MaskFileKind, string[]> = {
+  video: [".mp4", ".mov", ".webm"],
+  zip: [".zip"],
+  image: [".png"],
+};
+
+export const MAX_MASK_FILE_BYTES = 500 * 1024 * 1024;
+
+/**
+ * 按扩展名判断遮罩文件类型，不支持时返回 null
+ */
+export function maskFileKind(filename: string): MaskFileKind | null {
+  const ext = filename.slice(filename.lastIndexOf(".")).toLowerCase();
+  const kinds = Object.keys(MASK_FILE_EXTENSIONS) as MaskFileKind[];
+  return kinds.find((kind) => MASK_FILE_EXTENSIONS[kind].includes(ext)) ?? null;
+}
@@ -0,0 +1,122 @@
+import fs from "fs";
+import { probeMedia, runFfmpeg } from "~/lib/media.server";
+import type { MaskRefineOptions } from "~/lib/mask-refine";
+
+/**
+ * 遮罩后处理：用 ffmpeg 对 SAM3 的纯遮罩视频（白色为对象）做时间平滑、膨胀和羽化
+ * 顺序为 平滑 → 膨胀 → 羽化：先去掉闪烁，避免把单帧的误检区域也扩大
+ */
+
+// 预览时在选中帧前后多解码的时长，需覆盖时间平滑的窗口
+const PREVIEW_MARGIN_SECONDS = 2;
+
+/**
+ * 遮罩处理的滤镜链（输入输出都是灰度）
+ * - 时间平滑：首尾各复制 n 帧后取 2n+1 帧的均值，再去掉前 2n 帧，使窗口以当前帧为中心且帧数不变；
+ *   之后按 50% 二值化，即多数表决
+ * - 膨胀：dilation 每次扩展 1 像素（3×3），重复 radius 次
+ * - 羽化：高斯模糊，sigma 取半径的一半
+ */
+export function maskRefineFilter(options: MaskRefineOptions): string {
+  const filters = ["format=gray"];
+  const smoothing = options.temporalSmoothing;
+  if (smoothing > 0) {
+    filters.push(
+      `tpad=start_mode=clone:start=${smoothing}:stop_mode=clone:stop=${smoothing}`,
+      `tmix=frames=${smoothing * 2 + 1}`,
+      `trim=start_frame=${smoothing * 2}`,
+      "setpts=PTS-STARTPTS",
+      "lut=y='if(gte(val\\,128)\\,255\\,0)'"
+    );
+  }
+  for (let i = 0; i < options.dilation; i++) {
+    filters.push("dilation");
+  }
+  if (options.feather > 0) {
+    filters.push(`gblur=sigma=${options.feather / 2}`);
+  }
+  return filters.join(",");
+}
+
+/**
+ * 处理整个遮罩视频，帧数和时间戳与原遮罩一致
+ * 先写入临时文件再重命名，重试时不会读到不完整的文件
+ */
+export async function refineMaskVideo(options: {
+  maskUrl: string;
+  outputPath: string;
+  refine: MaskRefineOptions;
+  signal?: AbortSignal;
+}): Promise<void> {
+  const tmpPath = `${options.outputPath}.tmp.mp4`;
+  try {
+    await runFfmpeg(
+      [
+        "-i",
+        options.maskUrl,
+        "-map",
+        "0:v:0",
+        "-an",
+        "-vf",
+        `${maskRefineFilter(options.refine)},format=yuv420p`,
+        "-c:v",
+        "libx264",
+        "-preset",
+        "veryfast",
+        "-crf",
+        "12",
+        tmpPath,
+      ],
+      options.signal
+    );
+    fs.renameSync(tmpPath, options.outputPath);
+  } finally {
+    fs.rmSync(tmpPath, { force: true });
+  }
+}
+
+/**
+ * 在源视频的一帧上预览处理后的遮罩（半透明红色），输出 PNG
+ * maskSeconds 为遮罩视频中的时间，sourceSeconds 为源视频中的对应时间（按范围处理时两者相差入点）
+ */
+export async function renderMaskRefinePreview(options: {
+  sourcePath: string;
+  maskUrl: string;
+  sourceSeconds: number;
+  maskSeconds: number;
+  refine: MaskRefineOptions;
+  outputPath: string;
+}): Promise<void> {
+  const { width, height } = await probeMedia(options.sourcePath);
+  if (!width || !height) {
+    throw new Error(`Unable to read video size: ${options.sourcePath}`);
+  }
+
+  // 只解码选中帧附近的一段遮罩，处理后再定位到选中帧
+  const windowStart = Math.max(options.maskSeconds - PREVIEW_MARGIN_SECONDS, 0);
+  const offset = options.maskSeconds - windowStart;
+  const filter = [
+    `[1:v]${maskRefineFilter(options.refine)},trim=start=${offset},setpts=PTS-STARTPTS,scale=${width}:${height},format=gray[mask]`,
+    `color=c=red:s=${width}x${height},format=rgba[red]`,
+    "[red][mask]alphamerge,colorchannelmixer=aa=0.6[overlay]",
+    "[0:v][overlay]overlay=shortest=1,format=rgb24",
+  ].join(";");
+
+  await runFfmpeg([
+    "-ss",
+    String(Math.max(options.sourceSeconds, 0)),
+    "-i",
+    options.sourcePath,
+    "-ss",
+    String(windowStart),
+    "-t",
+    String(offset + PREVIEW_MARGIN_SECONDS),
+    "-i",
+    options.maskUrl,
+    "-filter_complex",
+    filter,
+    "-frames:v",
+    "1",
+    options.outputPath,
+  ]);
+}
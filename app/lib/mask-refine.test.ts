@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isMaskRefineNoop, NO_MASK_REFINE, parseMaskRefineOptions, RECOMMENDED_MASK_REFINE } from "~/lib/mask-refine";
+
+describe("parseMaskRefineOptions", () => {
+  it("defaults missing fields to zero", () => {
+    assert.deepEqual(parseMaskRefineOptions(undefined), { options: NO_MASK_REFINE });
+    assert.deepEqual(parseMaskRefineOptions({ dilation: 6 }), {
+      options: { dilation: 6, feather: 0, temporalSmoothing: 0 },
+    });
+  });
+
+  it("accepts values at the limits", () => {
+    assert.deepEqual(parseMaskRefineOptions({ dilation: 20, feather: 0, temporalSmoothing: 10 }), {
+      options: { dilation: 20, feather: 0, temporalSmoothing: 10 },
+    });
+  });
+
+  it("rejects non-objects", () => {
+    assert.ok("error" in parseMaskRefineOptions(null));
+    assert.ok("error" in parseMaskRefineOptions("dilation=4"));
+  });
+
+  it("rejects out-of-range or non-integer values", () => {
+    assert.ok("error" in parseMaskRefineOptions({ dilation: 21 }));
+    assert.ok("error" in parseMaskRefineOptions({ feather: -1 }));
+    assert.ok("error" in parseMaskRefineOptions({ temporalSmoothing: 1.5 }));
+    assert.ok("error" in parseMaskRefineOptions({ dilation: "4" }));
+  });
+
+  it("ignores unknown fields", () => {
+    assert.deepEqual(parseMaskRefineOptions({ blur: 3 }), { options: NO_MASK_REFINE });
+  });
+});
+
+describe("isMaskRefineNoop", () => {
+  it("is true only when every option is zero", () => {
+    assert.equal(isMaskRefineNoop(NO_MASK_REFINE), true);
+    assert.equal(isMaskRefineNoop(RECOMMENDED_MASK_REFINE), false);
+    assert.equal(isMaskRefineNoop({ ...NO_MASK_REFINE, feather: 1 }), false);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * SAM3 遮罩的后处理参数：遮罩常常贴着对象边缘、逐帧闪烁，ProPainter 修复后会留下残影
+ * - temporalSmoothing：时间平滑半径（帧），按前后各 n 帧多数表决，消除闪烁
+ * - dilation：膨胀半径（像素），向外扩展遮罩，覆盖被裁掉的边缘
+ * - feather：羽化半径（像素），边缘做渐变
+ * 全部为 0 时不处理
+ */
+export interface MaskRefineOptions {
+  dilation: number;
+  feather: number;
+  temporalSmoothing: number;
+}
+
+export const NO_MASK_REFINE: MaskRefineOptions = { dilation: 0, feather: 0, temporalSmoothing: 0 };
+
+// 页面上打开遮罩优化时的初始值
+export const RECOMMENDED_MASK_REFINE: MaskRefineOptions = { dilation: 4, feather: 2, temporalSmoothing: 2 };
+
+export const MASK_REFINE_LIMITS: Record<keyof MaskRefineOptions, { min: number; max: number }> = {
+  dilation: { min: 0, max: 20 },
+  feather: { min: 0, max: 20 },
+  temporalSmoothing: { min: 0, max: 10 },
+};
+
+export function isMaskRefineNoop(options: MaskRefineOptions): boolean {
+  return options.dilation === 0 && options.feather === 0 && options.temporalSmoothing === 0;
+}
+
+/**
+ * 校验用户提交的参数（整数），未提交的字段为 0
+ */
+export function parseMaskRefineOptions(input: unknown): { options: MaskRefineOptions } | { error: string } {
+  if (input !== undefined && (typeof input !== "object" || input === null)) {
+    return { error: "options must be an object" };
+  }
+  const values = (input ?? {}) as Record<string, unknown>;
+  const options = { ...NO_MASK_REFINE };
+  for (const key of Object.keys(MASK_REFINE_LIMITS) as Array<keyof MaskRefineOptions>) {
+    const value = values[key];
+    if (value === undefined) continue;
+    const { min, max } = MASK_REFINE_LIMITS[key];
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+      return { error: `${key} must be an integer between ${min} and ${max}` };
+    }
+    options[key] = value;
+  }
+  return { options };
+}
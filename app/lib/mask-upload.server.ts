@@ -0,0 +1,129 @@
+import busboy from "busboy";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { OUT_DIR } from "~/lib/media.server";
+import { MAX_MASK_FILE_BYTES, maskFileKind, type MaskFileKind } from "~/lib/mask-file";
+
+/**
+ * 导入遮罩的 multipart 上传：文件边接收边写入 out/，不会整个读入 web 进程的内存
+ * 必须提供 Content-Length；文件超过 MAX_MASK_FILE_BYTES 时立即停止读取请求体
+ */
+
+export interface MaskUpload {
+  fields: Record<string, string>; // 文件以外的表单字段
+  file: { filename: string; kind: MaskFileKind; storageKey: string; size: number };
+}
+
+type UploadError = { error: string; status: number };
+
+// 请求体中除文件外的字段和 multipart 边界所允许的额外大小
+const UPLOAD_OVERHEAD_BYTES = 1024 * 1024;
+
+function tooLarge(maxBytes: number): UploadError {
+  return { error: `Mask file must not exceed ${maxBytes / 1024 / 1024}MB`, status: 413 };
+}
+
+/**
+ * 接收上传的遮罩文件（字段名 file），保存为 out/mask_upload_<uuid>.<ext>
+ * 失败时删除已写入的部分文件
+ */
+export async function receiveMaskUpload(
+  request: Request,
+  maxBytes: number = MAX_MASK_FILE_BYTES
+): Promise<{ upload: MaskUpload } | UploadError> {
+  const contentLength = request.headers.get("Content-Length");
+  if (!contentLength || !/^\d+$/.test(contentLength)) {
+    return { error: "Content-Length is required", status: 411 };
+  }
+  if (Number(contentLength) > maxBytes + UPLOAD_OVERHEAD_BYTES) {
+    return tooLarge(maxBytes);
+  }
+  const contentType = request.headers.get("Content-Type") ?? "";
+  if (!contentType.startsWith("multipart/form-data") || !request.body) {
+    return { error: "Expected a multipart/form-data body", status: 400 };
+  }
+
+  let parser: busboy.Busboy;
+  try {
+    parser = busboy({
+      headers: { "content-type": contentType },
+      limits: { files: 1, fileSize: maxBytes, fields: 10, fieldSize: 1024 },
+    });
+  } catch {
+    return { error: "Invalid multipart body", status: 400 };
+  }
+  const body = Readable.fromWeb(request.body as WebReadableStream);
+
+  return new Promise((resolve) => {
+    const fields: Record<string, string> = {};
+    let file: MaskUpload["file"] | null = null;
+    let writing: Promise<void> = Promise.resolve();
+    let rejected: UploadError | null = null;
+    let settled = false;
+
+    const finish = (result: { upload: MaskUpload } | UploadError) => {
+      if (settled) return;
+      settled = true;
+      body.unpipe(parser);
+      body.destroy();
+      if ("error" in result && file) {
+        const filePath = path.resolve(OUT_DIR, file.storageKey);
+        writing.finally(() => fs.promises.rm(filePath, { force: true })).catch(() => undefined);
+      }
+      resolve(result);
+    };
+
+    parser.on("field", (name, value) => {
+      fields[name] = value;
+    });
+    parser.on("file", (name, stream, info) => {
+      if (name !== "file" || file) {
+        stream.resume();
+        return;
+      }
+      const kind = maskFileKind(info.filename);
+      if (!kind) {
+        rejected = {
+          error: "Unsupported mask file. Use an MP4 / MOV / WebM video, a zip of PNG frames or a PNG",
+          status: 400,
+        };
+        stream.resume();
+        return;
+      }
+      const current = {
+        filename: info.filename,
+        kind,
+        storageKey: `mask_upload_${crypto.randomUUID()}${path.extname(info.filename).toLowerCase()}`,
+        size: 0,
+      };
+      file = current;
+      stream.on("data", (chunk: Buffer) => {
+        current.size += chunk.length;
+      });
+      // 超过上限时 busboy 截断文件，此时不再读取剩余的请求体
+      stream.on("limit", () => finish(tooLarge(maxBytes)));
+      writing = pipeline(stream, fs.createWriteStream(path.resolve(OUT_DIR, current.storageKey)));
+      writing.catch(() => undefined);
+    });
+    parser.on("error", () => finish({ error: "Invalid multipart body", status: 400 }));
+    parser.on("close", () => {
+      writing.then(
+        () => {
+          if (rejected) finish(rejected);
+          else if (!file) finish({ error: "Missing required field: file", status: 400 });
+          else finish({ upload: { fields, file } });
+        },
+        (error) => {
+          console.error("❌ Failed to save mask upload:", error);
+          finish({ error: "Failed to save mask file", status: 500 });
+        }
+      );
+    });
+    body.on("error", () => finish({ error: "Upload was interrupted", status: 400 }));
+    body.pipe(parser);
+  });
+}
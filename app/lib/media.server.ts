@@ -0,0 +1,212 @@
+import { spawn } from "child_process";
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+
+/**
+ * 服务端媒体处理工具：调用系统的 ffmpeg / ffprobe / zip
+ *
+ * 环境变量：
+ *   FFMPEG_PATH - ffmpeg 可执行文件路径（默认: ffmpeg）
+ *   FFPROBE_PATH - ffprobe 可执行文件路径（默认: ffprobe）
+ */
+
+export const OUT_DIR = path.resolve("out");
+
+export interface MediaInfo {
+  width: number | null;
+  height: number | null;
+  durationSeconds: number | null;
+  fps: number | null;
+  hasAudio: boolean;
+}
+
+/**
+ * 执行命令，失败时错误信息中带上 stderr 的末尾部分
+ */
+function runCommand(command: string, args: string[], signal?: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"], signal });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk: Buffer) => {
+      stdout += chunk.toString();
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      // 只保留末尾，ffmpeg 的进度输出可能很长
+      stderr = (stderr + chunk.toString()).slice(-4000);
+    });
+    child.on("error", (error) => {
+      if (signal?.aborted) {
+        reject(new Error(`${path.basename(command)} aborted`));
+        return;
+      }
+      reject(new Error(`Failed to run ${command}: ${error.message}`));
+    });
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        const tail = stderr.trim().split("\n").slice(-5).join("\n");
+        reject(new Error(`${path.basename(command)} exited with code ${code}: ${tail}`));
+      }
+    });
+  });
+}
+
+/**
+ * signal 被触发时终止 ffmpeg 进程（任务取消）
+ */
+export async function runFfmpeg(args: string[], signal?: AbortSignal): Promise<void> {
+  await runCommand(process.env.FFMPEG_PATH || "ffmpeg", ["-hide_banner", "-y", ...args], signal);
+}
+
+function parseFrameRate(rate: string | undefined): number | null {
+  if (!rate) return null;
+  const [num, den] = rate.split("/").map(Number);
+  if (!num) return null;
+  return den ? num / den : num;
+}
+
+/**
+ * 读取视频尺寸、时长、帧率以及是否有音轨
+ */
+export async function probeMedia(input: string): Promise<MediaInfo> {
+  const output = await runCommand(process.env.FFPROBE_PATH || "ffprobe", [
+    "-v",
+    "error",
+    "-show_entries",
+    "stream=codec_type,width,height,avg_frame_rate,r_frame_rate:format=duration",
+    "-of",
+    "json",
+    input,
+  ]);
+  const data = JSON.parse(output) as {
+    streams?: Array<{
+      codec_type?: string;
+      width?: number;
+      height?: number;
+      avg_frame_rate?: string;
+      r_frame_rate?: string;
+    }>;
+    format?: { duration?: string };
+  };
+  const streams = data.streams || [];
+  const video = streams.find((s) => s.codec_type === "video");
+  const duration = Number(data.format?.duration);
+  return {
+    width: video?.width ?? null,
+    height: video?.height ?? null,
+    durationSeconds: Number.isFinite(duration) ? duration : null,
+    fps: parseFrameRate(video?.avg_frame_rate) ?? parseFrameRate(video?.r_frame_rate),
+    hasAudio: streams.some((s) => s.codec_type === "audio"),
+  };
+}
+
+/**
+ * 按帧序号重新计时：处理结果与输入逐帧对应，但提供方可能以固定帧率输出（如 ProPainter 的 save_fps）
+ */
+export function retimeFilter(fps: number): string {
+  return `setpts=N/(${fps}*TB)`;
+}
+
+/**
+ * 输出音轨参数：保留时取第一个输入（源视频）的音轨（没有音轨时忽略），否则去掉音轨
+ */
+export function audioArgs(keepAudio: boolean, codec: string): string[] {
+  return keepAudio ? ["-map", "0:a:0?", "-c:a", codec] : ["-an"];
+}
+
+/**
+ * 将目录下的所有文件打包为 zip（不保留目录结构）
+ */
+export async function zipDirectory(dir: string, zipPath: string): Promise<void> {
+  if (fs.readdirSync(dir).length === 0) {
+    throw new Error(`No files to zip in ${dir}`);
+  }
+  await runCommand("zip", ["-q", "-j", "-r", zipPath, dir]);
+}
+
+/**
+ * 解压 zip 中的文件到目录（不保留目录结构，压缩包内的路径不会写到目录外）
+ */
+export async function unzipArchive(zipPath: string, dir: string): Promise<void> {
+  await runCommand("unzip", ["-q", "-j", "-o", zipPath, "-d", dir]);
+}
+
+/**
+ * 读取 zip 的中央目录（unzip -l），不解压；size 为声明的解压后大小
+ */
+export async function listZipEntries(zipPath: string): Promise<Array<{ name: string; size: number }>> {
+  const output = await runCommand("unzip", ["-l", zipPath]);
+  const lines = output.split("\n");
+  // 文件列表位于两条 "---------" 分隔线之间
+  const first = lines.findIndex((line) => line.startsWith("---------"));
+  const last = lines.findIndex((line, i) => i > first && line.startsWith("---------"));
+  if (first < 0 || last < 0) return [];
+  return lines.slice(first + 1, last).flatMap((line) => {
+    const match = line.match(/^\s*(\d+)\s+\S+\s+\S+\s{3}(.+)$/);
+    return match ? [{ name: match[2], size: Number(match[1]) }] : [];
+  });
+}
+
+/**
+ * 下载远程文件（如提供方的输出）到本地，先写临时文件，完成后再改名，避免留下不完整的文件
+ */
+export async function downloadFile(url: string, destPath: string, signal?: AbortSignal): Promise<void> {
+  const response = await fetch(url, { signal });
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+  }
+  const tmpPath = `${destPath}.download`;
+  try {
+    await pipeline(Readable.fromWeb(response.body as WebReadableStream), fs.createWriteStream(tmpPath));
+    fs.renameSync(tmpPath, destPath);
+  } catch (error) {
+    fs.rmSync(tmpPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * 缩略图与资产放在一起，文件名由资产的 storage_key 推导
+ */
+export function thumbnailKey(storageKey: string): string {
+  return `${path.basename(storageKey, path.extname(storageKey))}_thumb.jpg`;
+}
+
+/**
+ * 截取 atSeconds 处的一帧作为缩略图（宽 320，保持比例）
+ * 先写入临时文件再重命名，并发请求不会读到写了一半的文件
+ */
+export async function renderThumbnail(inputPath: string, outputPath: string, atSeconds: number): Promise<void> {
+  const tmpPath = `${outputPath}.${process.pid}.${Date.now()}.jpg`;
+  try {
+    await runFfmpeg([
+      "-ss",
+      String(Math.max(atSeconds, 0)),
+      "-i",
+      inputPath,
+      "-frames:v",
+      "1",
+      "-vf",
+      "scale=320:-2",
+      "-q:v",
+      "4",
+      tmpPath,
+    ]);
+    fs.renameSync(tmpPath, outputPath);
+  } finally {
+    fs.rmSync(tmpPath, { force: true });
+  }
+}
+
+/**
+ * 在 out/ 下生成不冲突的文件名，规则与上传保持一致：<name>_<timestamp><ext>
+ */
+export function outputFilename(baseName: string, ext: string): string {
+  const sanitizedBase = baseName.replace(/[^a-zA-Z0-9_-]/g, "_");
+  return `${sanitizedBase}_${Date.now()}${ext}`;
+}
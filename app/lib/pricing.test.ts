@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  estimateProcessingSeconds,
+  estimateTaskCredits,
+  medianSecondsPerCredit,
+  MIN_TASK_CREDITS,
+} from "~/lib/pricing";
+
+describe("estimateTaskCredits", () => {
+  const hd = { width: 1280, height: 720 };
+
+  it("charges per second by action", () => {
+    assert.equal(estimateTaskCredits({ action: "remove", durationSeconds: 10, ...hd }), 20);
+    assert.equal(estimateTaskCredits({ action: "extract", durationSeconds: 10, ...hd }), 10);
+  });
+
+  it("applies the resolution tier by the short side", () => {
+    assert.equal(estimateTaskCredits({ action: "remove", durationSeconds: 10, width: 1920, height: 1080 }), 30);
+    assert.equal(estimateTaskCredits({ action: "remove", durationSeconds: 10, width: 1080, height: 1920 }), 30);
+    assert.equal(estimateTaskCredits({ action: "remove", durationSeconds: 10, width: 3840, height: 2160 }), 50);
+    assert.equal(estimateTaskCredits({ action: "remove", durationSeconds: 10, width: null, height: null }), 20);
+  });
+
+  it("applies the quality multiplier", () => {
+    assert.equal(estimateTaskCredits({ action: "remove", durationSeconds: 10, ...hd, qualityMultiplier: 0.5 }), 10);
+    assert.equal(estimateTaskCredits({ action: "remove", durationSeconds: 10, ...hd, qualityMultiplier: 2.5 }), 50);
+  });
+
+  it("rounds up to whole credits", () => {
+    assert.equal(estimateTaskCredits({ action: "remove", durationSeconds: 3.2, ...hd }), 7);
+  });
+
+  it("charges at least the minimum", () => {
+    assert.equal(estimateTaskCredits({ action: "extract", durationSeconds: 1, ...hd }), MIN_TASK_CREDITS);
+    assert.equal(estimateTaskCredits({ action: "remove", durationSeconds: null, ...hd }), MIN_TASK_CREDITS);
+    assert.equal(estimateTaskCredits({ action: "remove", durationSeconds: -5, ...hd }), MIN_TASK_CREDITS);
+  });
+});
+
+describe("medianSecondsPerCredit", () => {
+  const task = (seconds: number, credits_cost?: number) => ({
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: new Date(Date.parse("2026-01-01T00:00:00Z") + seconds * 1000).toISOString(),
+    credits_cost,
+  });
+
+  it("returns null with too few samples", () => {
+    assert.equal(medianSecondsPerCredit([task(100, 10), task(60, 20)]), null);
+  });
+
+  it("takes the median of seconds per credit", () => {
+    assert.equal(medianSecondsPerCredit([task(100, 10), task(60, 20), task(50, 10)]), 5);
+    assert.equal(medianSecondsPerCredit([task(100, 10), task(60, 20), task(50, 10), task(80, 10)]), 6.5);
+  });
+
+  it("skips tasks without a cost or elapsed time", () => {
+    assert.equal(medianSecondsPerCredit([task(100, 10), task(60, 20), task(50), task(0, 10)]), null);
+  });
+});
+
+describe("estimateProcessingSeconds", () => {
+  const hd = { width: 1280, height: 720 };
+
+  it("scales the task credits by the historical seconds per credit", () => {
+    assert.equal(
+      estimateProcessingSeconds({ action: "remove", durationSeconds: 10, fps: 30, ...hd, secondsPerCredit: 2 }),
+      40
+    );
+  });
+
+  it("falls back to the default throughput without history", () => {
+    const base = { durationSeconds: 10, ...hd, secondsPerCredit: null };
+    assert.equal(estimateProcessingSeconds({ action: "remove", fps: 30, ...base }), 150);
+    assert.equal(estimateProcessingSeconds({ action: "remove", fps: null, ...base }), 150);
+    assert.equal(estimateProcessingSeconds({ action: "remove", fps: 30, ...base, qualityMultiplier: 2.5 }), 330);
+    assert.equal(
+      estimateProcessingSeconds({ action: "extract", fps: 25, ...base, width: 1920, height: 1080 }),
+      24
+    );
+  });
+});
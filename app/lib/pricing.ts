@@ -0,0 +1,100 @@
+/**
+ * 任务定价：按处理时长和分辨率计算 credits，任务启动时按此价格预留
+ * - remove（ProPainter 修复）每秒 2 credits，extract（本地抠像）每秒 1 credit
+ * - 分辨率系数：720p 及以下 ×1，1080p 及以下 ×1.5，更高 ×2.5
+ * - remove 再乘以质量预设的系数（草稿 ×0.5，标准 ×1，高质量 ×2.5，见 inpaint-options）
+ * - 向上取整，每个任务至少 5 credits
+ *
+ * 处理耗时的估计：credits 与时长、分辨率成正比，可以作为工作量的度量
+ * - 有足够的历史任务时，按最近完成任务的“每 credit 耗时”中位数估计
+ * - 否则按帧数和默认的每帧耗时估计
+ */
+
+export type PricedAction = "remove" | "extract";
+
+const CREDITS_PER_SECOND: Record<PricedAction, number> = {
+  remove: 2,
+  extract: 1,
+};
+
+export const MIN_TASK_CREDITS = 5;
+
+// 没有历史数据时的默认吞吐（720p）：排队和模型启动的固定耗时 + 每帧耗时
+const DEFAULT_STARTUP_SECONDS: Record<PricedAction, number> = {
+  remove: 30,
+  extract: 5,
+};
+const DEFAULT_SECONDS_PER_FRAME: Record<PricedAction, number> = {
+  remove: 0.4,
+  extract: 0.05,
+};
+const DEFAULT_FPS = 30;
+// 历史任务少于该数量时中位数不可靠，使用默认吞吐
+const MIN_HISTORY_SAMPLES = 3;
+
+// 按短边判断档位，竖屏视频与横屏同价
+function resolutionMultiplier(width: number | null, height: number | null): number {
+  if (!width || !height) return 1;
+  const shortSide = Math.min(width, height);
+  if (shortSide <= 720) return 1;
+  if (shortSide <= 1080) return 1.5;
+  return 2.5;
+}
+
+export function estimateTaskCredits(params: {
+  action: PricedAction;
+  durationSeconds: number | null;
+  width: number | null;
+  height: number | null;
+  qualityMultiplier?: number; // 默认 1
+}): number {
+  const seconds = Math.max(params.durationSeconds ?? 0, 0);
+  const credits =
+    seconds *
+    CREDITS_PER_SECOND[params.action] *
+    resolutionMultiplier(params.width, params.height) *
+    (params.qualityMultiplier ?? 1);
+  return Math.max(Math.ceil(credits), MIN_TASK_CREDITS);
+}
+
+/**
+ * 历史任务的“每 credit 耗时”中位数（秒），样本不足时返回 null
+ * 耗时为任务创建到完成（updated_at）的时间，包含排队
+ */
+export function medianSecondsPerCredit(
+  tasks: Array<{ created_at: string; updated_at: string; credits_cost?: number }>
+): number | null {
+  const samples = tasks
+    .map((task) => {
+      const elapsed = (new Date(task.updated_at).getTime() - new Date(task.created_at).getTime()) / 1000;
+      return task.credits_cost && elapsed > 0 ? elapsed / task.credits_cost : NaN;
+    })
+    .filter((value) => Number.isFinite(value))
+    .sort((a, b) => a - b);
+  if (samples.length < MIN_HISTORY_SAMPLES) return null;
+  const mid = Math.floor(samples.length / 2);
+  return samples.length % 2 ? samples[mid] : (samples[mid - 1] + samples[mid]) / 2;
+}
+
+/**
+ * 预计处理耗时（秒），取整
+ */
+export function estimateProcessingSeconds(params: {
+  action: PricedAction;
+  durationSeconds: number | null;
+  fps: number | null;
+  width: number | null;
+  height: number | null;
+  qualityMultiplier?: number;
+  secondsPerCredit: number | null;
+}): number {
+  if (params.secondsPerCredit) {
+    return Math.ceil(estimateTaskCredits(params) * params.secondsPerCredit);
+  }
+  const frames = Math.max(params.durationSeconds ?? 0, 0) * (params.fps || DEFAULT_FPS);
+  const perFrame =
+    DEFAULT_SECONDS_PER_FRAME[params.action] *
+    resolutionMultiplier(params.width, params.height) *
+    (params.qualityMultiplier ?? 1);
+  return Math.ceil(DEFAULT_STARTUP_SECONDS[params.action] + frames * perFrame);
+}
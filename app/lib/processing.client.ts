@@ -0,0 +1,423 @@
+import type { InpaintOptions, InpaintPreset } from "~/lib/inpaint-options";
+import type { MaskRefineOptions } from "~/lib/mask-refine";
+import type { MaskEdit } from "~/lib/mask-edit";
+import type { MaskExportFormat } from "~/lib/mask-file";
+
+/**
+ * 前端调用处理 API 的辅助函数
+ */
+
+export interface GeneratedMask {
+  preview: string;
+  maskUrl: string;
+  maskVideoUrl: string;
+  predictionId: string;
+  isVideo: boolean;
+  // 按时间范围生成时，遮罩只覆盖该片段（秒），start-task 时原样带回
+  segment?: {
+    range: { start: number; end: number };
+    storageKey: string;
+    url: string;
+  };
+  refine?: MaskRefineOptions; // 经过后处理时的参数
+}
+
+interface JobStatusResponse {
+  jobId: string;
+  status: "queued" | "running" | "succeeded" | "failed" | "cancelled";
+  error?: string;
+  mask?: GeneratedMask;
+  download?: MaskDownload;
+}
+
+export interface MaskDownload {
+  url: string;
+  filename: string;
+}
+
+const JOB_POLL_INTERVAL_MS = 1000;
+const JOB_POLL_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * 轮询后台任务直到结束
+ */
+async function waitForJob(jobId: string): Promise<JobStatusResponse> {
+  const startedAt = Date.now();
+  while (Date.now() - startedAt < JOB_POLL_TIMEOUT_MS) {
+    const response = await fetch(`/api/processing/job/${encodeURIComponent(jobId)}`, {
+      credentials: "include",
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to get job status: ${response.status}`);
+    }
+    const data = (await response.json()) as JobStatusResponse;
+    if (data.status === "succeeded" || data.status === "failed" || data.status === "cancelled") {
+      return data;
+    }
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+  throw new Error("Mask job timed out");
+}
+
+/**
+ * 提交遮罩生成任务并等待结果
+ * 服务端只负责入队，SAM3 由 worker 执行
+ */
+export async function generateMask(body: Record<string, unknown>): Promise<GeneratedMask> {
+  const response = await fetch("/api/processing/generate-mask", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("API Error:", response.status, errorText);
+    throw new Error(`Failed to generate mask: ${response.status}`);
+  }
+
+  const data = await response.json();
+  if (!data.success || !data.jobId) {
+    throw new Error(data.error || "Invalid response");
+  }
+
+  const job = await waitForJob(data.jobId);
+  if (job.status !== "succeeded" || !job.mask) {
+    throw new Error(job.error || "Failed to generate mask");
+  }
+  return job.mask;
+}
+
+/**
+ * 对全视频遮罩做膨胀、羽化和时间平滑，返回处理后的遮罩（segment 等信息不变）
+ */
+export async function refineMask(mask: GeneratedMask, options: MaskRefineOptions): Promise<GeneratedMask> {
+  const response = await fetch("/api/processing/refine-mask", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ mask, options }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.jobId) {
+    throw new Error(data.error || `Failed to refine mask: ${response.status}`);
+  }
+
+  const job = await waitForJob(data.jobId);
+  if (job.status !== "succeeded" || !job.mask) {
+    throw new Error(job.error || "Failed to refine mask");
+  }
+  return job.mask;
+}
+
+/**
+ * 把多个对象的全视频遮罩合并为一个（时间范围需相同），用于一次处理所有对象
+ */
+export async function combineMasks(masks: GeneratedMask[]): Promise<GeneratedMask> {
+  const response = await fetch("/api/processing/combine-masks", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ masks }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.jobId) {
+    throw new Error(data.error || `Failed to combine masks: ${response.status}`);
+  }
+
+  const job = await waitForJob(data.jobId);
+  if (job.status !== "succeeded" || !job.mask) {
+    throw new Error(job.error || "Failed to combine masks");
+  }
+  return job.mask;
+}
+
+/**
+ * 把各关键帧上手动绘制和擦除的修正应用到全视频遮罩，返回修正后的遮罩
+ */
+export async function editMask(mask: GeneratedMask, edits: MaskEdit[]): Promise<GeneratedMask> {
+  const response = await fetch("/api/processing/edit-mask", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ mask, edits }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.jobId) {
+    throw new Error(data.error || `Failed to edit mask: ${response.status}`);
+  }
+
+  const job = await waitForJob(data.jobId);
+  if (job.status !== "succeeded" || !job.mask) {
+    throw new Error(job.error || "Failed to edit mask");
+  }
+  return job.mask;
+}
+
+/**
+ * 上传在其他工具中做好的遮罩（二值视频、PNG 序列 zip 或单张 PNG），转换为可用于 start-task 的遮罩
+ * 设置了处理范围时遮罩只覆盖该片段，与 generate-mask 一致
+ */
+export async function importMask(params: {
+  assetId: string;
+  file: File;
+  range?: { start: number; end: number } | null;
+}): Promise<GeneratedMask> {
+  const form = new FormData();
+  form.append("file", params.file);
+  form.append("assetId", params.assetId);
+  if (params.range) {
+    form.append("rangeStart", String(params.range.start));
+    form.append("rangeEnd", String(params.range.end));
+  }
+  const response = await fetch("/api/processing/import-mask", {
+    method: "POST",
+    credentials: "include",
+    body: form,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.jobId) {
+    throw new Error(data.error || `Failed to import mask: ${response.status}`);
+  }
+
+  const job = await waitForJob(data.jobId);
+  if (job.status !== "succeeded" || !job.mask) {
+    throw new Error(job.error || "Failed to import mask");
+  }
+  return job.mask;
+}
+
+/**
+ * 把任务使用的遮罩或生成的遮罩导出为二值 MP4 或 PNG 序列 zip，返回下载地址
+ */
+export async function exportMask(
+  source: { taskId: string } | { mask: Pick<GeneratedMask, "maskVideoUrl"> },
+  format: MaskExportFormat
+): Promise<MaskDownload> {
+  const response = await fetch("/api/processing/export-mask", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ ...source, format }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.jobId) {
+    throw new Error(data.error || `Failed to export mask: ${response.status}`);
+  }
+
+  const job = await waitForJob(data.jobId);
+  if (job.status !== "succeeded" || !job.download) {
+    throw new Error(job.error || "Failed to export mask");
+  }
+  return job.download;
+}
+
+/**
+ * 在源视频的 time 秒处预览后处理的遮罩，返回 PNG
+ */
+export async function previewMaskRefinement(params: {
+  assetId: string;
+  mask: GeneratedMask;
+  time: number;
+  options: MaskRefineOptions;
+  signal?: AbortSignal;
+}): Promise<Blob> {
+  const response = await fetch("/api/processing/refine-mask/preview", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    signal: params.signal,
+    body: JSON.stringify({ assetId: params.assetId, mask: params.mask, time: params.time, options: params.options }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Failed to preview mask: ${response.status}`);
+  }
+  return response.blob();
+}
+
+export interface TaskEstimate {
+  credits: number;
+  estimatedSeconds: number;
+  balance: number;
+  sufficient: boolean; // 余额是否足够，不足时不能确认
+  durationSeconds: number | null;
+  width: number | null;
+  height: number | null;
+  fps: number | null;
+  basedOnHistory: boolean; // 耗时是否参考了历史任务
+  inpaintOptions: InpaintOptions | null; // remove 实际使用的 ProPainter 参数
+}
+
+// 质量预设，以及重新运行时单独修改的参数
+export interface InpaintOptionsInput {
+  preset?: InpaintPreset;
+  resizeRatio?: number;
+  subvideoLength?: number;
+  fp16?: boolean;
+}
+
+/**
+ * 确认操作前的费用和耗时估计
+ */
+export async function estimateTask(params: {
+  assetId: string;
+  action: "remove" | "extract";
+  range?: { start: number; end: number } | null;
+  inpaint?: InpaintOptionsInput; // 只对 remove 有效
+}): Promise<TaskEstimate> {
+  const query = new URLSearchParams({ assetId: params.assetId, action: params.action });
+  if (params.range) {
+    query.set("start", String(params.range.start));
+    query.set("end", String(params.range.end));
+  }
+  if (params.action === "remove" && params.inpaint) {
+    for (const [key, value] of Object.entries(params.inpaint)) {
+      if (value !== undefined) query.set(key, String(value));
+    }
+  }
+  const response = await fetch(`/api/processing/estimate?${query}`, { credentials: "include" });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to estimate task: ${response.status}`);
+  }
+  return data as TaskEstimate;
+}
+
+export interface StartTaskResponse {
+  success: boolean;
+  taskId?: string;
+  jobId?: string;
+  status?: string;
+  message?: string;
+  duplicate?: boolean; // 重复提交时返回已有任务
+  creditsCost?: number; // 预留的 credits
+  parentTaskId?: string; // 重新运行时的源任务
+  error?: string;
+}
+
+const START_TASK_MAX_RETRIES = 2;
+const START_TASK_RETRY_BASE_MS = 1000;
+
+/**
+ * 启动处理任务；网络错误、429 和 5xx 时以同一个幂等键有限次重试，服务端保证不会重复创建任务
+ */
+export async function startTask(body: Record<string, unknown>, idempotencyKey: string): Promise<StartTaskResponse> {
+  for (let attempt = 0; ; attempt++) {
+    const retry = attempt < START_TASK_MAX_RETRIES;
+    let response: Response;
+    try {
+      response = await fetch("/api/processing/start-task", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": idempotencyKey },
+        credentials: "include",
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      if (!retry) throw error;
+      await new Promise((resolve) => setTimeout(resolve, START_TASK_RETRY_BASE_MS * 2 ** attempt));
+      continue;
+    }
+    if (retry && (response.status === 429 || response.status >= 500)) {
+      await new Promise((resolve) => setTimeout(resolve, START_TASK_RETRY_BASE_MS * 2 ** attempt));
+      continue;
+    }
+    const data = (await response.json().catch(() => ({}))) as StartTaskResponse;
+    if (!response.ok) {
+      throw new Error(data.error || `Failed to start task: ${response.status}`);
+    }
+    return data;
+  }
+}
+
+/**
+ * 以新的 ProPainter 参数重新运行任务，返回新建的任务（源任务不变）
+ */
+export async function retryTask(
+  taskId: string,
+  options: InpaintOptionsInput & { keepAudio?: boolean },
+  idempotencyKey: string
+): Promise<StartTaskResponse> {
+  const response = await fetch(`/api/processing/task/${encodeURIComponent(taskId)}/retry`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Idempotency-Key": idempotencyKey },
+    credentials: "include",
+    body: JSON.stringify(options),
+  });
+  const data = (await response.json().catch(() => ({}))) as StartTaskResponse;
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to retry task: ${response.status}`);
+  }
+  return data;
+}
+
+export interface TaskStatusEvent {
+  taskId: string;
+  status: "pending" | "processing" | "completed" | "failed" | "cancelled";
+  message: string;
+  percentage: number;
+  etaSeconds?: number;
+  outputUrl?: string;
+  outputUrls?: string[];
+  outputAssetId?: string;
+  framesUrl?: string;
+  error?: string | null;
+}
+
+// 用户任务流中的一条，附带列表展示需要的字段
+export interface UserTaskEvent extends TaskStatusEvent {
+  action: "remove" | "extract";
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function isTaskFinished(status: TaskStatusEvent["status"]): boolean {
+  return status === "completed" || status === "failed" || status === "cancelled";
+}
+
+/**
+ * 订阅 SSE 事件；EventSource 断线会自动重连，只有连接被拒绝（如 401/404）时才调用 onError
+ * 返回的函数用于关闭连接
+ */
+function subscribe<T>(
+  url: string,
+  event: string,
+  onEvent: (data: T, source: EventSource) => void,
+  onError?: () => void
+): () => void {
+  const source = new EventSource(url, { withCredentials: true });
+  source.addEventListener(event, (e) => {
+    onEvent(JSON.parse((e as MessageEvent<string>).data) as T, source);
+  });
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED) onError?.();
+  };
+  return () => source.close();
+}
+
+/**
+ * 订阅单个任务的状态推送，任务结束后自动关闭连接
+ */
+export function subscribeTaskStatus(
+  taskId: string,
+  onStatus: (status: TaskStatusEvent) => void,
+  onError?: () => void
+): () => void {
+  return subscribe<TaskStatusEvent>(
+    `/api/processing/task/${encodeURIComponent(taskId)}/events`,
+    "status",
+    (status, source) => {
+      if (isTaskFinished(status.status)) source.close();
+      onStatus(status);
+    },
+    onError
+  );
+}
+
+/**
+ * 订阅当前用户所有任务的变化（新建、进度、完成）
+ */
+export function subscribeUserTasks(onTask: (task: UserTaskEvent) => void, onError?: () => void): () => void {
+  return subscribe<UserTaskEvent>("/api/processing/tasks/events", "task", onTask, onError);
+}
@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isTransientError } from "~/lib/processing.jobs";
+import { ProviderError } from "~/lib/providers";
+
+function fetchFailure(code: string): TypeError {
+  return new TypeError("fetch failed", { cause: Object.assign(new Error(code), { code }) });
+}
+
+describe("isTransientError", () => {
+  it("retries rate limits and upstream 5xx", () => {
+    assert.equal(isTransientError(new ProviderError("rate limited", 429)), true);
+    assert.equal(isTransientError(new ProviderError("bad gateway", 502)), true);
+    assert.equal(isTransientError(new ProviderError("invalid input", 422)), false);
+  });
+
+  it("retries fetch failures caused by network errors", () => {
+    assert.equal(isTransientError(fetchFailure("ECONNRESET")), true);
+    assert.equal(isTransientError(fetchFailure("ENOTFOUND")), true);
+    assert.equal(isTransientError(fetchFailure("UND_ERR_CONNECT_TIMEOUT")), true);
+  });
+
+  it("does not retry programming errors", () => {
+    assert.equal(isTransientError(new TypeError("Cannot read properties of undefined (reading 'id')")), false);
+    assert.equal(isTransientError(new TypeError("fetch failed", { cause: new Error("bad port") })), false);
+    assert.equal(isTransientError(new Error("ffmpeg exited with code 1")), false);
+  });
+});
@@ -0,0 +1,898 @@
+/**
+ * 后台处理任务：由 worker 进程执行，负责 prediction 的完整生命周期
+ * （创建 → 轮询状态 → 写回 tasks 表），与浏览器是否打开页面无关
+ * 配置了 webhook 时，提供方回调会通过 applyPrediction 提前写入结果，轮询作为兜底
+ */
+
+import fs from "fs";
+import path from "path";
+import { getAssetById, insertAsset, type AssetRecord } from "~/lib/assets.repo";
+import { framesArchiveKey, renderAlphaExtract } from "~/lib/extract.server";
+import {
+  completeJob,
+  failJob,
+  heartbeatJob,
+  rescheduleJob,
+  setJobPrediction,
+  wakeJob,
+  type Job,
+} from "~/lib/jobs.repo";
+import { downloadFile, OUT_DIR, outputFilename, probeMedia } from "~/lib/media.server";
+import {
+  firstOutputUrl,
+  getInpaintingProvider,
+  getSegmentationProvider,
+  ProviderError,
+  type InpaintingInput,
+  type Prediction,
+  type PredictionProvider,
+  type SegmentationInput,
+} from "~/lib/providers";
+import {
+  cutSegment,
+  localMediaInput,
+  publicMediaUrl,
+  type TimeRange,
+} from "~/lib/segment.server";
+import { captureTaskCredits, refundTaskCredits } from "~/lib/credits.repo";
+import { compositeInpaint } from "~/lib/inpaint.server";
+import { combineMaskVideos } from "~/lib/mask-combine.server";
+import type { MaskRefineOptions } from "~/lib/mask-refine";
+import { refineMaskVideo } from "~/lib/mask-refine.server";
+import { applyMaskEdits, maskEditFrames } from "~/lib/mask-edit.server";
+import type { MaskExportFormat, MaskFileKind } from "~/lib/mask-file";
+import { exportMaskFile, importMaskFile } from "~/lib/mask-file.server";
+import { estimateRemainingSeconds, parsePredictionProgress } from "~/lib/progress";
+import { getTaskById, updateTask, type Task } from "~/lib/tasks.repo";
+
+/**
+ * 按时间范围处理时剪出的片段，SAM3 和 ProPainter 都只处理该片段
+ */
+export interface SegmentInfo {
+  range: TimeRange;
+  storageKey: string; // out/ 下的片段文件
+  url: string; // 供提供方拉取的公网地址
+}
+
+export interface MaskJobPayload {
+  input: SegmentationInput;
+  isSingleFrame: boolean;
+  segment?: { assetId: string; range: TimeRange }; // 只为该范围生成遮罩，由 worker 剪出片段
+}
+
+export interface MaskJobResult {
+  mask: {
+    preview?: string;
+    maskUrl?: string;
+    maskVideoUrl?: string;
+    predictionId: string;
+    isVideo: boolean;
+    segment?: SegmentInfo;
+    refine?: MaskRefineOptions; // 经过后处理时的参数
+  };
+}
+
+export interface RefineMaskJobPayload {
+  mask: MaskJobResult["mask"]; // generate-mask 的结果，处理后只替换遮罩地址
+  options: MaskRefineOptions;
+}
+
+export interface EditMaskJobPayload {
+  mask: MaskJobResult["mask"]; // generate-mask 的结果，处理后只替换遮罩地址
+  edits: Array<{
+    storageKey: string; // out/ 下的修正图（白色为添加，黑色为擦除）
+    time: number; // 绘制的帧在源视频中的时间（秒）
+    spreadFrames: number;
+  }>;
+}
+
+export interface ImportMaskJobPayload {
+  assetId: string; // 遮罩对应的源视频
+  storageKey: string; // out/ 下上传的遮罩文件
+  kind: MaskFileKind;
+  segment?: { assetId: string; range: TimeRange }; // 只保留该范围，由 worker 剪出片段
+}
+
+export interface ExportMaskJobPayload {
+  maskUrl: string;
+  format: MaskExportFormat;
+  filename: string; // 下载时的文件名
+}
+
+export interface ExportMaskJobResult {
+  storageKey: string; // out/ 下导出的文件
+  download: { url: string; filename: string };
+}
+
+export interface CombineMasksJobPayload {
+  masks: Array<MaskJobResult["mask"]>; // 各对象的全视频遮罩，时间范围相同
+}
+
+export interface InpaintJobPayload {
+  input: InpaintingInput; // 按范围处理时 input.video 为片段地址
+  range?: TimeRange; // 设置时，修复结果只合成回该范围
+}
+
+export interface InpaintJobResult {
+  outputUrls: string[];
+  assetId: string; // 合成后保存的资产
+}
+
+export interface ExtractJobPayload {
+  maskUrl: string; // SAM3 纯遮罩视频（maskOnly: true）
+  range?: TimeRange; // 遮罩对应的时间范围
+}
+
+export interface ExtractJobResult {
+  assetId: string;
+  outputUrl: string;
+  framesUrl: string;
+}
+
+// 轮询间隔：SAM3 通常几秒完成，ProPainter 需要数分钟
+const MASK_POLL_INTERVAL_MS = Number(process.env.MASK_JOB_POLL_INTERVAL_MS) || 1000;
+const INPAINT_POLL_INTERVAL_MS = Number(process.env.INPAINT_JOB_POLL_INTERVAL_MS) || 3000;
+// 本地 ffmpeg 处理期间刷新锁的间隔，需小于 WORKER_LOCK_TIMEOUT_MS；同时用于发现任务被取消
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+// 超过该时长仍未结束的 prediction 视为超时
+const MASK_TIMEOUT_MS = Number(process.env.MASK_JOB_TIMEOUT_MS) || 5 * 60 * 1000;
+const INPAINT_TIMEOUT_MS = Number(process.env.INPAINT_JOB_TIMEOUT_MS) || 60 * 60 * 1000;
+// 提供方处理阶段在任务总进度中的区间，之后是下载和合成（90）
+const PREDICTION_PROGRESS_START = 10;
+const PREDICTION_PROGRESS_END = 85;
+
+// fetch 失败时 cause 上的错误码：连接被重置或拒绝、DNS 解析失败、超时
+const TRANSIENT_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+]);
+
+/**
+ * 可重试的临时错误：网络错误、429 限流、上游 5xx
+ * 创建 prediction 时例外（见 advancePrediction）
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof ProviderError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  // fetch 的网络错误表现为 TypeError("fetch failed")，原因在 cause 上；其他 TypeError 是程序错误，不重试
+  if (!(error instanceof TypeError)) return false;
+  const code = (error.cause as { code?: unknown } | undefined)?.code;
+  return typeof code === "string" && TRANSIENT_NETWORK_CODES.has(code);
+}
+
+/**
+ * 创建或恢复 prediction，返回最新状态
+ */
+async function advancePrediction<TInput>(
+  job: Job,
+  provider: PredictionProvider<TInput>,
+  input: TInput
+): Promise<{ prediction: Prediction; created: boolean }> {
+  if (job.prediction_id) {
+    return { prediction: await provider.getStatus(job.prediction_id), created: false };
+  }
+  let prediction: Prediction;
+  try {
+    prediction = await provider.create(input);
+  } catch (error) {
+    // 与 replicate.client 一致：5xx 或网络错误时 prediction 可能已经创建，job 重试会产生重复的付费任务
+    // 只有 429（请求被拒绝）交给 worker 重试，其余按失败处理
+    if (isTransientError(error) && !(error instanceof ProviderError && error.status === 429)) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Prediction may have been created, not retrying: ${message}`);
+    }
+    throw error;
+  }
+  await setJobPrediction(job.id, prediction.id);
+  console.log(`✅ [${job.type}] prediction created via ${provider.name}:`, prediction.id);
+  return { prediction, created: true };
+}
+
+function isTimedOut(job: Job, timeoutMs: number): boolean {
+  return Date.now() - new Date(job.created_at).getTime() > timeoutMs;
+}
+
+/**
+ * 执行本地长时间处理（ffmpeg），期间定期刷新锁
+ * 任务被取消后心跳会失败，此时中止处理并返回 null
+ */
+async function withJobHeartbeat<T>(job: Job, run: (signal: AbortSignal) => Promise<T>): Promise<T | null> {
+  const abort = new AbortController();
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job.id)
+      .then((running) => {
+        if (!running) abort.abort();
+      })
+      .catch(() => undefined);
+  }, HEARTBEAT_INTERVAL_MS);
+  try {
+    return await run(abort.signal);
+  } catch (error) {
+    if (abort.signal.aborted) return null;
+    throw error;
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * 读取源资产及其在 out/ 下的文件路径
+ */
+async function resolveSourceAsset(assetId: string): Promise<{ source: AssetRecord; sourcePath: string }> {
+  const source = await getAssetById(assetId);
+  if (!source) {
+    throw new Error(`Source asset not found: ${assetId}`);
+  }
+  const sourcePath = path.resolve(OUT_DIR, path.basename(source.storage_key));
+  if (!fs.existsSync(sourcePath)) {
+    throw new Error(`Source file not found: ${source.storage_key}`);
+  }
+  return { source, sourcePath };
+}
+
+/**
+ * 将 out/ 下的处理结果保存为新资产（与源视频属于同一项目），并关联源资产和任务
+ */
+async function saveOutputAsset(
+  task: Task,
+  source: AssetRecord,
+  storageKey: string,
+  originalName: string,
+  mimeType: string
+): Promise<AssetRecord> {
+  const outputPath = path.resolve(OUT_DIR, storageKey);
+  const info = await probeMedia(outputPath).catch(() => null);
+  return insertAsset({
+    userId: task.user_id,
+    projectId: source.project_id,
+    originalName,
+    storageKey,
+    mimeType,
+    sizeBytes: fs.statSync(outputPath).size,
+    width: info?.width ?? source.width,
+    height: info?.height ?? source.height,
+    durationSeconds: info?.durationSeconds ?? source.duration_seconds,
+    derivedFromAssetId: source.id,
+    taskId: task.id,
+  });
+}
+
+function sourceBaseName(source: AssetRecord): string {
+  return path.basename(source.original_name, path.extname(source.original_name));
+}
+
+const OUTPUT_SUFFIX: Record<Task["action"], string> = {
+  remove: "_inpainted",
+  extract: "_extracted",
+};
+
+const OUTPUT_MIME_TYPES: Record<string, string> = {
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".mov": "video/quicktime",
+};
+
+/**
+ * 把提供方的输出（有时效、位于第三方域名）下载到 out/ 并保存为新资产
+ * 调用方负责把任务的 output_url 更新为 /api/assets/:id/raw
+ */
+export async function persistTaskOutput(task: Task, outputUrl: string): Promise<AssetRecord> {
+  const source = await getAssetById(task.asset_id);
+  if (!source) {
+    throw new Error(`Source asset not found: ${task.asset_id}`);
+  }
+  const ext = path.extname(new URL(outputUrl).pathname).toLowerCase();
+  const mimeType = OUTPUT_MIME_TYPES[ext] ?? "video/mp4";
+  const outputExt = OUTPUT_MIME_TYPES[ext] ? ext : ".mp4";
+  const baseName = `${sourceBaseName(source)}${OUTPUT_SUFFIX[task.action]}`;
+  const storageKey = outputFilename(baseName, outputExt);
+
+  console.log("📥 Persisting task output:", { taskId: task.id, output: storageKey });
+  await downloadFile(outputUrl, path.resolve(OUT_DIR, storageKey));
+  return saveOutputAsset(task, source, storageKey, `${baseName}${outputExt}`, mimeType);
+}
+
+/**
+ * 遮罩任务的片段信息，文件名由 job ID 决定，重试时可复用已剪好的片段
+ */
+function maskJobSegment(job: Job): SegmentInfo | undefined {
+  const payload = job.payload as unknown as Pick<MaskJobPayload, "segment">;
+  if (!payload.segment) return undefined;
+  const storageKey = `segment_${job.id}.mp4`;
+  return { range: payload.segment.range, storageKey, url: publicMediaUrl(storageKey) };
+}
+
+/**
+ * 将 prediction 的最新状态写入遮罩任务，任务结束时返回 true
+ */
+async function applyMaskPrediction(job: Job, prediction: Prediction): Promise<boolean> {
+  switch (prediction.status) {
+    case "succeeded": {
+      const output = firstOutputUrl(prediction);
+      console.log("✅ SAM3 mask generated successfully, output:", output);
+      const result: MaskJobResult = {
+        mask: {
+          preview: output,
+          maskUrl: output,
+          maskVideoUrl: output,
+          predictionId: prediction.id,
+          isVideo: true, // 标记这是视频，需要提取第一帧
+          segment: maskJobSegment(job),
+        },
+      };
+      await completeJob(job.id, { ...result });
+      return true;
+    }
+    case "failed":
+    case "canceled":
+      console.error("❌ SAM3 prediction failed:", prediction);
+      await failJob(job.id, prediction.error || `Prediction ${prediction.status}`);
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * 结算任务预留的 credits：完成时扣除，失败或取消时退还
+ * 结算失败只记录日志，不影响任务状态（预留仍保留在任务上，重复结算是安全的）
+ */
+async function settleCredits(taskId: string, outcome: "capture" | "refund"): Promise<void> {
+  try {
+    await (outcome === "capture" ? captureTaskCredits(taskId) : refundTaskCredits(taskId));
+  } catch (error) {
+    console.error(`❌ Failed to ${outcome} credits:`, taskId, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * worker 写回任务状态，不覆盖用户已取消的任务（取消可能发生在读取状态之后），返回 false 表示任务已取消
+ */
+async function updateActiveTask(taskId: string, updates: Partial<Task>): Promise<boolean> {
+  return (await updateTask(taskId, updates, { skipCancelled: true })) !== null;
+}
+
+/**
+ * 将 prediction 的最新状态写入 tasks 表
+ * 也用于没有对应 job 的旧任务（队列上线前创建，由 webhook 直接更新）
+ * subvideoLength 为 ProPainter 的分段长度，用于从日志估计多段处理的进度
+ */
+export async function applyPredictionToTask(
+  taskId: string,
+  prediction: Prediction,
+  options: { subvideoLength?: number } = {}
+): Promise<void> {
+  // 用户已取消的任务不再被 prediction 状态覆盖
+  const current = await getTaskById(taskId);
+  if (current?.status === "cancelled") return;
+
+  switch (prediction.status) {
+    case "succeeded": {
+      // 保存到 out/；下载失败时先保留提供方地址，可用 pnpm outputs:persist 补存
+      let outputUrl = firstOutputUrl(prediction);
+      let outputAssetId: string | undefined;
+      if (outputUrl && current) {
+        try {
+          const asset = await persistTaskOutput(current, outputUrl);
+          outputUrl = `/api/assets/${asset.id}/raw`;
+          outputAssetId = asset.id;
+        } catch (error) {
+          console.warn("⚠️ Failed to persist task output, keeping provider URL:", taskId, error);
+        }
+      }
+      const completed = await updateActiveTask(taskId, {
+        status: "completed",
+        progress: 100,
+        eta_seconds: null,
+        output_url: outputUrl,
+        output_asset_id: outputAssetId,
+      });
+      if (!completed) {
+        console.log("🛑 Task cancelled before completion:", taskId);
+        return;
+      }
+      await settleCredits(taskId, "capture");
+      console.log("✅ Task completed:", taskId);
+      return;
+    }
+    case "failed": {
+      const message = prediction.error || "处理失败";
+      if (!(await updateActiveTask(taskId, { status: "failed", progress: 0, error_message: message }))) return;
+      await settleCredits(taskId, "refund");
+      console.log("❌ Task failed:", taskId, message);
+      return;
+    }
+    case "canceled":
+      await updateTask(taskId, { status: "cancelled", error_message: "任务已取消" });
+      await settleCredits(taskId, "refund");
+      console.log("🛑 Task cancelled:", taskId);
+      return;
+    case "processing": {
+      const progress = parsePredictionProgress(prediction.logs, options);
+      const percentage = progress
+        ? PREDICTION_PROGRESS_START + Math.round(progress.fraction * (PREDICTION_PROGRESS_END - PREDICTION_PROGRESS_START))
+        : PREDICTION_PROGRESS_START;
+      await updateActiveTask(taskId, {
+        status: "processing",
+        // 日志格式变化或重新开始的进度条不应让进度倒退
+        progress: Math.max(percentage, current?.progress ?? 0),
+        eta_seconds: progress ? estimateRemainingSeconds(progress, prediction.started_at ?? prediction.created_at) : null,
+      });
+      return;
+    }
+    default:
+      return;
+  }
+}
+
+/**
+ * 将 prediction 的失败/进度状态写入修复任务及其 task 记录，任务结束时返回 true
+ * 成功的结果需要由 worker 合成回原视频，不在这里处理
+ */
+async function applyInpaintPrediction(job: Job, prediction: Prediction): Promise<boolean> {
+  if (prediction.status === "succeeded") return false;
+  if (job.task_id) {
+    const payload = job.payload as unknown as InpaintJobPayload;
+    await applyPredictionToTask(job.task_id, prediction, { subvideoLength: payload.input?.subvideoLength });
+  }
+
+  switch (prediction.status) {
+    case "failed":
+    case "canceled":
+      await failJob(job.id, prediction.status === "canceled" ? "任务已取消" : prediction.error || "处理失败");
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * 应用提供方推送的 prediction 状态（webhook 回调），已结束的任务忽略
+ */
+export async function applyPrediction(job: Job, prediction: Prediction): Promise<void> {
+  if (job.status === "succeeded" || job.status === "failed" || job.status === "cancelled") return;
+  switch (job.type) {
+    case "generate_mask":
+      await applyMaskPrediction(job, prediction);
+      return;
+    case "inpaint":
+      // 修复成功后的合成由 worker 完成，这里只唤醒它
+      if (prediction.status === "succeeded") {
+        await wakeJob(job.id);
+        return;
+      }
+      await applyInpaintPrediction(job, prediction);
+      return;
+  }
+}
+
+/**
+ * 剪出遮罩任务需要的片段，已存在时直接复用
+ */
+async function prepareMaskSegment(job: Job, segment: SegmentInfo, assetId: string): Promise<boolean> {
+  const outputPath = path.resolve(OUT_DIR, segment.storageKey);
+  if (fs.existsSync(outputPath)) return true;
+
+  const { sourcePath } = await resolveSourceAsset(assetId);
+  console.log("✂️ Cutting segment:", { jobId: job.id, range: segment.range });
+  const tmpPath = `${outputPath}.tmp.mp4`;
+  const done = await withJobHeartbeat(job, (signal) =>
+    cutSegment({ sourcePath, range: segment.range, outputPath: tmpPath, signal }).then(() => true)
+  );
+  if (!done) {
+    fs.rmSync(tmpPath, { force: true });
+    return false;
+  }
+  fs.renameSync(tmpPath, outputPath);
+  return true;
+}
+
+async function runMaskJob(job: Job): Promise<void> {
+  const payload = job.payload as unknown as MaskJobPayload;
+  const provider = getSegmentationProvider();
+  const segment = maskJobSegment(job);
+  let input = payload.input;
+  if (segment && payload.segment) {
+    if (!job.prediction_id && !(await prepareMaskSegment(job, segment, payload.segment.assetId))) return;
+    input = { ...input, video: segment.url };
+  }
+  const { prediction } = await advancePrediction(job, provider, input);
+
+  if (await applyMaskPrediction(job, prediction)) return;
+
+  if (isTimedOut(job, MASK_TIMEOUT_MS)) {
+    await provider.cancel(prediction.id).catch(() => undefined);
+    await failJob(job.id, `Prediction timed out: ${prediction.status}`);
+    return;
+  }
+  await rescheduleJob(job.id, MASK_POLL_INTERVAL_MS);
+}
+
+async function runInpaintJob(job: Job): Promise<void> {
+  const payload = job.payload as unknown as InpaintJobPayload;
+  const provider = getInpaintingProvider();
+  const taskId = job.task_id;
+  const { prediction, created } = await advancePrediction(job, provider, payload.input);
+
+  if (created && taskId) {
+    await updateActiveTask(taskId, { prediction_id: prediction.id, status: "processing" });
+  }
+
+  if (prediction.status === "succeeded") {
+    await finishInpaintResult(job, prediction, payload);
+    return;
+  }
+
+  if (await applyInpaintPrediction(job, prediction)) return;
+
+  if (isTimedOut(job, INPAINT_TIMEOUT_MS)) {
+    await provider.cancel(prediction.id).catch(() => undefined);
+    if (taskId) {
+      if (await updateActiveTask(taskId, { status: "failed", progress: 0, error_message: "处理超时" })) {
+        await settleCredits(taskId, "refund");
+      }
+    }
+    await failJob(job.id, `Prediction timed out: ${prediction.status}`);
+    return;
+  }
+  await rescheduleJob(job.id, INPAINT_POLL_INTERVAL_MS);
+}
+
+/**
+ * 把修复结果合成回原始分辨率的源视频（只在羽化后的遮罩区域内），结果保存为新资产
+ */
+async function finishInpaintResult(job: Job, prediction: Prediction, payload: InpaintJobPayload): Promise<void> {
+  const inpaintedUrl = firstOutputUrl(prediction);
+  const task = job.task_id ? await getTaskById(job.task_id) : null;
+  if (!task) {
+    throw new Error(`Task not found for inpaint job: ${job.task_id}`);
+  }
+  if (task.status === "cancelled") return;
+  if (!inpaintedUrl) {
+    if (await updateActiveTask(task.id, { status: "failed", progress: 0, error_message: "处理完成，但未找到输出" })) {
+      await settleCredits(task.id, "refund");
+    }
+    await failJob(job.id, "Prediction succeeded without output");
+    return;
+  }
+
+  const { source, sourcePath } = await resolveSourceAsset(task.asset_id);
+  if (!(await updateActiveTask(task.id, { status: "processing", progress: 90, eta_seconds: null }))) return;
+
+  const baseName = sourceBaseName(source);
+  const storageKey = outputFilename(`${baseName}_inpainted`, ".mp4");
+  const outputPath = path.resolve(OUT_DIR, storageKey);
+  console.log("🧵 Compositing inpainted result:", { taskId: task.id, range: payload.range, output: storageKey });
+  const done = await withJobHeartbeat(job, (signal) =>
+    compositeInpaint({
+      sourcePath,
+      inpaintedUrl,
+      maskUrl: payload.input.mask,
+      outputPath,
+      range: payload.range,
+      keepAudio: task.keep_audio !== false,
+      signal,
+    }).then(() => true)
+  );
+  if (!done) {
+    fs.rmSync(outputPath, { force: true });
+    console.log("🛑 Composite cancelled:", task.id);
+    return;
+  }
+
+  const asset = await saveOutputAsset(task, source, storageKey, `${baseName}_inpainted.mp4`, "video/mp4");
+  const outputUrl = `/api/assets/${asset.id}/raw`;
+  // 合成期间或最后一次心跳之后被取消时不再标记完成，也不扣除 credits
+  const completed = await updateActiveTask(task.id, {
+    status: "completed",
+    progress: 100,
+    output_url: outputUrl,
+    output_asset_id: asset.id,
+  });
+  if (!completed) {
+    console.log("🛑 Task cancelled before completion:", task.id);
+    return;
+  }
+  await settleCredits(task.id, "capture");
+  const result: InpaintJobResult = { outputUrls: [outputUrl], assetId: asset.id };
+  await completeJob(job.id, { ...result });
+  console.log("✅ Task completed:", task.id, asset.id);
+}
+
+/**
+ * 本地渲染透明背景的对象视频，并保存为新资产（与源视频属于同一项目）
+ */
+async function runExtractJob(job: Job): Promise<void> {
+  const payload = job.payload as unknown as ExtractJobPayload;
+  const task = job.task_id ? await getTaskById(job.task_id) : null;
+  if (!task) {
+    throw new Error(`Task not found for extract job: ${job.task_id}`);
+  }
+  const { source, sourcePath } = await resolveSourceAsset(task.asset_id);
+
+  if (!(await updateActiveTask(task.id, { status: "processing", progress: 10 }))) return;
+
+  const baseName = sourceBaseName(source);
+  const storageKey = outputFilename(`${baseName}_extracted`, ".webm");
+  const webmPath = path.resolve(OUT_DIR, storageKey);
+  const zipPath = path.resolve(OUT_DIR, framesArchiveKey(storageKey));
+
+  console.log("✂️ Extracting object:", { taskId: task.id, source: source.storage_key, output: storageKey });
+  const done = await withJobHeartbeat(job, (signal) =>
+    renderAlphaExtract({
+      sourcePath,
+      maskUrl: localMediaInput(payload.maskUrl),
+      webmPath,
+      zipPath,
+      range: payload.range,
+      keepAudio: task.keep_audio !== false,
+      signal,
+    }).then(() => true)
+  );
+  if (!done) {
+    fs.rmSync(webmPath, { force: true });
+    fs.rmSync(zipPath, { force: true });
+    console.log("🛑 Extract cancelled:", task.id);
+    return;
+  }
+
+  const asset = await saveOutputAsset(task, source, storageKey, `${baseName}_extracted.webm`, "video/webm");
+  const result: ExtractJobResult = {
+    assetId: asset.id,
+    outputUrl: `/api/assets/${asset.id}/raw`,
+    framesUrl: `/api/assets/${asset.id}/frames`,
+  };
+  const completed = await updateActiveTask(task.id, {
+    status: "completed",
+    progress: 100,
+    output_url: result.outputUrl,
+    output_asset_id: asset.id,
+  });
+  if (!completed) {
+    console.log("🛑 Extract cancelled before completion:", task.id);
+    return;
+  }
+  await settleCredits(task.id, "capture");
+  await completeJob(job.id, { ...result });
+  console.log("✅ Extract completed:", task.id, asset.id);
+}
+
+/**
+ * 遮罩后处理：本地 ffmpeg 处理整个遮罩视频，结果保存到 out/ 并通过公网地址提供给提供方
+ * 文件名由 job ID 决定，重试时复用已完成的文件
+ */
+async function runRefineMaskJob(job: Job): Promise<void> {
+  const payload = job.payload as unknown as RefineMaskJobPayload;
+  const maskUrl = payload.mask.maskVideoUrl || payload.mask.maskUrl;
+  if (!maskUrl) {
+    await failJob(job.id, "Missing mask URL");
+    return;
+  }
+
+  const storageKey = `mask_refined_${job.id}.mp4`;
+  const outputPath = path.resolve(OUT_DIR, storageKey);
+  if (!fs.existsSync(outputPath)) {
+    console.log("🪄 Refining mask:", { jobId: job.id, options: payload.options });
+    const done = await withJobHeartbeat(job, (signal) =>
+      refineMaskVideo({ maskUrl: localMediaInput(maskUrl), outputPath, refine: payload.options, signal }).then(() => true)
+    );
+    if (!done) return;
+  }
+
+  const url = publicMediaUrl(storageKey);
+  const result: MaskJobResult = {
+    mask: { ...payload.mask, preview: url, maskUrl: url, maskVideoUrl: url, refine: payload.options },
+  };
+  await completeJob(job.id, { ...result });
+  console.log("✅ Mask refined:", job.id, storageKey);
+}
+
+/**
+ * 手动修正遮罩：把各关键帧上的修正图应用到全视频遮罩，结果保存到 out/，重试时复用已完成的文件
+ * 按范围生成的遮罩从入点开始，绘制时间需减去入点再按遮罩帧率换算为帧序号
+ */
+async function runEditMaskJob(job: Job): Promise<void> {
+  const payload = job.payload as unknown as EditMaskJobPayload;
+  const maskUrl = payload.mask.maskVideoUrl || payload.mask.maskUrl;
+  if (!maskUrl) {
+    await failJob(job.id, "Missing mask URL");
+    return;
+  }
+
+  const storageKey = `mask_edited_${job.id}.mp4`;
+  const outputPath = path.resolve(OUT_DIR, storageKey);
+  const imagePaths = payload.edits.map((edit) => path.resolve(OUT_DIR, path.basename(edit.storageKey)));
+  if (!fs.existsSync(outputPath)) {
+    const missing = imagePaths.find((imagePath) => !fs.existsSync(imagePath));
+    if (missing) {
+      await failJob(job.id, `Mask edit image not found: ${path.basename(missing)}`);
+      return;
+    }
+    const maskInput = localMediaInput(maskUrl);
+    const { fps } = await probeMedia(maskInput);
+    if (!fps) {
+      await failJob(job.id, "Unable to read mask frame rate");
+      return;
+    }
+    const rangeStart = payload.mask.segment?.range.start ?? 0;
+    const layers = payload.edits.map((edit, i) => ({
+      imagePath: imagePaths[i],
+      ...maskEditFrames(edit.time - rangeStart, fps, edit.spreadFrames),
+    }));
+    console.log("🖌️ Editing mask:", { jobId: job.id, edits: layers.length });
+    const done = await withJobHeartbeat(job, (signal) =>
+      applyMaskEdits({ maskUrl: maskInput, layers, outputPath, signal }).then(() => true)
+    );
+    if (!done) return;
+  }
+
+  const url = publicMediaUrl(storageKey);
+  const result: MaskJobResult = {
+    mask: { ...payload.mask, preview: url, maskUrl: url, maskVideoUrl: url },
+  };
+  await completeJob(job.id, { ...result });
+  // 修正图只用于本次处理
+  for (const imagePath of imagePaths) {
+    fs.rmSync(imagePath, { force: true });
+  }
+  console.log("✅ Mask edited:", job.id, storageKey);
+}
+
+/**
+ * 导入用户上传的遮罩：转换为与源视频逐帧对应的二值遮罩视频，之后与 SAM3 生成的遮罩一样用于 start-task
+ * 设置了处理范围时同时剪出片段（与遮罩任务相同），结果保存到 out/，重试时复用已完成的文件
+ */
+async function runImportMaskJob(job: Job): Promise<void> {
+  const payload = job.payload as unknown as ImportMaskJobPayload;
+  const inputPath = path.resolve(OUT_DIR, path.basename(payload.storageKey));
+  const storageKey = `mask_imported_${job.id}.mp4`;
+  const outputPath = path.resolve(OUT_DIR, storageKey);
+  const segment = maskJobSegment(job);
+  if (segment && !(await prepareMaskSegment(job, segment, payload.assetId))) return;
+
+  if (!fs.existsSync(outputPath)) {
+    if (!fs.existsSync(inputPath)) {
+      await failJob(job.id, "Uploaded mask file not found");
+      return;
+    }
+    const { sourcePath } = await resolveSourceAsset(payload.assetId);
+    const { width, height, fps, durationSeconds } = await probeMedia(sourcePath);
+    if (!width || !height || !fps || !durationSeconds) {
+      await failJob(job.id, "Unable to read source video size, frame rate or duration");
+      return;
+    }
+    console.log("📥 Importing mask:", { jobId: job.id, kind: payload.kind, range: segment?.range });
+    const done = await withJobHeartbeat(job, (signal) =>
+      importMaskFile({
+        inputPath,
+        kind: payload.kind,
+        width,
+        height,
+        fps,
+        durationSeconds,
+        range: segment?.range,
+        outputPath,
+        signal,
+      }).then(() => true)
+    );
+    if (!done) return;
+  }
+
+  const url = publicMediaUrl(storageKey);
+  const result: MaskJobResult = {
+    mask: { predictionId: job.id, isVideo: true, segment, preview: url, maskUrl: url, maskVideoUrl: url },
+  };
+  await completeJob(job.id, { ...result });
+  fs.rmSync(inputPath, { force: true });
+  console.log("✅ Mask imported:", job.id, storageKey);
+}
+
+/**
+ * 导出二值遮罩（MP4 或 PNG 序列 zip），通过 /api/processing/export-mask/:jobId 下载
+ */
+async function runExportMaskJob(job: Job): Promise<void> {
+  const payload = job.payload as unknown as ExportMaskJobPayload;
+  const storageKey = `mask_export_${job.id}${payload.format === "video" ? ".mp4" : ".zip"}`;
+  const outputPath = path.resolve(OUT_DIR, storageKey);
+  if (!fs.existsSync(outputPath)) {
+    console.log("📤 Exporting mask:", { jobId: job.id, format: payload.format });
+    const maskUrl = localMediaInput(payload.maskUrl);
+    const done = await withJobHeartbeat(job, (signal) =>
+      exportMaskFile({ maskUrl, format: payload.format, outputPath, signal }).then(() => true)
+    );
+    if (!done) return;
+  }
+
+  const result: ExportMaskJobResult = {
+    storageKey,
+    download: { url: `/api/processing/export-mask/${job.id}`, filename: payload.filename },
+  };
+  await completeJob(job.id, { ...result });
+  console.log("✅ Mask exported:", job.id, storageKey);
+}
+
+/**
+ * 多个对象的遮罩合并为一个，用于一次修复或抠像；与遮罩后处理一样保存到 out/，重试时复用已完成的文件
+ */
+async function runCombineMasksJob(job: Job): Promise<void> {
+  const payload = job.payload as unknown as CombineMasksJobPayload;
+  const maskUrls = payload.masks.flatMap((mask) => mask.maskVideoUrl || mask.maskUrl || []);
+  if (maskUrls.length < 2 || maskUrls.length !== payload.masks.length) {
+    await failJob(job.id, "Missing mask URL");
+    return;
+  }
+
+  const storageKey = `mask_combined_${job.id}.mp4`;
+  const outputPath = path.resolve(OUT_DIR, storageKey);
+  if (!fs.existsSync(outputPath)) {
+    console.log("🧩 Combining masks:", { jobId: job.id, count: maskUrls.length });
+    const done = await withJobHeartbeat(job, (signal) =>
+      combineMaskVideos({ maskUrls: maskUrls.map(localMediaInput), outputPath, signal }).then(() => true)
+    );
+    if (!done) return;
+  }
+
+  const url = publicMediaUrl(storageKey);
+  const [first] = payload.masks;
+  const result: MaskJobResult = {
+    mask: {
+      predictionId: first.predictionId,
+      isVideo: true,
+      segment: first.segment,
+      preview: url,
+      maskUrl: url,
+      maskVideoUrl: url,
+    },
+  };
+  await completeJob(job.id, { ...result });
+  console.log("✅ Masks combined:", job.id, storageKey);
+}
+
+export async function runJob(job: Job): Promise<void> {
+  switch (job.type) {
+    case "generate_mask":
+      return runMaskJob(job);
+    case "refine_mask":
+      return runRefineMaskJob(job);
+    case "combine_masks":
+      return runCombineMasksJob(job);
+    case "edit_mask":
+      return runEditMaskJob(job);
+    case "import_mask":
+      return runImportMaskJob(job);
+    case "export_mask":
+      return runExportMaskJob(job);
+    case "inpaint":
+      return runInpaintJob(job);
+    case "extract":
+      return runExtractJob(job);
+    default:
+      await failJob(job.id, `Unknown job type: ${String(job.type)}`);
+  }
+}
+
+/**
+ * 任务最终失败时同步更新关联的 task 记录，并退还预留的 credits
+ */
+export async function markJobTaskFailed(job: Job, message: string): Promise<void> {
+  if (!job.task_id) return;
+  try {
+    // 已取消的任务保持 cancelled，credits 已在取消时退还
+    if (!(await updateActiveTask(job.task_id, { status: "failed", progress: 0, error_message: message }))) return;
+  } catch (error) {
+    console.warn("⚠️ Failed to update task in database:", error instanceof Error ? error.message : error);
+    return;
+  }
+  await settleCredits(job.task_id, "refund");
+}
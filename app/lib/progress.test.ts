@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { estimateRemainingSeconds, formatEta, parsePredictionProgress } from "~/lib/progress";
+
+describe("parsePredictionProgress", () => {
+  it("returns null without a recognizable counter", () => {
+    assert.equal(parsePredictionProgress(null), null);
+    assert.equal(parsePredictionProgress(""), null);
+    assert.equal(parsePredictionProgress("Loading model weights..."), null);
+    assert.equal(parsePredictionProgress("| 30/20 [00:01<00:02]"), null);
+  });
+
+  it("reads the fraction and remaining time from a tqdm bar", () => {
+    const logs = " 45%|████▌     | 9/20 [00:12<00:15,  1.30s/it]";
+    assert.deepEqual(parsePredictionProgress(logs), { fraction: 0.45, remainingSeconds: 15 });
+  });
+
+  it("reads H:MM:SS remaining times", () => {
+    const logs = " 10%|█         | 1/10 [00:05<1:02:03,  5.00s/it]";
+    assert.equal(parsePredictionProgress(logs)?.remainingSeconds, 3723);
+  });
+
+  it("uses the latest counter in the logs", () => {
+    const logs = ["| 2/20 [00:01<00:20, 1.00s/it]", "Processing frame 150 of 300"].join("\n");
+    assert.deepEqual(parsePredictionProgress(logs), { fraction: 0.5, remainingSeconds: null });
+  });
+
+  it("combines the subvideo index with the progress inside it", () => {
+    const logs = ["subvideo 2/5", " 50%|█████     | 10/20 [00:05<00:05, 2.00it/s]"].join("\n");
+    assert.deepEqual(parsePredictionProgress(logs), { fraction: 0.3, remainingSeconds: null });
+  });
+
+  it("ignores counters logged before the current subvideo", () => {
+    const logs = ["| 20/20 [00:10<00:00, 2.00it/s]", "Sub-video 3 of 4"].join("\n");
+    assert.deepEqual(parsePredictionProgress(logs), { fraction: 0.5, remainingSeconds: null });
+  });
+
+  it("derives the segment from total frames and restarted bars", () => {
+    const logs = [
+      "Loaded video [300 frames]",
+      "| 50/50 [00:10<00:00, 5.00it/s]",
+      "| 10/50 [00:02<00:08, 5.00it/s]",
+    ].join("\n");
+    const progress = parsePredictionProgress(logs, { subvideoLength: 100 });
+    assert.ok(progress && Math.abs(progress.fraction - 0.4) < 1e-9);
+    assert.equal(progress.remainingSeconds, null);
+    assert.deepEqual(parsePredictionProgress(logs), { fraction: 0.2, remainingSeconds: 8 });
+  });
+});
+
+describe("estimateRemainingSeconds", () => {
+  const now = Date.parse("2026-01-01T00:01:00Z");
+  const startedAt = "2026-01-01T00:00:00Z";
+
+  it("prefers the remaining time reported in the logs", () => {
+    assert.equal(estimateRemainingSeconds({ fraction: 0.5, remainingSeconds: 42 }, startedAt, now), 42);
+  });
+
+  it("extrapolates from the elapsed time", () => {
+    assert.equal(estimateRemainingSeconds({ fraction: 0.25, remainingSeconds: null }, startedAt, now), 180);
+  });
+
+  it("gives no estimate with too little progress or no start time", () => {
+    assert.equal(estimateRemainingSeconds({ fraction: 0.01, remainingSeconds: null }, startedAt, now), null);
+    assert.equal(estimateRemainingSeconds({ fraction: 0.5, remainingSeconds: null }, null, now), null);
+  });
+});
+
+describe("formatEta", () => {
+  it("formats seconds, minutes and hours", () => {
+    assert.equal(formatEta(0.2), "约 1 秒");
+    assert.equal(formatEta(30), "约 30 秒");
+    assert.equal(formatEta(150), "约 2 分 30 秒");
+    assert.equal(formatEta(120), "约 2 分钟");
+    assert.equal(formatEta(3720), "约 1 小时 2 分");
+  });
+});
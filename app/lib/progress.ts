@@ -0,0 +1,108 @@
+/**
+ * 从提供方的 logs 解析真实进度：Replicate 只返回 starting / processing / succeeded，没有百分比
+ * 支持的日志格式（取最新的一条）：
+ * - tqdm 进度条：` 45%|████▌     | 9/20 [00:12<00:15,  1.30s/it]`
+ * - 帧计数：`frame 120/300`、`Processing frame 120 of 300`
+ * - 子视频序号：`subvideo 2/5`；日志中没有序号时，由总帧数（`[300 frames]`）和 subvideo_length 推算分段数，
+ *   并按进度条重新从 0 开始的次数计算当前分段
+ * 同一模块在服务端（写入任务）和前端（展示剩余时间）使用
+ */
+
+export interface PredictionProgress {
+  fraction: number; // 0-1
+  remainingSeconds: number | null; // 日志自带的剩余时间（tqdm），多段处理时无法直接使用
+}
+
+interface Counter {
+  index: number; // 在日志中的位置
+  done: number;
+  total: number;
+  remaining: string | null;
+}
+
+const TQDM_PATTERN = /\|\s*(\d+)\/(\d+)(?:\s*\[[^<\]]*<([\d:]+))?/g;
+const FRAME_PATTERN = /frames?\s+(\d+)\s*(?:\/|of)\s*(\d+)/gi;
+const SUBVIDEO_PATTERN = /sub-?video\s*#?(\d+)\s*(?:\/|of)\s*(\d+)/gi;
+const TOTAL_FRAMES_PATTERN = /\[?(\d+)\s+frames\]?/i;
+
+function counters(logs: string, pattern: RegExp): Counter[] {
+  return Array.from(logs.matchAll(pattern), (m) => ({
+    index: m.index ?? 0,
+    done: Number(m[1]),
+    total: Number(m[2]),
+    remaining: m[3] ?? null,
+  })).filter((c) => c.total > 0 && c.done <= c.total);
+}
+
+/**
+ * tqdm 的时间格式：MM:SS 或 H:MM:SS
+ */
+function parseClock(value: string | null): number | null {
+  if (!value) return null;
+  const parts = value.split(":").map(Number);
+  if (parts.some((p) => !Number.isFinite(p))) return null;
+  return parts.reduce((acc, p) => acc * 60 + p, 0);
+}
+
+export function parsePredictionProgress(
+  logs: string | null | undefined,
+  options: { subvideoLength?: number } = {}
+): PredictionProgress | null {
+  if (!logs) return null;
+
+  const bars = counters(logs, TQDM_PATTERN);
+  const frames = counters(logs, FRAME_PATTERN);
+  const latest = [...bars, ...frames].sort((a, b) => a.index - b.index).pop();
+  const subvideo = counters(logs, SUBVIDEO_PATTERN).pop();
+
+  // 日志中有子视频序号：当前分段内的进度只取序号之后的计数
+  if (subvideo) {
+    const inner = latest && latest.index > subvideo.index ? latest.done / latest.total : 0;
+    const completed = Math.max(subvideo.done - 1, 0);
+    return { fraction: clamp((completed + inner) / subvideo.total), remainingSeconds: null };
+  }
+  if (!latest) return null;
+
+  const inner = latest.done / latest.total;
+  const totalFrames = Number(logs.match(TOTAL_FRAMES_PATTERN)?.[1]);
+  const segments =
+    options.subvideoLength && totalFrames > 0 ? Math.ceil(totalFrames / options.subvideoLength) : 1;
+  if (segments > 1 && bars.length > 0) {
+    // 每个分段一条进度条，计数回落即开始了新的分段
+    const completed = bars.filter((bar, i) => i > 0 && bar.done < bars[i - 1].done).length;
+    return { fraction: clamp((Math.min(completed, segments - 1) + inner) / segments), remainingSeconds: null };
+  }
+  return { fraction: clamp(inner), remainingSeconds: parseClock(latest.remaining) };
+}
+
+function clamp(fraction: number): number {
+  return Math.min(Math.max(fraction, 0), 1);
+}
+
+/**
+ * 按已用时间线性估计剩余时间；进度太少时误差过大，不给出估计
+ */
+export function estimateRemainingSeconds(
+  progress: PredictionProgress,
+  startedAt: string | null | undefined,
+  now = Date.now()
+): number | null {
+  if (progress.remainingSeconds !== null) return progress.remainingSeconds;
+  const started = startedAt ? Date.parse(startedAt) : NaN;
+  if (!Number.isFinite(started) || progress.fraction < 0.02) return null;
+  const elapsed = Math.max(now - started, 0) / 1000;
+  return Math.round((elapsed * (1 - progress.fraction)) / progress.fraction);
+}
+
+/**
+ * 剩余时间的展示文字，如“约 2 分 30 秒”
+ */
+export function formatEta(seconds: number): string {
+  if (seconds < 60) return `约 ${Math.max(Math.round(seconds), 1)} 秒`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    const rest = Math.round(seconds % 60);
+    return rest > 0 ? `约 ${minutes} 分 ${rest} 秒` : `约 ${minutes} 分钟`;
+  }
+  return `约 ${Math.floor(minutes / 60)} 小时 ${minutes % 60} 分`;
+}
@@ -0,0 +1,78 @@
+/**
+ * 处理服务提供方注册表
+ *
+ * 通过环境变量选择实现：
+ * - SEGMENTATION_PROVIDER=replicate | mock | local（默认 replicate；兼容旧的 MOCK_SAM3=true）
+ * - INPAINTING_PROVIDER=replicate | mock | local（默认 replicate；兼容旧的 MOCK_PROPAINTER=true）
+ *
+ * 测试时可用 setProcessingProviders 注入假的提供方，无需修改路由代码
+ */
+
+import { createLocalInpaintingProvider, createLocalSegmentationProvider } from "~/lib/providers/local.provider";
+import { createMockInpaintingProvider, createMockSegmentationProvider } from "~/lib/providers/mock.provider";
+import {
+  createReplicateInpaintingProvider,
+  createReplicateSegmentationProvider,
+} from "~/lib/providers/replicate.provider";
+import type { InpaintingProvider, SegmentationProvider } from "~/lib/providers/types";
+
+export * from "~/lib/providers/types";
+
+export type ProviderKind = "replicate" | "mock" | "local";
+
+function isTruthyFlag(value: string | undefined): boolean {
+  return value === "true" || value === "1";
+}
+
+function resolveKind(envName: string, legacyMockEnv: string): ProviderKind {
+  const configured = process.env[envName]?.trim().toLowerCase();
+  if (configured === "replicate" || configured === "mock" || configured === "local") {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`⚠️ Unknown ${envName}="${configured}", falling back to replicate`);
+  }
+  return isTruthyFlag(process.env[legacyMockEnv]) ? "mock" : "replicate";
+}
+
+let segmentationProvider: SegmentationProvider | null = null;
+let inpaintingProvider: InpaintingProvider | null = null;
+
+export function getSegmentationProvider(): SegmentationProvider {
+  if (!segmentationProvider) {
+    const kind = resolveKind("SEGMENTATION_PROVIDER", "MOCK_SAM3");
+    segmentationProvider =
+      kind === "mock"
+        ? createMockSegmentationProvider()
+        : kind === "local"
+          ? createLocalSegmentationProvider()
+          : createReplicateSegmentationProvider();
+    console.log("🧩 Segmentation provider:", segmentationProvider.name);
+  }
+  return segmentationProvider;
+}
+
+export function getInpaintingProvider(): InpaintingProvider {
+  if (!inpaintingProvider) {
+    const kind = resolveKind("INPAINTING_PROVIDER", "MOCK_PROPAINTER");
+    inpaintingProvider =
+      kind === "mock"
+        ? createMockInpaintingProvider()
+        : kind === "local"
+          ? createLocalInpaintingProvider()
+          : createReplicateInpaintingProvider();
+    console.log("🧩 Inpainting provider:", inpaintingProvider.name);
+  }
+  return inpaintingProvider;
+}
+
+/**
+ * 覆盖当前使用的提供方（测试或脚本中注入假实现）；传 null 恢复为按配置创建
+ */
+export function setProcessingProviders(overrides: {
+  segmentation?: SegmentationProvider | null;
+  inpainting?: InpaintingProvider | null;
+}): void {
+  if (overrides.segmentation !== undefined) segmentationProvider = overrides.segmentation;
+  if (overrides.inpainting !== undefined) inpaintingProvider = overrides.inpainting;
+}
@@ -0,0 +1,48 @@
+/**
+ * 本地 HTTP 替身：自托管的、与 Replicate predictions API 兼容的服务
+ * （POST /predictions、GET /predictions/:id、POST /predictions/:id/cancel）
+ * 适用于自建 GPU 推理或在内网用固定响应做联调
+ */
+
+import { createReplicateClient } from "~/lib/replicate.client";
+import {
+  createReplicateInpaintingProvider,
+  createReplicateSegmentationProvider,
+  PROPAINTER_VERSION,
+  SAM3_VERSION,
+} from "~/lib/providers/replicate.provider";
+import { ProviderError, type InpaintingProvider, type SegmentationProvider } from "~/lib/providers/types";
+
+function requireUrl(envName: string): string {
+  const url = process.env[envName];
+  if (!url) {
+    throw new ProviderError(`${envName} not configured`, 500);
+  }
+  return url;
+}
+
+export function createLocalSegmentationProvider(): SegmentationProvider {
+  const provider = createReplicateSegmentationProvider(
+    () =>
+      createReplicateClient({
+        baseUrl: requireUrl("LOCAL_SAM3_URL"),
+        token: process.env.LOCAL_PROVIDER_TOKEN,
+        label: "Local SAM3",
+      }),
+    SAM3_VERSION
+  );
+  return { ...provider, name: "local-sam3" };
+}
+
+export function createLocalInpaintingProvider(): InpaintingProvider {
+  const provider = createReplicateInpaintingProvider(
+    () =>
+      createReplicateClient({
+        baseUrl: requireUrl("LOCAL_PROPAINTER_URL"),
+        token: process.env.LOCAL_PROVIDER_TOKEN,
+        label: "Local ProPainter",
+      }),
+    PROPAINTER_VERSION
+  );
+  return { ...provider, name: "local-propainter" };
+}
@@ -0,0 +1,316 @@
+/**
+ * 模拟提供方：不调用真实 API，用于开发和测试（节省成本）
+ * 输出由本地 ffmpeg 生成（见 mock.render），保存在 out/ 下并通过 /media/ 提供，离线也能使用
+ *
+ * 场景（用于测试错误路径）：
+ *   MOCK_SCENARIO - 两个提供方共用的场景（默认: normal）
+ *   MOCK_SAM3_SCENARIO / MOCK_PROPAINTER_SCENARIO - 单独覆盖某个提供方
+ *
+ *   normal     - 正常完成
+ *   slow       - 耗时为正常的 10 倍
+ *   fail@<N>   - 进度到 N% 时失败，如 fail@50
+ *   timeout    - 一直处于 processing，直到被取消或任务超时
+ */
+
+import fs from "fs";
+import path from "path";
+import { OUT_DIR } from "~/lib/media.server";
+import { renderMockInpaint, renderMockMask } from "~/lib/providers/mock.render";
+import type {
+  InpaintingProvider,
+  Prediction,
+  PredictionProvider,
+  SegmentationProvider,
+} from "~/lib/providers/types";
+import { publicMediaUrl } from "~/lib/segment.server";
+
+export type MockScenario =
+  | { kind: "normal" }
+  | { kind: "slow" }
+  | { kind: "fail"; atPercent: number }
+  | { kind: "timeout" };
+
+const SLOW_FACTOR = 10;
+
+/**
+ * 解析场景配置，无法识别时按 normal 处理
+ */
+export function parseMockScenario(value: string | undefined): MockScenario {
+  const raw = value?.trim().toLowerCase();
+  if (!raw || raw === "normal") return { kind: "normal" };
+  if (raw === "slow") return { kind: "slow" };
+  if (raw === "timeout") return { kind: "timeout" };
+  const fail = raw.match(/^fail(?:@(\d{1,3}))?$/);
+  if (fail) {
+    return { kind: "fail", atPercent: Math.min(Number(fail[1] ?? 0), 100) };
+  }
+  console.warn(`⚠️ Unknown mock scenario "${value}", using normal`);
+  return { kind: "normal" };
+}
+
+function scenarioFor(envName: string): MockScenario {
+  return parseMockScenario(process.env[envName] || process.env.MOCK_SCENARIO);
+}
+
+/**
+ * prediction 的状态保存在 out/mock_<id>.json：web 进程（取消、查询）和 worker 进程（创建、轮询）都能读取
+ * 状态由创建时间和场景推算，文件只记录不能推算的部分（渲染结果、渲染错误）
+ * 取消写入单独的 out/mock_<id>.cancel 标记，不与 worker 的写入冲突
+ * 渲染进程退出（如 worker 重启）后，下一次查询时由查询的进程按保存的输入重新渲染
+ */
+interface MockPredictionState {
+  id: string;
+  createdAt: number;
+  scenario: MockScenario;
+  input: unknown; // 创建时的输入，重新渲染时使用
+  storageKey: string; // 输出文件
+  renderPid: number; // 正在渲染的进程
+  rendered: boolean; // 输出文件是否已生成
+  error?: string; // 渲染失败
+}
+
+function statePath(id: string): string {
+  return path.resolve(OUT_DIR, `mock_${path.basename(id)}.json`);
+}
+
+function cancelMarkerPath(id: string): string {
+  return path.resolve(OUT_DIR, `mock_${path.basename(id)}.cancel`);
+}
+
+function readState(id: string): MockPredictionState | null {
+  try {
+    return JSON.parse(fs.readFileSync(statePath(id), "utf8")) as MockPredictionState;
+  } catch {
+    return null;
+  }
+}
+
+// 先写临时文件再重命名，其他进程不会读到写了一半的状态
+function writeState(state: MockPredictionState): void {
+  const tmpPath = `${statePath(state.id)}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(state));
+  fs.renameSync(tmpPath, statePath(state.id));
+}
+
+/**
+ * 进程是否仍在运行（模拟模式下 web 和 worker 在同一台机器上）
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM：进程存在但属于其他用户
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+function mockId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * 失败或取消的 prediction 不保留输出文件
+ */
+function discard(state: MockPredictionState): void {
+  fs.rm(path.resolve(OUT_DIR, state.storageKey), { force: true }, () => undefined);
+}
+
+/**
+ * 模拟 tqdm 风格的进度日志
+ */
+function progressLogs(percent: number): string {
+  const bars = Math.floor(percent / 10);
+  return `${percent}%|${"█".repeat(bars)}${" ".repeat(10 - bars)}| ${percent}/100`;
+}
+
+/**
+ * 通用的模拟 prediction 生命周期：create 时在后台渲染输出，状态按耗时和场景推进
+ * 0 - startingMs: starting，之后 processing，耗时达到 durationMs 且输出已生成时 succeeded
+ */
+function createMockProvider<TInput>(options: {
+  name: string;
+  idPrefix: string;
+  scenarioEnv: string;
+  startingMs: number;
+  durationMs: number;
+  render: (input: TInput, outputPath: string, signal: AbortSignal) => Promise<void>;
+}): PredictionProvider<TInput> {
+  // 本进程中正在渲染的 prediction，取消或失败时中止 ffmpeg
+  const renders = new Map<string, AbortController>();
+  const notFound = (predictionId: string): Prediction => ({
+    id: predictionId,
+    status: "failed",
+    error: "Prediction not found",
+  });
+
+  const stopRender = (state: MockPredictionState) => {
+    renders.get(state.id)?.abort();
+    renders.delete(state.id);
+    discard(state);
+  };
+
+  /**
+   * 在本进程中后台渲染输出，完成后写入状态文件
+   */
+  const startRender = (state: MockPredictionState) => {
+    const abort = new AbortController();
+    renders.set(state.id, abort);
+    writeState(state);
+    options
+      .render(state.input as TInput, path.resolve(OUT_DIR, state.storageKey), abort.signal)
+      .then(() => {
+        // 渲染完成前已失败或取消
+        const status = currentPrediction(state).status;
+        if (status === "failed" || status === "canceled") {
+          discard(state);
+          return;
+        }
+        writeState({ ...state, rendered: true });
+      })
+      .catch((error: unknown) => {
+        discard(state);
+        if (abort.signal.aborted) return;
+        const message = `Mock render failed: ${error instanceof Error ? error.message : String(error)}`;
+        writeState({ ...state, error: message });
+        console.error(`❌ [MOCK] ${options.name} render failed:`, state.id, message);
+      })
+      .finally(() => renders.delete(state.id));
+  };
+
+  /**
+   * 由状态文件、取消标记和经过的时间推算当前状态
+   */
+  const currentPrediction = (state: MockPredictionState): Prediction => {
+    const { scenario } = state;
+    const durationMs = options.durationMs * (scenario.kind === "slow" ? SLOW_FACTOR : 1);
+    const elapsed = Date.now() - state.createdAt;
+    // 进度只计算 processing 阶段，与真实提供方的日志一致
+    const processingMs = Math.max(durationMs - options.startingMs, 1);
+    const percent = Math.min(100, Math.max(0, Math.floor(((elapsed - options.startingMs) / processingMs) * 100)));
+    const prediction: Prediction = {
+      id: state.id,
+      status: "starting",
+      created_at: new Date(state.createdAt).toISOString(),
+      logs: progressLogs(percent),
+    };
+    if (elapsed >= options.startingMs) {
+      prediction.started_at = new Date(state.createdAt + options.startingMs).toISOString();
+    }
+
+    if (fs.existsSync(cancelMarkerPath(state.id))) {
+      stopRender(state);
+      return { ...prediction, status: "canceled" };
+    }
+    if (state.error) {
+      return { ...prediction, status: "failed", error: state.error };
+    }
+    if (scenario.kind === "fail" && percent >= scenario.atPercent) {
+      stopRender(state);
+      return { ...prediction, status: "failed", error: `Mock failure at ${scenario.atPercent}%` };
+    }
+    if (elapsed < options.startingMs) {
+      return prediction;
+    }
+    // 渲染的进程已经退出，输出不会再生成：在本进程中重新渲染
+    if (
+      scenario.kind !== "timeout" &&
+      percent >= 100 &&
+      !state.rendered &&
+      !renders.has(state.id) &&
+      !isProcessAlive(state.renderPid)
+    ) {
+      console.log(`🎭 [MOCK] ${options.name} render lost, restarting:`, state.id);
+      startRender({ ...state, renderPid: process.pid });
+    }
+    if (scenario.kind === "timeout" || percent < 100 || !state.rendered) {
+      return { ...prediction, status: "processing", logs: progressLogs(Math.min(percent, 99)) };
+    }
+    return { ...prediction, status: "succeeded", output: [publicMediaUrl(state.storageKey)] };
+  };
+
+  return {
+    name: options.name,
+    async create(input) {
+      const scenario = scenarioFor(options.scenarioEnv);
+      const id = mockId(options.idPrefix);
+      const state: MockPredictionState = {
+        id,
+        createdAt: Date.now(),
+        scenario,
+        input,
+        storageKey: `mock_${id}.mp4`,
+        renderPid: process.pid,
+        rendered: false,
+      };
+      console.log(`🎭 [MOCK] ${options.name} prediction created:`, id, scenario.kind);
+      console.log("🎭 [MOCK] Input:", JSON.stringify(input, null, 2).slice(0, 2000));
+      startRender(state);
+      return {
+        ...currentPrediction(state),
+        urls: {
+          get: `/api/processing/task/${id}`,
+          cancel: `/api/processing/task/${id}/cancel`,
+        },
+      };
+    },
+    async getStatus(predictionId) {
+      const state = readState(predictionId);
+      return state ? currentPrediction(state) : notFound(predictionId);
+    },
+    async cancel(predictionId) {
+      const state = readState(predictionId);
+      if (!state) return notFound(predictionId);
+      const prediction = currentPrediction(state);
+      if (prediction.status !== "starting" && prediction.status !== "processing") return prediction;
+      // 渲染所在的进程（worker）在下一次查询时发现标记并中止 ffmpeg
+      fs.writeFileSync(cancelMarkerPath(predictionId), "");
+      return currentPrediction(state);
+    },
+  };
+}
+
+/**
+ * 模拟 SAM3：根据 visual prompt 生成矩形遮罩（SAM3 通常很快）
+ */
+export function createMockSegmentationProvider(): SegmentationProvider {
+  return createMockProvider({
+    name: "mock-sam3",
+    idPrefix: "mock-sam3",
+    scenarioEnv: "MOCK_SAM3_SCENARIO",
+    startingMs: 0,
+    durationMs: 1000,
+    render: (input, outputPath, signal) =>
+      renderMockMask({
+        video: input.video,
+        visualPrompt: input.visualPrompt,
+        maskOnly: input.maskOnly,
+        maskOpacity: input.maskOpacity,
+        outputPath,
+        signal,
+      }),
+  });
+}
+
+/**
+ * 模拟 ProPainter：模糊遮罩区域
+ * 0-2秒: starting，2-8秒: processing，8秒后（且输出已生成）: succeeded
+ */
+export function createMockInpaintingProvider(): InpaintingProvider {
+  return createMockProvider({
+    name: "mock-propainter",
+    idPrefix: "mock",
+    scenarioEnv: "MOCK_PROPAINTER_SCENARIO",
+    startingMs: 2000,
+    durationMs: 8000,
+    render: (input, outputPath, signal) =>
+      renderMockInpaint({
+        video: input.video,
+        mask: input.mask,
+        resizeRatio: input.resizeRatio,
+        saveFps: input.saveFps,
+        outputPath,
+        signal,
+      }),
+  });
+}
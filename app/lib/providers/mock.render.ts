@@ -0,0 +1,281 @@
+/**
+ * 模拟提供方的本地渲染：用 ffmpeg 从输入视频生成真实的遮罩和“修复”结果，离线也能跑通完整流程
+ * - 遮罩：根据 visual prompt 的正例点生成逐帧移动的矩形区域（没有点时取画面中央）
+ * - 修复：对遮罩区域做模糊填充，并按 ProPainter 的方式缩小分辨率、以 save_fps 输出、不带音轨
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { OUT_DIR, probeMedia, runFfmpeg } from "~/lib/media.server";
+import { getBackendPublicUrl } from "~/utils/backend-url";
+
+const IMAGE_EXTENSIONS = [".png", ".jpg", ".jpeg", ".webp", ".bmp"];
+
+export interface MaskRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * 把输入地址解析为 ffmpeg 可读的本地路径：
+ * - 本服务 /media/ 下的文件直接读取 out/，不经过网络
+ * - data: URL（单帧预览的截图）写入临时文件，命令行参数放不下 base64
+ * 返回的 cleanup 用于删除临时文件
+ */
+export function resolveMediaInput(url: string): { input: string; isImage: boolean; cleanup: () => void } {
+  if (url.startsWith("data:")) {
+    const match = url.match(/^data:image\/(\w+);base64,(.*)$/);
+    if (!match) {
+      throw new Error("Unsupported data URL");
+    }
+    const tmpPath = path.join(os.tmpdir(), `mock-input-${Date.now()}-${Math.random().toString(36).slice(2)}.${match[1]}`);
+    fs.writeFileSync(tmpPath, Buffer.from(match[2], "base64"));
+    return { input: tmpPath, isImage: true, cleanup: () => fs.rmSync(tmpPath, { force: true }) };
+  }
+
+  const mediaPrefix = `${getBackendPublicUrl()}/media/`;
+  let input = url;
+  if (url.startsWith(mediaPrefix)) {
+    const localPath = path.resolve(OUT_DIR, path.basename(decodeURIComponent(url.slice(mediaPrefix.length))));
+    if (fs.existsSync(localPath)) input = localPath;
+  }
+  const ext = path.extname(new URL(input, "file:///").pathname).toLowerCase();
+  return { input, isImage: IMAGE_EXTENSIONS.includes(ext), cleanup: () => undefined };
+}
+
+type FramePrompt = {
+  points?: Array<[number, number]>;
+  labels?: number[];
+  boxes?: Array<[number, number, number, number]>;
+  frame_index?: number;
+};
+
+/**
+ * 某一帧上的遮罩矩形（关键帧），帧序号与输入视频一致
+ */
+export interface MaskKeyframe {
+  frame: number;
+  rect: MaskRect;
+}
+
+// 模拟遮罩按帧分段绘制，段数上限避免滤镜过长
+const MAX_MASK_STEPS = 60;
+// 只有一个关键帧时，矩形左右往返一次的时长（秒），模拟对象移动
+const SWAY_PERIOD_SECONDS = 4;
+
+/**
+ * 包住正例点并向外扩展，至少占画面的 15%；框选区域按四个角计入正例点
+ */
+function rectFromFrame(frame: FramePrompt, width: number, height: number): MaskRect | null {
+  const points = [
+    ...(frame.points || []).filter((_, i) => (frame.labels?.[i] ?? 1) === 1),
+    ...(frame.boxes || []).flatMap(([x1, y1, x2, y2]): Array<[number, number]> => [
+      [x1, y1],
+      [x2, y2],
+    ]),
+  ];
+  if (points.length === 0) return null;
+
+  const xs = points.map((p) => p[0]);
+  const ys = points.map((p) => p[1]);
+  const minW = width * 0.15;
+  const minH = height * 0.15;
+  const w = Math.max(Math.max(...xs) - Math.min(...xs) + width * 0.1, minW);
+  const h = Math.max(Math.max(...ys) - Math.min(...ys) + height * 0.1, minH);
+  const cx = (Math.max(...xs) + Math.min(...xs)) / 2;
+  const cy = (Math.max(...ys) + Math.min(...ys)) / 2;
+  const x = Math.min(Math.max(cx - w / 2, 0), Math.max(width - w, 0));
+  const y = Math.min(Math.max(cy - h / 2, 0), Math.max(height - h, 0));
+  return { x, y, w: Math.min(w, width), h: Math.min(h, height) };
+}
+
+/**
+ * 由 visual prompt 计算各关键帧的遮罩矩形，按帧序号排序
+ * 多帧的 visual prompt（数组）每帧一个关键帧，没有正例点时取画面中央 1/3
+ */
+export function maskKeyframesFromPrompt(visualPrompt: string | undefined, width: number, height: number): MaskKeyframe[] {
+  const fallback = [{ frame: 0, rect: { x: width / 3, y: height / 3, w: width / 3, h: height / 3 } }];
+  if (!visualPrompt) return fallback;
+
+  let frames: FramePrompt[];
+  try {
+    const parsed = JSON.parse(visualPrompt) as FramePrompt | FramePrompt[];
+    frames = Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    return fallback;
+  }
+  const keyframes = frames
+    .map((frame) => ({ frame: frame.frame_index ?? 0, rect: rectFromFrame(frame, width, height) }))
+    .filter((keyframe): keyframe is MaskKeyframe => keyframe.rect !== null)
+    .sort((a, b) => a.frame - b.frame);
+  return keyframes.length > 0 ? keyframes : fallback;
+}
+
+/**
+ * 第 frame 帧的遮罩矩形，模拟 SAM3 跟踪对象：
+ * - 多个关键帧时在相邻关键帧之间线性插值，第一个之前和最后一个之后保持不变
+ * - 只有一个关键帧时以它为中心左右往返（周期 swayFrames 帧），让遮罩逐帧变化
+ */
+export function maskRectAtFrame(
+  keyframes: MaskKeyframe[],
+  frame: number,
+  swayFrames: number,
+  width: number
+): MaskRect {
+  if (keyframes.length === 1) {
+    const { rect } = keyframes[0];
+    const offset = Math.sin((2 * Math.PI * (frame - keyframes[0].frame)) / Math.max(swayFrames, 1)) * rect.w * 0.25;
+    return { ...rect, x: Math.min(Math.max(rect.x + offset, 0), Math.max(width - rect.w, 0)) };
+  }
+  const nextIndex = keyframes.findIndex((keyframe) => keyframe.frame > frame);
+  if (nextIndex === 0) return keyframes[0].rect;
+  if (nextIndex === -1) return keyframes[keyframes.length - 1].rect;
+  const prev = keyframes[nextIndex - 1];
+  const next = keyframes[nextIndex];
+  const ratio = (frame - prev.frame) / (next.frame - prev.frame);
+  const lerp = (a: number, b: number) => a + (b - a) * ratio;
+  return {
+    x: lerp(prev.rect.x, next.rect.x),
+    y: lerp(prev.rect.y, next.rect.y),
+    w: lerp(prev.rect.w, next.rect.w),
+    h: lerp(prev.rect.h, next.rect.h),
+  };
+}
+
+function drawbox(rect: MaskRect, color: string, enable?: string): string {
+  const box = `drawbox=x=${Math.round(rect.x)}:y=${Math.round(rect.y)}:w=${Math.round(rect.w)}:h=${Math.round(rect.h)}:color=${color}:t=fill`;
+  return enable ? `${box}:enable='${enable}'` : box;
+}
+
+/**
+ * 逐段绘制跟踪的矩形：每段若干帧，段内使用段中间那一帧的位置
+ */
+function trackedBoxes(
+  keyframes: MaskKeyframe[],
+  frameCount: number,
+  fps: number,
+  width: number,
+  color: string
+): string[] {
+  const step = Math.max(1, Math.ceil(frameCount / MAX_MASK_STEPS));
+  const boxes: string[] = [];
+  for (let start = 0; start < frameCount; start += step) {
+    const rect = maskRectAtFrame(keyframes, start + (step - 1) / 2, fps * SWAY_PERIOD_SECONDS, width);
+    // 最后一段覆盖到视频结束（探测的帧数可能略少于实际帧数）
+    const enable =
+      start + step >= frameCount ? `gte(n\\,${start})` : `between(n\\,${start}\\,${start + step - 1})`;
+    boxes.push(drawbox(rect, color, frameCount > 1 ? enable : undefined));
+  }
+  return boxes;
+}
+
+/**
+ * maskOnly 时输出黑底白色矩形的纯遮罩视频，否则输出叠加半透明红色矩形的可视化遮罩
+ * 矩形随帧移动（见 maskRectAtFrame）
+ */
+export async function renderMockMask(options: {
+  video: string;
+  visualPrompt?: string;
+  maskOnly: boolean;
+  maskOpacity?: number;
+  outputPath: string;
+  signal?: AbortSignal;
+}): Promise<void> {
+  const { input, isImage, cleanup } = resolveMediaInput(options.video);
+  try {
+    const { width, height, fps, durationSeconds } = await probeMedia(input);
+    if (!width || !height) {
+      throw new Error(`Unable to read input size: ${options.video}`);
+    }
+    const keyframes = maskKeyframesFromPrompt(options.visualPrompt, width, height);
+    const frameRate = fps || 25;
+    const frameCount = isImage ? 1 : Math.max(1, Math.round((durationSeconds || 1) * frameRate));
+    const boxes = trackedBoxes(
+      keyframes,
+      frameCount,
+      frameRate,
+      width,
+      options.maskOnly ? "white" : `red@${options.maskOpacity ?? 0.5}`
+    );
+    const filter = options.maskOnly
+      ? ["drawbox=x=0:y=0:w=iw:h=ih:color=black:t=fill", ...boxes].join(",")
+      : boxes.join(",");
+    // 图片输入输出为 1 秒的视频，与 SAM3 的行为一致（前端从视频中取第一帧作为预览）
+    const inputArgs = isImage ? ["-loop", "1", "-t", "1", "-i", input] : ["-i", input];
+    await runFfmpeg(
+      [
+        ...inputArgs,
+        "-vf",
+        `${filter},scale=trunc(iw/2)*2:trunc(ih/2)*2,format=yuv420p`,
+        "-an",
+        "-c:v",
+        "libx264",
+        "-preset",
+        "veryfast",
+        options.outputPath,
+      ],
+      options.signal
+    );
+  } finally {
+    cleanup();
+  }
+}
+
+/**
+ * 模糊遮罩区域作为“修复”结果
+ */
+export async function renderMockInpaint(options: {
+  video: string;
+  mask: string;
+  resizeRatio: number;
+  saveFps: number;
+  outputPath: string;
+  signal?: AbortSignal;
+}): Promise<void> {
+  const video = resolveMediaInput(options.video);
+  const mask = resolveMediaInput(options.mask);
+  try {
+    const { width, height } = await probeMedia(video.input);
+    if (!width || !height) {
+      throw new Error(`Unable to read input size: ${options.video}`);
+    }
+    const ratio = options.resizeRatio > 0 ? options.resizeRatio : 1;
+    const outW = Math.max(2, Math.round((width * ratio) / 2) * 2);
+    const outH = Math.max(2, Math.round((height * ratio) / 2) * 2);
+    const filter = [
+      "[0:v]split[base][toblur]",
+      "[toblur]boxblur=20:2[blurred]",
+      `[1:v]scale=${width}:${height},format=gray[alpha]`,
+      "[blurred][alpha]alphamerge[patch]",
+      // 与 ProPainter 一致：按帧输出到 save_fps、缩小分辨率
+      `[base][patch]overlay=shortest=1,setpts=N/(${options.saveFps}*TB),scale=${outW}:${outH},format=yuv420p[out]`,
+    ].join(";");
+    await runFfmpeg(
+      [
+        "-i",
+        video.input,
+        "-i",
+        mask.input,
+        "-filter_complex",
+        filter,
+        "-map",
+        "[out]",
+        "-r",
+        String(options.saveFps),
+        "-an",
+        "-c:v",
+        "libx264",
+        "-preset",
+        "veryfast",
+        options.outputPath,
+      ],
+      options.signal
+    );
+  } finally {
+    video.cleanup();
+    mask.cleanup();
+  }
+}
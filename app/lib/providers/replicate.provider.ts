@@ -0,0 +1,102 @@
+import {
+  createReplicateClient,
+  REPLICATE_API_URL,
+  type PredictionWebhook,
+  type ReplicateClient,
+} from "~/lib/replicate.client";
+import {
+  ProviderError,
+  type InpaintingInput,
+  type InpaintingProvider,
+  type SegmentationInput,
+  type SegmentationProvider,
+} from "~/lib/providers/types";
+
+// SAM3 模型版本 https://replicate.com/lucataco/sam3-video
+export const SAM3_VERSION =
+  process.env.SAM3_MODEL_VERSION || "8cbab4c2a3133e679b5b863b80527f6b5c751ec7b33681b7e0b7c79c749df961";
+
+// ProPainter 模型版本
+export const PROPAINTER_VERSION =
+  process.env.PROPAINTER_MODEL_VERSION || "e5ea7ae04e97c96a0e14c70d8e4cb899abdf326a377c01f1c10966ccd6c6bae4";
+
+/**
+ * 转换为 SAM3 的输入字段
+ */
+export function toSam3Input(input: SegmentationInput): Record<string, unknown> {
+  const sam3Input: Record<string, unknown> = {
+    video: input.video,
+    prompt: input.prompt,
+    mask_only: input.maskOnly,
+    mask_opacity: input.maskOpacity ?? 0.5,
+  };
+  if (input.negativePrompt) sam3Input.negative_prompt = input.negativePrompt;
+  if (input.visualPrompt) sam3Input.visual_prompt = input.visualPrompt;
+  return sam3Input;
+}
+
+/**
+ * 转换为 ProPainter 的输入字段
+ */
+export function toProPainterInput(input: InpaintingInput): Record<string, unknown> {
+  return {
+    video: input.video,
+    mask: input.mask,
+    mode: input.mode,
+    fp16: input.fp16,
+    resize_ratio: input.resizeRatio,
+    subvideo_length: input.subvideoLength,
+    save_fps: input.saveFps,
+  };
+}
+
+function requireToken(): string {
+  const token = process.env.REPLICATE_API_TOKEN;
+  if (!token) {
+    throw new ProviderError("REPLICATE_API_TOKEN not configured", 500);
+  }
+  return token;
+}
+
+/**
+ * 配置了 PROCESSING_WEBHOOK_URL 时，让提供方在 prediction 状态变化时回调 /api/processing/webhook
+ * 未配置时（如本地开发无公网地址）完全依赖 worker 轮询
+ */
+export function processingWebhook(): PredictionWebhook | undefined {
+  const url = process.env.PROCESSING_WEBHOOK_URL;
+  if (!url) return undefined;
+  return { url, events: ["start", "completed"] };
+}
+
+// 每次调用时读取 token，避免模块加载早于 dotenv
+function replicateClient(): ReplicateClient {
+  return createReplicateClient({
+    baseUrl: REPLICATE_API_URL,
+    token: requireToken(),
+    label: "Replicate",
+  });
+}
+
+export function createReplicateSegmentationProvider(
+  client: () => ReplicateClient = replicateClient,
+  version: string = SAM3_VERSION
+): SegmentationProvider {
+  return {
+    name: "replicate-sam3",
+    create: (input) => client().createPrediction(version, toSam3Input(input), processingWebhook()),
+    getStatus: (id) => client().getPrediction(id),
+    cancel: (id) => client().cancelPrediction(id),
+  };
+}
+
+export function createReplicateInpaintingProvider(
+  client: () => ReplicateClient = replicateClient,
+  version: string = PROPAINTER_VERSION
+): InpaintingProvider {
+  return {
+    name: "replicate-propainter",
+    create: (input) => client().createPrediction(version, toProPainterInput(input), processingWebhook()),
+    getStatus: (id) => client().getPrediction(id),
+    cancel: (id) => client().cancelPrediction(id),
+  };
+}
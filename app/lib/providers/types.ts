@@ -0,0 +1,75 @@
+/**
+ * 分割（SAM3）与修复（ProPainter）服务提供方的通用接口
+ * 路由只依赖这些接口，具体实现（Replicate / 模拟 / 本地 HTTP 替身）由配置决定
+ */
+
+export type PredictionStatus = "starting" | "processing" | "succeeded" | "failed" | "canceled";
+
+/**
+ * 与 Replicate prediction 对象保持一致的最小结构
+ */
+export interface Prediction {
+  id: string;
+  status: PredictionStatus;
+  output?: string[] | string | null;
+  error?: string | null;
+  logs?: string | null;
+  metrics?: Record<string, number>;
+  created_at?: string;
+  started_at?: string | null; // 开始处理的时间，用于估计剩余时间
+  urls?: {
+    get?: string;
+    cancel?: string;
+  };
+}
+
+export interface SegmentationInput {
+  video: string; // 视频 URL；单帧预览时为图片 URL（SAM3 只接受 video 字段）
+  prompt: string;
+  maskOnly: boolean; // true 返回纯遮罩给 ProPainter，false 返回带颜色的可视化遮罩
+  maskOpacity?: number; // 仅在 maskOnly 为 false 时有效
+  negativePrompt?: string;
+  visualPrompt?: string; // SAM3 visual_prompt JSON 字符串
+}
+
+export interface InpaintingInput {
+  video: string;
+  mask: string;
+  mode: "video_inpainting" | "video_outpainting";
+  fp16: boolean;
+  resizeRatio: number;
+  subvideoLength: number;
+  saveFps: number;
+}
+
+export interface PredictionProvider<TInput> {
+  readonly name: string;
+  create(input: TInput): Promise<Prediction>;
+  getStatus(predictionId: string): Promise<Prediction>;
+  cancel(predictionId: string): Promise<Prediction>;
+}
+
+export type SegmentationProvider = PredictionProvider<SegmentationInput>;
+export type InpaintingProvider = PredictionProvider<InpaintingInput>;
+
+/**
+ * 提供方调用失败，status 为上游 HTTP 状态码（无法确定时为 500）
+ */
+export class ProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+  }
+}
+
+/**
+ * 取第一个输出 URL（Replicate 既可能返回字符串也可能返回数组）
+ */
+export function firstOutputUrl(prediction: Prediction): string | undefined {
+  const output = prediction.output;
+  if (Array.isArray(output)) return output[0];
+  return output || undefined;
+}
@@ -1 +1,123 @@
+/**
+ * Replicate 预测 API 客户端
+ * 同时用于自托管的 Replicate 兼容服务（本地 HTTP 替身），只需替换 baseUrl
+ *
+ * 临时错误在请求内有限次重试（指数退避，遵循 Retry-After），仍失败时抛出 ProviderError，由 worker 按 job 重试
+ * 创建 prediction 只在 429 时重试：5xx 或网络错误时 prediction 可能已经创建，重试会产生重复的付费任务
+ *
+ * 环境变量：
+ *   PROVIDER_MAX_RETRIES - 单次请求的最大重试次数（默认: 2）
+ *   PROVIDER_RETRY_BASE_MS - 重试退避基数，按 2^n 增长（默认: 500）
+ */
 
+import { ProviderError, type Prediction } from "~/lib/providers/types";
+
+export const REPLICATE_API_URL = "https://api.replicate.com/v1";
+
+const MAX_RETRIES = envCount("PROVIDER_MAX_RETRIES", 2);
+const RETRY_BASE_MS = Number(process.env.PROVIDER_RETRY_BASE_MS) || 500;
+const RETRY_MAX_DELAY_MS = 10 * 1000;
+
+function envCount(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 重试等待时间：优先使用 Retry-After（秒），否则指数退避
+ */
+function retryDelay(attempt: number, response?: Response): number {
+  const retryAfter = Number(response?.headers.get("Retry-After"));
+  const delay = Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : RETRY_BASE_MS * 2 ** attempt;
+  return Math.min(delay, RETRY_MAX_DELAY_MS);
+}
+
+export interface ReplicateClientOptions {
+  baseUrl: string;
+  token?: string; // 本地替身可以不需要 token
+  label: string; // 用于日志和错误信息，如 "Replicate"、"Local SAM3"
+}
+
+/**
+ * prediction 状态变化时的回调配置
+ */
+export interface PredictionWebhook {
+  url: string;
+  events: Array<"start" | "output" | "logs" | "completed">;
+}
+
+export interface ReplicateClient {
+  createPrediction(
+    version: string,
+    input: Record<string, unknown>,
+    webhook?: PredictionWebhook
+  ): Promise<Prediction>;
+  getPrediction(id: string): Promise<Prediction>;
+  cancelPrediction(id: string): Promise<Prediction>;
+}
+
+export function createReplicateClient(options: ReplicateClientOptions): ReplicateClient {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+
+  const headers = (): Record<string, string> => {
+    const h: Record<string, string> = { "Content-Type": "application/json" };
+    if (options.token) {
+      h.Authorization = `Token ${options.token}`;
+    }
+    return h;
+  };
+
+  // 统一处理非 2xx 响应，保留上游状态码供路由返回
+  // retryServerErrors 为 false 时只重试 429（请求被拒绝，确定没有产生副作用）
+  const request = async (path: string, init: RequestInit, retryServerErrors = true): Promise<Prediction> => {
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}${path}`, { ...init, headers: headers() });
+      } catch (error) {
+        if (!retryServerErrors || attempt >= MAX_RETRIES) throw error;
+        const delay = retryDelay(attempt);
+        console.warn(`⚠️ ${options.label} network error, retrying in ${delay}ms:`, error instanceof Error ? error.message : error);
+        await sleep(delay);
+        continue;
+      }
+      if (response.ok) {
+        return (await response.json()) as Prediction;
+      }
+
+      const error = await response.text().catch(() => "");
+      const retryable = response.status === 429 || (retryServerErrors && response.status >= 500);
+      if (retryable && attempt < MAX_RETRIES) {
+        const delay = retryDelay(attempt, response);
+        console.warn(`⚠️ ${options.label} API error ${response.status}, retrying in ${delay}ms`);
+        await sleep(delay);
+        continue;
+      }
+      console.error(`❌ ${options.label} API error:`, response.status, error);
+      throw new ProviderError(`${options.label} API error: ${response.status} - ${error}`, response.status);
+    }
+  };
+
+  return {
+    createPrediction(version, input, webhook) {
+      return request("/predictions", {
+        method: "POST",
+        body: JSON.stringify({
+          version,
+          input,
+          ...(webhook ? { webhook: webhook.url, webhook_events_filter: webhook.events } : {}),
+        }),
+      }, false);
+    },
+    getPrediction(id) {
+      return request(`/predictions/${encodeURIComponent(id)}`, { method: "GET" });
+    },
+    cancelPrediction(id) {
+      return request(`/predictions/${encodeURIComponent(id)}/cancel`, { method: "POST" });
+    },
+  };
+}
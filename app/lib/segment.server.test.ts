@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { MIN_RANGE_SECONDS, normalizeRange } from "~/lib/segment.server";
+
+describe("normalizeRange", () => {
+  it("returns null without a range", () => {
+    assert.equal(normalizeRange(null, 10), null);
+    assert.equal(normalizeRange(undefined, 10), null);
+  });
+
+  it("keeps a range inside the video", () => {
+    assert.deepEqual(normalizeRange({ start: 2, end: 5 }, 10), { start: 2, end: 5 });
+  });
+
+  it("clamps the range to the video duration", () => {
+    assert.deepEqual(normalizeRange({ start: -3, end: 5 }, 10), { start: 0, end: 5 });
+    assert.deepEqual(normalizeRange({ start: 4, end: 30 }, 10), { start: 4, end: 10 });
+  });
+
+  it("returns null when the range covers the whole video", () => {
+    assert.equal(normalizeRange({ start: 0, end: 10 }, 10), null);
+    assert.equal(normalizeRange({ start: -1, end: 12 }, 10), null);
+  });
+
+  it("returns null for ranges shorter than the minimum", () => {
+    assert.equal(normalizeRange({ start: 3, end: 3 + MIN_RANGE_SECONDS / 2 }, 10), null);
+    assert.equal(normalizeRange({ start: 6, end: 4 }, 10), null);
+    assert.equal(normalizeRange({ start: 9.8, end: 12 }, 10), null);
+  });
+
+  it("returns null for non-numeric bounds", () => {
+    assert.equal(normalizeRange({ start: Number.NaN, end: 5 }, 10), null);
+    assert.equal(normalizeRange({ start: 1, end: Number.POSITIVE_INFINITY }, null), null);
+    assert.equal(normalizeRange({ start: "a", end: 5 } as unknown as { start: number; end: number }, 10), null);
+  });
+
+  it("keeps the end as given when the duration is unknown", () => {
+    assert.deepEqual(normalizeRange({ start: 0, end: 8 }, null), { start: 0, end: 8 });
+    assert.deepEqual(normalizeRange({ start: 1, end: 8 }, 0), { start: 1, end: 8 });
+  });
+});
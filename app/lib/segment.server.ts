@@ -0,0 +1,83 @@
+import fs from "fs";
+import path from "path";
+import { OUT_DIR, runFfmpeg } from "~/lib/media.server";
+import { getBackendPublicUrl } from "~/utils/backend-url";
+
+/**
+ * 按时间范围处理：只把入点到出点之间的片段交给 SAM3 / ProPainter，
+ * 处理完成后再合成回原视频（见 inpaint.server），成本和耗时只与受影响的范围相关
+ */
+
+export interface TimeRange {
+  start: number; // 秒
+  end: number; // 秒
+}
+
+// 片段过短时 SAM3 / ProPainter 没有足够的帧做时序传播
+export const MIN_RANGE_SECONDS = 0.5;
+
+/**
+ * 校验并裁剪到视频时长内，范围无效或覆盖整个视频时返回 null（按整段处理）
+ */
+export function normalizeRange(range: TimeRange | null | undefined, duration: number | null): TimeRange | null {
+  if (!range) return null;
+  const start = Math.max(0, Number(range.start));
+  let end = Number(range.end);
+  if (!Number.isFinite(start) || !Number.isFinite(end)) return null;
+  if (duration && duration > 0) end = Math.min(end, duration);
+  if (end - start < MIN_RANGE_SECONDS) return null;
+  if (start === 0 && duration && end >= duration) return null;
+  return { start, end };
+}
+
+/**
+ * out/ 下文件的公网地址（由 videorender 服务的 /media 提供），供 Replicate 拉取
+ */
+export function publicMediaUrl(storageKey: string): string {
+  return `${getBackendPublicUrl()}/media/${encodeURIComponent(storageKey)}`;
+}
+
+/**
+ * ffmpeg 读取遮罩等媒体时使用的输入：本服务 /media/ 下的文件直接读取 out/，不经过网络
+ */
+export function localMediaInput(url: string): string {
+  const mediaPrefix = `${getBackendPublicUrl()}/media/`;
+  if (!url.startsWith(mediaPrefix)) return url;
+  const localPath = path.resolve(OUT_DIR, path.basename(decodeURIComponent(url.slice(mediaPrefix.length))));
+  return fs.existsSync(localPath) ? localPath : url;
+}
+
+/**
+ * 精确剪出片段（重新编码，保证从入点所在帧开始），不含音频
+ */
+export async function cutSegment(options: {
+  sourcePath: string;
+  range: TimeRange;
+  outputPath: string;
+  signal?: AbortSignal;
+}): Promise<void> {
+  const { range } = options;
+  await runFfmpeg(
+    [
+      "-ss",
+      String(range.start),
+      "-i",
+      options.sourcePath,
+      "-t",
+      String(range.end - range.start),
+      "-map",
+      "0:v:0",
+      "-an",
+      "-c:v",
+      "libx264",
+      "-preset",
+      "veryfast",
+      "-crf",
+      "16",
+      "-pix_fmt",
+      "yuv420p",
+      options.outputPath,
+    ],
+    options.signal
+  );
+}
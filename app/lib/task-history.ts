@@ -0,0 +1,65 @@
+import type { CreditTransaction } from "~/lib/credits.repo";
+import type { Task, TaskProcessingParams, TaskWithAssets } from "~/lib/tasks.repo";
+
+/**
+ * 任务历史（/api/tasks）的响应结构，服务端和 dashboard 共用
+ */
+export interface TaskListItem {
+  id: string;
+  action: Task["action"];
+  status: Task["status"];
+  progress: number;
+  eta_seconds: number | null;
+  credits_cost: number | null;
+  error_message: string | null;
+  output_url: string | null;
+  output_asset_id: string | null;
+  asset_id: string;
+  asset_name: string | null; // 源资产已删除时为 null
+  thumbnail_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaskListResponse {
+  tasks: TaskListItem[];
+  nextCursor: string | null; // 没有更多时为 null
+}
+
+export interface TaskDetail extends TaskListItem {
+  mask_url: string | null;
+  keep_audio: boolean;
+  output_asset_name: string | null;
+  credits_reserved: number; // 尚未结算的预留
+  parent_task_id: string | null; // 由该任务重新运行而来
+  processing_params: TaskProcessingParams | null;
+  credit_transactions: CreditTransaction[];
+}
+
+export interface TaskSummaryResponse {
+  total: number;
+  counts: Partial<Record<Task["status"], number>>;
+}
+
+function toIsoString(value: string | Date): string {
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
+
+export function toTaskListItem(task: TaskWithAssets): TaskListItem {
+  return {
+    id: task.id,
+    action: task.action,
+    status: task.status,
+    progress: Number(task.progress) || 0,
+    eta_seconds: task.eta_seconds != null ? Number(task.eta_seconds) : null,
+    credits_cost: task.credits_cost ? Number(task.credits_cost) : null,
+    error_message: task.error_message ?? null,
+    output_url: task.output_url ?? null,
+    output_asset_id: task.output_asset_id ?? null,
+    asset_id: task.asset_id,
+    asset_name: task.asset_name,
+    thumbnail_url: task.asset_name !== null ? `/api/assets/${task.asset_id}/thumbnail` : null,
+    created_at: toIsoString(task.created_at),
+    updated_at: toIsoString(task.updated_at),
+  };
+}
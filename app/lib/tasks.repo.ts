@@ -1,16 +1,41 @@
 import { queryWithFallback, getDirectDbPool } from "~/lib/supabase.server";
 import type { SupabaseClient } from "@supabase/supabase-js";
+import type { InpaintOptions, InpaintPreset } from "~/lib/inpaint-options";
+import type { MaskRefineOptions } from "~/lib/mask-refine";
+import type { TimeRange } from "~/lib/segment.server";
+
+/**
+ * 重新运行任务所需的输入（遮罩和源资产另有字段）
+ */
+export interface TaskProcessingParams {
+  videoUrl?: string; // remove 的输入视频，按范围处理时为片段地址
+  range?: TimeRange; // 只处理该时间范围
+  objects?: string[]; // 同时处理多个对象时各对象的文本提示（mask_url 为合并后的遮罩）
+  maskRefine?: MaskRefineOptions; // 遮罩的后处理参数（mask_url 已是处理后的遮罩）
+  inpaint?: InpaintOptions; // remove 的 ProPainter 参数
+  preset?: InpaintPreset; // 参数与质量预设一致时的预设名，自定义参数时没有
+}
 
 export interface Task {
   id: string;
   user_id: string;
   asset_id: string;
   action: "remove" | "extract";
-  status: "pending" | "processing" | "completed" | "failed";
+  status: "pending" | "processing" | "completed" | "failed" | "cancelled";
   progress: number;
   mask_url?: string;
   output_url?: string;
   error_message?: string;
+  prediction_id?: string; // 提供方（Replicate 等）的 prediction ID
+  output_asset_id?: string; // 由输出文件创建的资产（如 extract 生成的透明背景视频）
+  credits_reserved?: number; // 任务运行期间预留的 credits，完成时扣除，失败或取消时退还
+  credits_cost?: number; // 任务启动时确定的价格（credits）
+  keep_audio?: boolean; // 输出是否保留源视频的音轨（默认保留）
+  eta_seconds?: number | null; // 预计剩余时间（秒），由提供方日志估计，未知时为 null
+  idempotency_key?: string | null; // 客户端提交的幂等键，重复提交时返回已有任务
+  request_hash?: string | null; // 提交参数（资产、遮罩、选项）的哈希，用于识别短时间内的重复提交
+  parent_task_id?: string | null; // 重新运行时的源任务
+  processing_params?: TaskProcessingParams | null; // 较早的任务没有保存，为 null
   created_at: string;
   updated_at: string;
 }
@@ -34,6 +59,12 @@ export async function createTask(task: Omit<Task, "id" | "created_at" | "updated
           mask_url: task.mask_url,
           output_url: task.output_url,
           error_message: task.error_message,
+          prediction_id: task.prediction_id,
+          keep_audio: task.keep_audio ?? true,
+          idempotency_key: task.idempotency_key ?? null,
+          request_hash: task.request_hash ?? null,
+          parent_task_id: task.parent_task_id ?? null,
+          processing_params: task.processing_params ?? null,
           created_at: now,
           updated_at: now,
         })
@@ -49,8 +80,8 @@ export async function createTask(task: Omit<Task, "id" | "created_at" | "updated
       const client = await pool.connect();
       try {
         const { rows } = await client.query<Task>(
-          `insert into tasks (id, user_id, asset_id, action, status, progress, mask_url, output_url, error_message, created_at, updated_at)
-           values ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+          `insert into tasks (id, user_id, asset_id, action, status, progress, mask_url, output_url, error_message, prediction_id, keep_audio, idempotency_key, request_hash, parent_task_id, processing_params, created_at, updated_at)
+           values ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
            returning *`,
           [
             taskId,
@@ -62,6 +93,12 @@ export async function createTask(task: Omit<Task, "id" | "created_at" | "updated
             task.mask_url || null,
             task.output_url || null,
             task.error_message || null,
+            task.prediction_id || null,
+            task.keep_audio ?? true,
+            task.idempotency_key ?? null,
+            task.request_hash ?? null,
+            task.parent_task_id ?? null,
+            task.processing_params ? JSON.stringify(task.processing_params) : null,
             now,
             now,
           ]
@@ -86,20 +123,29 @@ export async function createTask(task: Omit<Task, "id" | "created_at" | "updated
   );
 }
 
-export async function updateTask(taskId: string, updates: Partial<Task>): Promise<Task | null> {
+/**
+ * 更新任务；skipCancelled 时不覆盖已取消的任务（worker 写回处理结果时使用），
+ * onlyActive 时只更新 pending / processing 的任务（取消时使用），没有更新时返回 null
+ */
+export async function updateTask(
+  taskId: string,
+  updates: Partial<Task>,
+  options: { skipCancelled?: boolean; onlyActive?: boolean } = {}
+): Promise<Task | null> {
   const now = new Date().toISOString();
   
   return queryWithFallback(
     async (supabase: SupabaseClient) => {
-      const { data, error } = await supabase
+      let query = supabase
         .from("tasks")
         .update({
           ...updates,
           updated_at: now,
         })
-        .eq("id", taskId)
-        .select()
-        .single();
+        .eq("id", taskId);
+      if (options.skipCancelled) query = query.neq("status", "cancelled");
+      if (options.onlyActive) query = query.in("status", ["pending", "processing"]);
+      const { data, error } = await query.select().single();
 
       if (error) {
         if (error.code === "PGRST116") return null; // Not found
@@ -136,6 +182,18 @@ export async function updateTask(taskId: string, updates: Partial<Task>): Promis
           updateFields.push(`error_message = $${paramIndex++}`);
           values.push(updates.error_message);
         }
+        if (updates.prediction_id !== undefined) {
+          updateFields.push(`prediction_id = $${paramIndex++}`);
+          values.push(updates.prediction_id);
+        }
+        if (updates.output_asset_id !== undefined) {
+          updateFields.push(`output_asset_id = $${paramIndex++}`);
+          values.push(updates.output_asset_id);
+        }
+        if (updates.eta_seconds !== undefined) {
+          updateFields.push(`eta_seconds = $${paramIndex++}`);
+          values.push(updates.eta_seconds);
+        }
 
         updateFields.push(`updated_at = $${paramIndex++}`);
         values.push(now);
@@ -143,7 +201,9 @@ export async function updateTask(taskId: string, updates: Partial<Task>): Promis
         values.push(taskId); // taskId 作为最后一个参数
 
         const { rows } = await client.query<Task>(
-          `update tasks set ${updateFields.join(", ")} where id = $${paramIndex} returning *`,
+          `update tasks set ${updateFields.join(", ")} where id = $${paramIndex}${
+            options.skipCancelled ? " and status <> 'cancelled'" : ""
+          }${options.onlyActive ? " and status in ('pending', 'processing')" : ""} returning *`,
           values
         );
         return rows[0] || null;
@@ -200,3 +260,329 @@ export async function getTaskById(taskId: string): Promise<Task | null> {
   );
 }
 
+/**
+ * 按提供方 prediction ID 查找任务（webhook 回调使用）
+ */
+export async function getTaskByPredictionId(predictionId: string): Promise<Task | null> {
+  return queryWithFallback(
+    async (supabase: SupabaseClient) => {
+      const { data, error } = await supabase
+        .from("tasks")
+        .select()
+        .eq("prediction_id", predictionId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data as Task | null) ?? null;
+    },
+    async () => {
+      const pool = getDirectDbPool();
+      const client = await pool.connect();
+      try {
+        const { rows } = await client.query<Task>(
+          `select * from tasks where prediction_id = $1 limit 1`,
+          [predictionId]
+        );
+        return rows[0] || null;
+      } finally {
+        client.release();
+      }
+    }
+  );
+}
+
+/**
+ * 已完成但输出仍指向提供方地址（未保存为资产）的任务，用于补存输出
+ */
+export async function listTasksWithExternalOutput(limit = 100): Promise<Task[]> {
+  return queryWithFallback(
+    async (supabase: SupabaseClient) => {
+      const { data, error } = await supabase
+        .from("tasks")
+        .select()
+        .eq("status", "completed")
+        .is("output_asset_id", null)
+        .like("output_url", "http%")
+        .order("created_at", { ascending: true })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []) as Task[];
+    },
+    async () => {
+      const pool = getDirectDbPool();
+      const client = await pool.connect();
+      try {
+        const { rows } = await client.query<Task>(
+          `select * from tasks
+            where status = 'completed' and output_asset_id is null and output_url like 'http%'
+            order by created_at asc
+            limit $1`,
+          [limit]
+        );
+        return rows;
+      } finally {
+        client.release();
+      }
+    }
+  );
+}
+
+/**
+ * 用户在 since 之后有更新的任务，按更新时间升序（任务状态推送使用）
+ * since 来自 JS Date（毫秒精度），比较时同样截断到毫秒，否则微秒精度的 updated_at 会被反复返回
+ */
+export async function listTasksUpdatedSince(userId: string, since: string, limit = 50): Promise<Task[]> {
+  return queryWithFallback(
+    async (supabase: SupabaseClient) => {
+      const { data, error } = await supabase
+        .from("tasks")
+        .select()
+        .eq("user_id", userId)
+        .gt("updated_at", since)
+        .order("updated_at", { ascending: true })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []) as Task[];
+    },
+    async () => {
+      const pool = getDirectDbPool();
+      const client = await pool.connect();
+      try {
+        const { rows } = await client.query<Task>(
+          `select * from tasks
+            where user_id = $1 and date_trunc('milliseconds', updated_at) > $2
+            order by updated_at asc
+            limit $3`,
+          [userId, since, limit]
+        );
+        return rows;
+      } finally {
+        client.release();
+      }
+    }
+  );
+}
+
+/**
+ * 最近完成且已计价的任务（所有用户），用于估计处理耗时
+ */
+export async function listRecentCompletedTasks(action: Task["action"], limit = 50): Promise<Task[]> {
+  return queryWithFallback(
+    async (supabase: SupabaseClient) => {
+      const { data, error } = await supabase
+        .from("tasks")
+        .select()
+        .eq("action", action)
+        .eq("status", "completed")
+        .gt("credits_cost", 0)
+        .order("updated_at", { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []) as Task[];
+    },
+    async () => {
+      const pool = getDirectDbPool();
+      const client = await pool.connect();
+      try {
+        const { rows } = await client.query<Task>(
+          `select * from tasks
+            where action = $1 and status = 'completed' and credits_cost > 0
+            order by updated_at desc
+            limit $2`,
+          [action, limit]
+        );
+        return rows;
+      } finally {
+        client.release();
+      }
+    }
+  );
+}
+
+/**
+ * 按幂等键查找任务（start-task 重复提交时返回已有任务）
+ */
+export async function getTaskByIdempotencyKey(userId: string, idempotencyKey: string): Promise<Task | null> {
+  return queryWithFallback(
+    async (supabase: SupabaseClient) => {
+      const { data, error } = await supabase
+        .from("tasks")
+        .select()
+        .eq("user_id", userId)
+        .eq("idempotency_key", idempotencyKey)
+        .order("created_at", { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data as Task | null) ?? null;
+    },
+    async () => {
+      const pool = getDirectDbPool();
+      const client = await pool.connect();
+      try {
+        const { rows } = await client.query<Task>(
+          `select * from tasks where user_id = $1 and idempotency_key = $2 order by created_at asc limit 1`,
+          [userId, idempotencyKey]
+        );
+        return rows[0] || null;
+      } finally {
+        client.release();
+      }
+    }
+  );
+}
+
+/**
+ * since 之后以相同参数提交、且没有失败或取消的最近任务
+ */
+export async function findDuplicateTask(userId: string, requestHash: string, since: string): Promise<Task | null> {
+  return queryWithFallback(
+    async (supabase: SupabaseClient) => {
+      const { data, error } = await supabase
+        .from("tasks")
+        .select()
+        .eq("user_id", userId)
+        .eq("request_hash", requestHash)
+        .gt("created_at", since)
+        .in("status", ["pending", "processing", "completed"])
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data as Task | null) ?? null;
+    },
+    async () => {
+      const pool = getDirectDbPool();
+      const client = await pool.connect();
+      try {
+        const { rows } = await client.query<Task>(
+          `select * from tasks
+            where user_id = $1 and request_hash = $2 and created_at > $3
+              and status in ('pending', 'processing', 'completed')
+            order by created_at desc
+            limit 1`,
+          [userId, requestHash, since]
+        );
+        return rows[0] || null;
+      } finally {
+        client.release();
+      }
+    }
+  );
+}
+
+/**
+ * 任务及其源资产、输出资产的名称（资产已删除时为 null）
+ */
+export interface TaskWithAssets extends Task {
+  asset_name: string | null;
+  output_asset_name: string | null;
+}
+
+export interface TaskListOptions {
+  limit?: number;
+  cursor?: { createdAt: string; id: string } | null; // 上一页最后一个任务
+  status?: Task["status"];
+  action?: Task["action"];
+  from?: string; // created_at >= from
+  to?: string; // created_at < to
+}
+
+const TASK_WITH_ASSETS_SELECT = `select t.*, a.original_name as asset_name, o.original_name as output_asset_name
+    from tasks t
+    left join assets a on a.id::text = t.asset_id and a.deleted_at is null
+    left join assets o on o.id::text = t.output_asset_id and o.deleted_at is null`;
+
+/**
+ * 用户的任务列表，按创建时间倒序，按 (created_at, id) 游标分页
+ * 需要关联 assets 表，只走直接数据库连接
+ */
+export async function listTasksWithAssets(userId: string, options: TaskListOptions = {}): Promise<TaskWithAssets[]> {
+  const conditions = ["t.user_id = $1"];
+  const values: unknown[] = [userId];
+  const param = (value: unknown) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+
+  if (options.status) conditions.push(`t.status = ${param(options.status)}`);
+  if (options.action) conditions.push(`t.action = ${param(options.action)}`);
+  if (options.from) conditions.push(`t.created_at >= ${param(options.from)}`);
+  if (options.to) conditions.push(`t.created_at < ${param(options.to)}`);
+  if (options.cursor) {
+    conditions.push(`(t.created_at, t.id) < (${param(options.cursor.createdAt)}::timestamptz, ${param(options.cursor.id)})`);
+  }
+
+  const pool = getDirectDbPool();
+  const client = await pool.connect();
+  try {
+    const { rows } = await client.query<TaskWithAssets>(
+      `${TASK_WITH_ASSETS_SELECT}
+        where ${conditions.join(" and ")}
+        order by t.created_at desc, t.id desc
+        limit ${param(options.limit ?? 20)}`,
+      values
+    );
+    return rows;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * 单个任务的详情（只返回属于该用户的任务）
+ */
+export async function getTaskWithAssets(taskId: string, userId: string): Promise<TaskWithAssets | null> {
+  const pool = getDirectDbPool();
+  const client = await pool.connect();
+  try {
+    const { rows } = await client.query<TaskWithAssets>(
+      `${TASK_WITH_ASSETS_SELECT}
+        where t.id = $1 and t.user_id = $2`,
+      [taskId, userId]
+    );
+    return rows[0] || null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * 用户各状态的任务数
+ */
+export async function countTasksByStatus(userId: string): Promise<Partial<Record<Task["status"], number>>> {
+  return queryWithFallback(
+    async (supabase: SupabaseClient) => {
+      const statuses: Task["status"][] = ["pending", "processing", "completed", "failed", "cancelled"];
+      const counts: Partial<Record<Task["status"], number>> = {};
+      for (const status of statuses) {
+        const { count, error } = await supabase
+          .from("tasks")
+          .select("id", { count: "exact", head: true })
+          .eq("user_id", userId)
+          .eq("status", status);
+        if (error) throw error;
+        counts[status] = count ?? 0;
+      }
+      return counts;
+    },
+    async () => {
+      const pool = getDirectDbPool();
+      const client = await pool.connect();
+      try {
+        const { rows } = await client.query<{ status: Task["status"]; count: number }>(
+          `select status, count(*)::int as count from tasks where user_id = $1 group by status`,
+          [userId]
+        );
+        return Object.fromEntries(rows.map((row) => [row.status, row.count]));
+      } finally {
+        client.release();
+      }
+    }
+  );
+}
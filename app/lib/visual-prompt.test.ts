@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildRangedVisualPrompt,
+  buildVisualPrompt,
+  validPromptBoxes,
+  type VisualPromptBoxInput,
+} from "~/lib/visual-prompt";
+
+function parsed(value: string | undefined): unknown {
+  assert.ok(value);
+  return JSON.parse(value);
+}
+
+describe("buildVisualPrompt", () => {
+  it("returns undefined without prompts", () => {
+    assert.equal(buildVisualPrompt([], [], true), undefined);
+  });
+
+  it("puts single-frame prompts on frame 0 and keeps exclude labels", () => {
+    const points = [
+      { x: 10, y: 20, frameIndex: 5 },
+      { x: 30, y: 40, label: 0 as const, frameIndex: 5 },
+    ];
+    assert.deepEqual(parsed(buildVisualPrompt(points, [], true)), {
+      points: [
+        [10, 20],
+        [30, 40],
+      ],
+      labels: [1, 0],
+      frame_index: 0,
+    });
+  });
+
+  it("normalizes boxes to top-left and bottom-right corners", () => {
+    const boxes = [{ x1: 100, y1: 80, x2: 20, y2: 10 }];
+    assert.deepEqual(parsed(buildVisualPrompt([], boxes, true)), {
+      points: [],
+      labels: [],
+      boxes: [[20, 10, 100, 80]],
+      frame_index: 0,
+    });
+  });
+
+  it("groups prompts by frame index in order", () => {
+    const points = [
+      { x: 1, y: 1, frameIndex: 30 },
+      { x: 2, y: 2, frameIndex: 0 },
+      { x: 3, y: 3, frameIndex: 30 },
+    ];
+    const boxes = [{ x1: 0, y1: 0, x2: 5, y2: 5, frameIndex: 0 }];
+    assert.deepEqual(parsed(buildVisualPrompt(points, boxes, false)), [
+      { points: [[2, 2]], labels: [1], boxes: [[0, 0, 5, 5]], frame_index: 0 },
+      {
+        points: [
+          [1, 1],
+          [3, 3],
+        ],
+        labels: [1, 1],
+        frame_index: 30,
+      },
+    ]);
+  });
+
+  it("converts timestamps to frames relative to the range and drops prompts outside it", () => {
+    const points = [
+      { x: 1, y: 1, timestamp: 3, frameIndex: 99 },
+      { x: 2, y: 2, timestamp: 2.5 },
+      { x: 3, y: 3, timestamp: 7 },
+    ];
+    const timing = { fps: 10, range: { start: 2, end: 6 } };
+    assert.deepEqual(parsed(buildVisualPrompt(points, [], false, timing)), [
+      { points: [[2, 2]], labels: [1], frame_index: 5 },
+      { points: [[1, 1]], labels: [1], frame_index: 10 },
+    ]);
+  });
+
+  it("falls back to the frame index without a frame rate", () => {
+    const points = [{ x: 1, y: 1, timestamp: 3, frameIndex: 12 }];
+    assert.deepEqual(parsed(buildVisualPrompt(points, [], false, { fps: null, range: null })), {
+      points: [[1, 1]],
+      labels: [1],
+      frame_index: 12,
+    });
+  });
+
+});
+
+describe("buildRangedVisualPrompt", () => {
+  const timing = { fps: 30, range: { start: 0, end: 5 } };
+
+  it("builds the prompt for prompts inside the range", () => {
+    const points = [{ x: 1, y: 1, timestamp: 1 }];
+    assert.deepEqual(buildRangedVisualPrompt(points, [], timing), {
+      visualPrompt: JSON.stringify({ points: [[1, 1]], labels: [1], frame_index: 30 }),
+    });
+  });
+
+  it("rejects prompts that are all outside the range", () => {
+    const points = [{ x: 1, y: 1, timestamp: 9 }];
+    const boxes = [{ x1: 0, y1: 0, x2: 5, y2: 5, timestamp: 6 }];
+    assert.deepEqual(buildRangedVisualPrompt(points, boxes, timing), {
+      error: "Visual prompts are outside the processing range",
+    });
+  });
+
+  it("has nothing to build without prompts", () => {
+    assert.deepEqual(buildRangedVisualPrompt([], [], timing), { visualPrompt: undefined });
+  });
+});
+
+describe("validPromptBoxes", () => {
+  it("drops boxes with invalid coordinates or no area", () => {
+    const boxes = [
+      { x1: 0, y1: 0, x2: 10, y2: 10 },
+      { x1: 0, y1: 0, x2: 0, y2: 10 },
+      { x1: 0, y1: Number.NaN, x2: 10, y2: 10 },
+      { x1: "0", y1: 0, x2: 10, y2: 10 },
+      null,
+    ] as unknown as VisualPromptBoxInput[];
+    assert.deepEqual(validPromptBoxes(boxes), [{ x1: 0, y1: 0, x2: 10, y2: 10 }]);
+  });
+
+  it("returns an empty list for non-arrays", () => {
+    assert.deepEqual(validPromptBoxes(undefined), []);
+    assert.deepEqual(validPromptBoxes({} as unknown as VisualPromptBoxInput[]), []);
+  });
+});
@@ -0,0 +1,129 @@
+import type { TimeRange } from "~/lib/segment.server";
+
+/**
+ * generate-mask 提交的视觉提示（点、框）转换为 SAM3 的 visual_prompt 参数
+ */
+
+export interface VisualPromptPointInput {
+  x: number;
+  y: number;
+  label?: 0 | 1;
+  frameIndex?: number;
+  timestamp?: number; // 点所在帧在源视频中的时间（秒），全视频遮罩按帧率换算为帧索引
+}
+
+export interface VisualPromptBoxInput {
+  x1: number; // 像素坐标，左上角
+  y1: number;
+  x2: number; // 右下角
+  y2: number;
+  frameIndex?: number;
+  timestamp?: number; // 同视觉提示点
+}
+
+/**
+ * 构建 SAM3 visual_prompt JSON，按帧分组
+ * - 只有一帧的提示时为 { points, labels, boxes, frame_index }（没有框时省略 boxes）
+ * - 多帧时为数组，每帧一项，按 frame_index 排序，后面帧上的修正也会参与跟踪
+ * 单帧预览只有一帧，frame_index 必须为 0，否则 SAM3 会报 "No prompts available"
+ * 全视频遮罩优先按时间戳和帧率换算帧索引（按范围处理时相对入点，超出范围的提示丢弃），否则沿用 frameIndex
+ */
+export function buildVisualPrompt(
+  points: VisualPromptPointInput[],
+  boxes: VisualPromptBoxInput[],
+  isSingleFrame: boolean,
+  timing: { fps: number | null; range: TimeRange | null } = { fps: null, range: null }
+): string | undefined {
+  if (points.length === 0 && boxes.length === 0) return undefined;
+  try {
+    type FramePrompt = {
+      points: Array<[number, number]>;
+      labels: Array<0 | 1>;
+      boxes: Array<[number, number, number, number]>;
+    };
+    const frames = new Map<number, FramePrompt>();
+    const frameFor = (prompt: { frameIndex?: number; timestamp?: number }) => {
+      const frameIndex = isSingleFrame ? 0 : promptFrameIndex(prompt, timing.fps, timing.range);
+      if (frameIndex === null) return null;
+      const frame = frames.get(frameIndex) ?? { points: [], labels: [], boxes: [] };
+      frames.set(frameIndex, frame);
+      return frame;
+    };
+    for (const point of points) {
+      const frame = frameFor(point);
+      if (!frame) continue;
+      frame.points.push([point.x, point.y]);
+      // 注意：使用 ?? 而不是 ||，因为 label: 0 是有效的（排除点）
+      frame.labels.push(point.label ?? 1);
+    }
+    for (const box of boxes) {
+      const frame = frameFor(box);
+      if (!frame) continue;
+      // 统一为左上角、右下角
+      frame.boxes.push([
+        Math.min(box.x1, box.x2),
+        Math.min(box.y1, box.y2),
+        Math.max(box.x1, box.x2),
+        Math.max(box.y1, box.y2),
+      ]);
+    }
+    const prompts = [...frames.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([frameIndex, frame]) => ({
+        points: frame.points,
+        labels: frame.labels,
+        ...(frame.boxes.length > 0 ? { boxes: frame.boxes } : {}),
+        frame_index: frameIndex,
+      }));
+    if (prompts.length === 0) return undefined;
+    return JSON.stringify(prompts.length === 1 ? prompts[0] : prompts);
+  } catch (error) {
+    console.warn("⚠️ Failed to build visual_prompt:", error);
+    // 如果构建失败，继续使用 text prompt
+    return undefined;
+  }
+}
+
+/**
+ * 全视频遮罩按时间戳换算帧索引后的 visual_prompt
+ * 提交了提示但全部在处理范围外时返回错误：没有提示时 SAM3 只按回落的弱语义分割，会得到错误的对象
+ */
+export function buildRangedVisualPrompt(
+  points: VisualPromptPointInput[],
+  boxes: VisualPromptBoxInput[],
+  timing: { fps: number | null; range: TimeRange | null }
+): { visualPrompt: string | undefined } | { error: string } {
+  const visualPrompt = buildVisualPrompt(points, boxes, false, timing);
+  if (!visualPrompt && (points.length > 0 || boxes.length > 0)) {
+    return { error: "Visual prompts are outside the processing range" };
+  }
+  return { visualPrompt };
+}
+
+/**
+ * 校验框选区域：坐标必须是有限数值，宽高为 0 的框丢弃
+ */
+export function validPromptBoxes(boxes: VisualPromptBoxInput[] | undefined): VisualPromptBoxInput[] {
+  if (!Array.isArray(boxes)) return [];
+  return boxes.filter(
+    (box) =>
+      [box?.x1, box?.y1, box?.x2, box?.y2].every((value) => typeof value === "number" && Number.isFinite(value)) &&
+      box.x1 !== box.x2 &&
+      box.y1 !== box.y2
+  );
+}
+
+/**
+ * 视觉提示（点或框）在遮罩视频中的帧索引，超出处理范围时返回 null
+ */
+function promptFrameIndex(
+  point: { frameIndex?: number; timestamp?: number },
+  fps: number | null,
+  range: TimeRange | null
+): number | null {
+  if (point.timestamp === undefined || !Number.isFinite(point.timestamp) || !fps) {
+    return point.frameIndex ?? 0;
+  }
+  if (range && (point.timestamp < range.start || point.timestamp > range.end)) return null;
+  return Math.max(Math.round((point.timestamp - (range?.start ?? 0)) * fps), 0);
+}
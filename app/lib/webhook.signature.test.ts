@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { signWebhookPayload, verifyWebhookSignature } from "~/lib/webhook.signature";
+
+const SECRET = `whsec_${Buffer.from("test-secret").toString("base64")}`;
+const BODY = JSON.stringify({ id: "pred_1", status: "succeeded" });
+
+function headersFor(body: string, overrides: Record<string, string> = {}): Headers {
+  return new Headers({ ...signWebhookPayload(SECRET, body), ...overrides });
+}
+
+describe("verifyWebhookSignature", () => {
+  it("accepts a payload signed with the same secret", () => {
+    assert.equal(verifyWebhookSignature(headersFor(BODY), BODY, SECRET), true);
+  });
+
+  it("accepts a secret without the whsec_ prefix", () => {
+    const headers = headersFor(BODY);
+    assert.equal(verifyWebhookSignature(headers, BODY, SECRET.slice("whsec_".length)), true);
+  });
+
+  it("rejects a modified body", () => {
+    assert.equal(verifyWebhookSignature(headersFor(BODY), BODY.replace("succeeded", "failed"), SECRET), false);
+  });
+
+  it("rejects a different secret", () => {
+    const other = `whsec_${Buffer.from("other-secret").toString("base64")}`;
+    assert.equal(verifyWebhookSignature(headersFor(BODY), BODY, other), false);
+  });
+
+  it("rejects missing headers", () => {
+    const headers = headersFor(BODY);
+    headers.delete("webhook-id");
+    assert.equal(verifyWebhookSignature(headers, BODY, SECRET), false);
+  });
+
+  it("rejects timestamps outside the tolerance", () => {
+    const stale = Math.floor(Date.now() / 1000) - 10 * 60;
+    const headers = new Headers({ ...signWebhookPayload(SECRET, BODY, "msg_1", stale) });
+    assert.equal(verifyWebhookSignature(headers, BODY, SECRET), false);
+    assert.equal(verifyWebhookSignature(headers, BODY, SECRET, 15 * 60), true);
+  });
+
+  it("accepts any matching v1 entry among several signatures", () => {
+    const signed = signWebhookPayload(SECRET, BODY);
+    const headers = new Headers({
+      ...signed,
+      "webhook-signature": `v1,bm90LXZhbGlk ${signed["webhook-signature"]}`,
+    });
+    assert.equal(verifyWebhookSignature(headers, BODY, SECRET), true);
+  });
+
+  it("ignores signatures with an unknown version", () => {
+    const signed = signWebhookPayload(SECRET, BODY);
+    const headers = new Headers({
+      ...signed,
+      "webhook-signature": signed["webhook-signature"].replace(/^v1,/, "v2,"),
+    });
+    assert.equal(verifyWebhookSignature(headers, BODY, SECRET), false);
+  });
+});
@@ -0,0 +1,75 @@
+import crypto from "crypto";
+
+/**
+ * Replicate webhook 签名（Standard Webhooks 规范）
+ * https://replicate.com/docs/topics/webhooks/verify-webhook
+ *
+ * 签名内容为 `${webhook-id}.${webhook-timestamp}.${body}`，
+ * 使用 whsec_ 前缀后的 base64 密钥做 HMAC-SHA256，webhook-signature 头格式为 "v1,<base64>"（可能以空格分隔多个）
+ */
+
+// 允许的时间偏差，防止重放
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+export interface WebhookHeaders {
+  "webhook-id": string;
+  "webhook-timestamp": string;
+  "webhook-signature": string;
+}
+
+function secretKey(secret: string): Buffer {
+  const encoded = secret.startsWith("whsec_") ? secret.slice("whsec_".length) : secret;
+  return Buffer.from(encoded, "base64");
+}
+
+function computeSignature(secret: string, id: string, timestamp: string, body: string): string {
+  return crypto
+    .createHmac("sha256", secretKey(secret))
+    .update(`${id}.${timestamp}.${body}`)
+    .digest("base64");
+}
+
+/**
+ * 生成签名请求头（供本地替身脚本模拟 Replicate 调用）
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  id: string = `msg_${crypto.randomUUID()}`,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): WebhookHeaders {
+  const ts = String(timestamp);
+  return {
+    "webhook-id": id,
+    "webhook-timestamp": ts,
+    "webhook-signature": `v1,${computeSignature(secret, id, ts, body)}`,
+  };
+}
+
+/**
+ * 校验 webhook 签名，body 必须是未经解析的原始请求体
+ */
+export function verifyWebhookSignature(
+  headers: Headers,
+  body: string,
+  secret: string,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS
+): boolean {
+  const id = headers.get("webhook-id");
+  const timestamp = headers.get("webhook-timestamp");
+  const signatureHeader = headers.get("webhook-signature");
+  if (!id || !timestamp || !signatureHeader) return false;
+
+  const ts = Number(timestamp);
+  if (!Number.isFinite(ts) || Math.abs(Date.now() / 1000 - ts) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(secret, id, timestamp, body));
+  return signatureHeader.split(" ").some((entry) => {
+    const [version, signature] = entry.split(",");
+    if (version !== "v1" || !signature) return false;
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  });
+}
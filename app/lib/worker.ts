@@ -0,0 +1,81 @@
+import "dotenv/config";
+import os from "os";
+import { claimNextJob, closeJobsPool, failJob, retryJob } from "~/lib/jobs.repo";
+import { isTransientError, markJobTaskFailed, runJob } from "~/lib/processing.jobs";
+
+/**
+ * 处理任务 worker：从 jobs 表认领任务并执行
+ *
+ * 使用方法：
+ *   pnpm worker
+ *
+ * 环境变量：
+ *   WORKER_IDLE_INTERVAL_MS - 队列为空时的轮询间隔（默认 1000）
+ *   WORKER_LOCK_TIMEOUT_MS - 认领后超过该时长未释放则视为 worker 崩溃，任务可被重新认领（默认 300000）
+ *   WORKER_RETRY_BASE_MS - 临时失败的重试退避基数，按 2^attempts 增长（默认 2000）
+ */
+
+const IDLE_INTERVAL_MS = Number(process.env.WORKER_IDLE_INTERVAL_MS) || 1000;
+const LOCK_TIMEOUT_MS = Number(process.env.WORKER_LOCK_TIMEOUT_MS) || 5 * 60 * 1000;
+const RETRY_BASE_MS = Number(process.env.WORKER_RETRY_BASE_MS) || 2000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+const workerId = `${os.hostname()}-${process.pid}`;
+let stopping = false;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function processNext(): Promise<boolean> {
+  const job = await claimNextJob(workerId, LOCK_TIMEOUT_MS);
+  if (!job) return false;
+
+  try {
+    await runJob(job);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (isTransientError(error)) {
+      const delay = Math.min(RETRY_BASE_MS * 2 ** job.attempts, RETRY_MAX_MS);
+      const willRetry = await retryJob(job.id, message, delay);
+      if (willRetry) {
+        console.warn(`⚠️ [${job.type}] ${job.id} transient error, retrying in ${delay}ms:`, message);
+      } else {
+        console.error(`❌ [${job.type}] ${job.id} gave up after ${job.attempts + 1} attempts:`, message);
+        await markJobTaskFailed(job, message);
+      }
+    } else {
+      console.error(`❌ [${job.type}] ${job.id} failed:`, message);
+      await failJob(job.id, message);
+      await markJobTaskFailed(job, message);
+    }
+  }
+  return true;
+}
+
+async function run() {
+  console.log(`👷 Processing worker started: ${workerId}`);
+
+  const stop = () => {
+    console.log("🛑 Stopping worker after current job...");
+    stopping = true;
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  while (!stopping) {
+    try {
+      const processed = await processNext();
+      if (!processed) await sleep(IDLE_INTERVAL_MS);
+    } catch (error) {
+      // 数据库暂时不可用等情况：等待后继续
+      console.error("❌ Worker loop error:", error instanceof Error ? error.message : error);
+      await sleep(IDLE_INTERVAL_MS * 5);
+    }
+  }
+
+  await closeJobsPool();
+  console.log("👋 Worker stopped");
+}
+
+run();
@@ -21,6 +21,8 @@ export default [
   route("/api/storage/*", "routes/api.storage.$.tsx"),
   route("/api/dify/*", "routes/api.dify.$.tsx"),
   route("/api/processing/*", "routes/api.processing.$.tsx"),
+  route("/api/credits/*", "routes/api.credits.$.tsx"),
+  route("/api/tasks/*", "routes/api.tasks.$.tsx"),
   route("/learn", "routes/learn.tsx"),
   route("/roadmap", "routes/roadmap.tsx"),
   route("/privacy", "routes/privacy.tsx"),
@@ -4,7 +4,12 @@ import {
   listAssetsByUser,
   getAssetById,
   softDeleteAsset,
+  listAssetLineage,
+  listOriginalAssets,
 } from "~/lib/assets.repo";
+import { framesArchiveKey } from "~/lib/extract.server";
+import { renderThumbnail, thumbnailKey } from "~/lib/media.server";
+import { buildLineageTree, type LineageResponse } from "~/lib/lineage";
 import fs from "fs";
 import path from "path";
 
@@ -106,6 +111,25 @@ export async function loader({ request }: { request: Request }) {
     });
   }
 
+  // GET /api/assets/originals[?limit=...] -> original uploads with their version counts
+  if (pathname.endsWith("/api/assets/originals") && request.method === "GET") {
+    const limit = Math.min(Math.max(Number(url.searchParams.get("limit")) || 20, 1), 100);
+    const rows = await listOriginalAssets(userId, limit);
+    const items = rows.map((r) => ({
+      id: r.id,
+      name: r.original_name,
+      mime_type: r.mime_type,
+      durationInSeconds: r.duration_seconds,
+      created_at: r.created_at,
+      versionCount: r.version_count,
+      mediaUrlRemote: `/api/assets/${r.id}/raw`,
+    }));
+    return new Response(JSON.stringify({ assets: items }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
   // GET /api/assets/:id -> get asset info
   const assetMatch = pathname.match(/^\/api\/assets\/([^/]+)$/);
   if (assetMatch && request.method === "GET") {
@@ -128,6 +152,8 @@ export async function loader({ request }: { request: Request }) {
           height: asset.height,
           durationInSeconds: asset.duration_seconds,
           size: asset.size_bytes,
+          derivedFromAssetId: asset.derived_from_asset_id,
+          taskId: asset.task_id,
         },
       }),
       {
@@ -137,6 +163,99 @@ export async function loader({ request }: { request: Request }) {
     );
   }
 
+  // GET /api/assets/:id/lineage -> version tree containing the asset (original → edits …)
+  const lineageMatch = pathname.match(/\/api\/assets\/([^/]+)\/lineage$/);
+  if (lineageMatch && request.method === "GET") {
+    const assetId = lineageMatch[1];
+    const root = buildLineageTree(await listAssetLineage(assetId, userId));
+    if (!root) {
+      return new Response(JSON.stringify({ error: "Not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const body: LineageResponse = { assetId, root };
+    return new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  // GET /api/assets/:id/frames -> download PNG sequence zip of an extracted asset
+  const framesMatch = pathname.match(/\/api\/assets\/([^/]+)\/frames$/);
+  if (framesMatch && request.method === "GET") {
+    const assetId = framesMatch[1];
+    const asset = await getAssetById(assetId);
+    if (!asset || asset.user_id !== userId) {
+      return new Response(JSON.stringify({ error: "Not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const zipKey = framesArchiveKey(asset.storage_key);
+    const filePath = path.resolve(OUT_DIR, zipKey);
+    if (!filePath.startsWith(OUT_DIR) || !fs.existsSync(filePath)) {
+      return new Response(JSON.stringify({ error: "Frames archive not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const stat = fs.statSync(filePath);
+    const downloadName = `${path.basename(asset.original_name, path.extname(asset.original_name))}_frames.zip`;
+    const stream = fs.createReadStream(filePath);
+    return new Response(stream as unknown as BodyInit, {
+      status: 200,
+      headers: {
+        "Content-Length": String(stat.size),
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${encodeURIComponent(downloadName)}"`,
+      },
+    });
+  }
+
+  // GET /api/assets/:id/thumbnail -> JPEG thumbnail, rendered on first request and cached in out/
+  const thumbnailMatch = pathname.match(/\/api\/assets\/([^/]+)\/thumbnail$/);
+  if (thumbnailMatch && request.method === "GET") {
+    const assetId = thumbnailMatch[1];
+    const asset = await getAssetById(assetId);
+    if (!asset || asset.user_id !== userId) {
+      return new Response(JSON.stringify({ error: "Not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const sourcePath = path.resolve(OUT_DIR, path.basename(asset.storage_key));
+    const thumbPath = path.resolve(OUT_DIR, thumbnailKey(asset.storage_key));
+    if (!fs.existsSync(thumbPath)) {
+      if (!fs.existsSync(sourcePath)) {
+        return new Response(JSON.stringify({ error: "File not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      try {
+        // 取第 1 秒（短视频取中间），避开常见的黑色首帧
+        const at = asset.duration_seconds ? Math.min(1, asset.duration_seconds / 2) : 0;
+        await renderThumbnail(sourcePath, thumbPath, at);
+      } catch (error) {
+        console.error(`❌ Failed to render thumbnail: ${asset.storage_key}`, error);
+        return new Response(JSON.stringify({ error: "Thumbnail unavailable" }), {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    }
+    const stat = fs.statSync(thumbPath);
+    return new Response(fs.createReadStream(thumbPath) as unknown as BodyInit, {
+      status: 200,
+      headers: {
+        "Content-Length": String(stat.size),
+        "Content-Type": "image/jpeg",
+        "Cache-Control": "private, max-age=86400",
+      },
+    });
+  }
+
   // GET /api/assets/:id/raw -> stream file with auth
   const rawMatch = pathname.match(/\/api\/assets\/([^/]+)\/raw$/);
   if (rawMatch && request.method === "GET") {
@@ -1,4 +1,5 @@
 import { auth } from "~/lib/auth.server";
+import { listCreditTransactions } from "~/lib/credits.repo";
 import { getSupabaseClient, getDirectDbPool } from "~/lib/supabase.server";
 
 async function requireUserId(request: Request): Promise<string> {
@@ -12,9 +13,39 @@ async function requireUserId(request: Request): Promise<string> {
   throw new Response("Unauthorized", { status: 401 });
 }
 
+const DEFAULT_TRANSACTIONS_LIMIT = 20;
+const MAX_TRANSACTIONS_LIMIT = 100;
+
+/**
+ * 交易记录分页：按时间倒序，nextCursor 传回 before 参数获取下一页
+ */
+async function handleTransactions(userId: string, url: URL): Promise<Response> {
+  const limit = Math.min(
+    Math.max(Number(url.searchParams.get("limit")) || DEFAULT_TRANSACTIONS_LIMIT, 1),
+    MAX_TRANSACTIONS_LIMIT
+  );
+  const before = url.searchParams.get("before") || undefined;
+  const transactions = await listCreditTransactions(userId, { limit, before });
+  const last = transactions[transactions.length - 1];
+  const nextCursor = transactions.length === limit && last ? new Date(last.created_at).toISOString() : null;
+
+  return new Response(JSON.stringify({ transactions, nextCursor }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
 export async function loader({ request }: { request: Request }) {
   try {
     const userId = await requireUserId(request);
+    const url = new URL(request.url);
+
+    if (url.pathname.endsWith("/api/credits/transactions")) {
+      return await handleTransactions(userId, url);
+    }
+    if (!url.pathname.endsWith("/api/credits")) {
+      return new Response("Not found", { status: 404 });
+    }
     const supabase = getSupabaseClient();
 
     let balance = 0;
@@ -1,134 +1,864 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import nodePath from "path";
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
 import { auth } from "~/lib/auth.server";
-import { createTask, updateTask } from "~/lib/tasks.repo";
+import {
+  createTask,
+  findDuplicateTask,
+  getTaskById,
+  getTaskByIdempotencyKey,
+  getTaskByPredictionId,
+  listRecentCompletedTasks,
+  listTasksUpdatedSince,
+  updateTask,
+  type Task,
+  type TaskProcessingParams,
+} from "~/lib/tasks.repo";
+import {
+  cancelJobsForTask,
+  enqueueJob,
+  findMaskJobByUrl,
+  getJobById,
+  getJobByPredictionId,
+  getLatestJobForTask,
+} from "~/lib/jobs.repo";
+import { getCreditBalance, refundTaskCredits, reserveTaskCredits } from "~/lib/credits.repo";
+import { getAssetById, type AssetRecord } from "~/lib/assets.repo";
+import { eventStreamResponse } from "~/lib/events.server";
+import { OUT_DIR, probeMedia } from "~/lib/media.server";
+import {
+  applyPrediction,
+  applyPredictionToTask,
+  type CombineMasksJobPayload,
+  type EditMaskJobPayload,
+  type ExportMaskJobPayload,
+  type ExportMaskJobResult,
+  type ExtractJobPayload,
+  type ImportMaskJobPayload,
+  type InpaintJobPayload,
+  type MaskJobPayload,
+  type MaskJobResult,
+  type RefineMaskJobPayload,
+  type SegmentInfo,
+} from "~/lib/processing.jobs";
+import {
+  DEFAULT_INPAINT_OPTIONS,
+  inpaintCostMultiplier,
+  resolveInpaintOptions,
+  type InpaintOptions,
+} from "~/lib/inpaint-options";
+import { parseMaskRefineOptions, type MaskRefineOptions } from "~/lib/mask-refine";
+import { renderMaskRefinePreview } from "~/lib/mask-refine.server";
+import { parseMaskEdits } from "~/lib/mask-edit";
+import type { MaskExportFormat } from "~/lib/mask-file";
+import { receiveMaskUpload } from "~/lib/mask-upload.server";
+import { estimateProcessingSeconds, estimateTaskCredits, medianSecondsPerCredit } from "~/lib/pricing";
+import { localMediaInput, normalizeRange, type TimeRange } from "~/lib/segment.server";
+import {
+  getInpaintingProvider,
+  ProviderError,
+  type InpaintingInput,
+  type Prediction,
+  type SegmentationInput,
+} from "~/lib/providers";
+import {
+  buildRangedVisualPrompt,
+  buildVisualPrompt,
+  validPromptBoxes,
+  type VisualPromptBoxInput,
+  type VisualPromptPointInput,
+} from "~/lib/visual-prompt";
+import { verifyWebhookSignature } from "~/lib/webhook.signature";
+
+interface GenerateMaskBody {
+  textPrompt?: string;
+  videoUrl?: string;
+  frameImage?: string;
+  isSingleFrame?: boolean;
+  visualPromptPoints?: VisualPromptPointInput[]; // 视觉提示点数组
+  visualPromptBoxes?: VisualPromptBoxInput[]; // 框选区域数组
+  negativePrompt?: string; // 排除提示
+  imageWidth?: number; // 图片宽度
+  imageHeight?: number; // 图片高度
+  assetId?: string; // 按时间范围处理时需要，worker 从源文件剪出片段
+  range?: TimeRange; // 只处理该时间范围（入点/出点）
+}
+
+interface StartTaskBody {
+  assetId?: string;
+  action?: string;
+  maskData?: {
+    videoUrl?: string;
+    maskVideoUrl?: string;
+    maskUrl?: string;
+    preview?: string;
+    segment?: SegmentInfo; // 遮罩只覆盖该片段时返回
+    refine?: MaskRefineOptions; // 遮罩经过后处理时的参数，保存在任务上
+  };
+  textPrompt?: string;
+  objects?: string[]; // 同时处理多个对象时各对象的文本提示，maskData 为合并后的遮罩
+  videoUrl?: string;
+  keepAudio?: boolean; // 输出是否保留源视频的音轨（默认保留）
+  preset?: string; // remove 的质量预设：draft | standard | high（默认 standard）
+  idempotencyKey?: string; // 也可以通过 Idempotency-Key 请求头传入
+}
+
+interface RefineMaskBody {
+  mask?: RefineMaskJobPayload["mask"]; // generate-mask 的结果
+  options?: unknown;
+}
 
-const REPLICATE_API_TOKEN = process.env.REPLICATE_API_TOKEN;
-const REPLICATE_API_URL = "https://api.replicate.com/v1";
+interface EditMaskBody {
+  mask?: EditMaskJobPayload["mask"]; // generate-mask 的结果
+  edits?: unknown; // MaskEdit[]
+}
+
+interface ExportMaskBody {
+  taskId?: string; // 导出该任务使用的遮罩
+  mask?: { maskVideoUrl?: string; maskUrl?: string }; // 或 generate-mask 的结果
+  format?: string; // video | png
+}
 
-// ProPainter 模型版本
-const PROPAINTER_VERSION = "e5ea7ae04e97c96a0e14c70d8e4cb899abdf326a377c01f1c10966ccd6c6bae4";
+interface CombineMasksBody {
+  masks?: CombineMasksJobPayload["masks"]; // 各对象 generate-mask 的结果
+}
 
-// 模拟模式：通过环境变量控制，避免在测试时调用真实 API（节省成本）
-const MOCK_PROPAINTER = process.env.MOCK_PROPAINTER === "true" || process.env.MOCK_PROPAINTER === "1";
-const MOCK_SAM3 = process.env.MOCK_SAM3 === "true" || process.env.MOCK_SAM3 === "1";
+interface RefineMaskPreviewBody {
+  assetId?: string;
+  mask?: { maskVideoUrl?: string; maskUrl?: string; segment?: { range: TimeRange } };
+  time?: number; // 源视频中选中帧的时间（秒）
+  options?: unknown;
+}
 
-// 模拟预测状态存储（用于模拟状态转换）
-const mockPredictions = new Map<string, {
-  id: string;
-  status: "starting" | "processing" | "succeeded" | "failed";
-  output?: string[];
-  error?: string;
-  createdAt: number;
-}>();
+interface RetryTaskBody {
+  preset?: unknown; // 以该预设为基础，未提交时以源任务的参数为基础
+  fp16?: unknown;
+  resizeRatio?: unknown;
+  subvideoLength?: unknown;
+  keepAudio?: boolean; // 默认沿用源任务
+  idempotencyKey?: string;
+}
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+// 一次最多合并的对象数
+const MAX_COMBINED_MASKS = 8;
+// 没有幂等键时，该时间内以相同参数提交的任务视为重复提交
+const TASK_DEDUPE_WINDOW_MS = Number(process.env.TASK_DEDUPE_WINDOW_MS) || 10 * 60 * 1000;
+
+function jsonResponse(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function errorMessage(error: unknown, fallback = "Internal server error"): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+// 获取用户ID的辅助函数
+async function requireUserId(request: Request): Promise<string> {
+  try {
+    const session = await auth.api?.getSession?.({ headers: request.headers });
+    const uid: string | undefined = session?.user?.id || session?.session?.userId;
+    if (uid) return String(uid);
+  } catch {
+    console.error("Failed to get session");
+  }
+  throw new Response("Unauthorized", { status: 401 });
+}
 
 /**
- * 模拟 ProPainter API 调用
- * 返回一个模拟的 prediction 对象，状态会随时间变化
+ * 处理提供方的 prediction 状态回调
+ * 请求来自 Replicate 而不是浏览器，没有会话，靠签名鉴权
  */
-async function mockProPainterPrediction(input: any): Promise<any> {
-  const predictionId = `mock-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  
-  // 创建初始状态
-  mockPredictions.set(predictionId, {
-    id: predictionId,
-    status: "starting",
-    createdAt: Date.now(),
+async function handlePredictionWebhook(request: Request): Promise<Response> {
+  const secret = process.env.REPLICATE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error("❌ REPLICATE_WEBHOOK_SECRET not configured");
+    return jsonResponse({ error: "Webhook not configured" }, 503);
+  }
+
+  // 必须使用原始请求体校验签名
+  const body = await request.text();
+  if (!verifyWebhookSignature(request.headers, body, secret)) {
+    console.warn("⚠️ Invalid webhook signature");
+    return jsonResponse({ error: "Invalid signature" }, 401);
+  }
+
+  let prediction: Prediction;
+  try {
+    prediction = JSON.parse(body) as Prediction;
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body" }, 400);
+  }
+  if (!prediction?.id || !prediction.status) {
+    return jsonResponse({ error: "Missing prediction id or status" }, 400);
+  }
+
+  console.log("🔔 Prediction webhook:", prediction.id, prediction.status);
+
+  const job = await getJobByPredictionId(prediction.id);
+  if (job) {
+    await applyPrediction(job, prediction);
+    return jsonResponse({ received: true, jobId: job.id });
+  }
+
+  // 队列上线前创建的任务没有 job，直接更新任务记录
+  const task = await getTaskByPredictionId(prediction.id);
+  if (task) {
+    await applyPredictionToTask(task.id, prediction);
+    return jsonResponse({ received: true, taskId: task.id });
+  }
+
+  // prediction ID 可能尚未写入（回调早于 worker 保存），返回 2xx 避免提供方反复重试，由 worker 轮询兜底
+  console.warn("⚠️ No job or task found for prediction:", prediction.id);
+  return jsonResponse({ received: true });
+}
+
+/**
+ * 提交参数的哈希：资产、操作、遮罩和处理选项都相同时视为同一次提交
+ */
+function taskRequestHash(params: {
+  assetId: string;
+  action: string;
+  maskUrl: string;
+  videoUrl: string | null;
+  range: TimeRange | null;
+  keepAudio: boolean;
+  parentTaskId?: string; // 重新运行时才有
+  inpaint?: InpaintOptions; // remove 的 ProPainter 参数
+}): string {
+  return crypto.createHash("sha256").update(JSON.stringify(params)).digest("hex");
+}
+
+/**
+ * 查找重复提交的任务：优先按幂等键，其次按时间窗口内的相同参数
+ * 幂等键已被不同参数使用时返回 "conflict"
+ */
+async function findExistingTask(
+  userId: string,
+  idempotencyKey: string | null,
+  requestHash: string
+): Promise<Task | "conflict" | null> {
+  if (idempotencyKey) {
+    const task = await getTaskByIdempotencyKey(userId, idempotencyKey);
+    if (task) {
+      return task.request_hash && task.request_hash !== requestHash ? "conflict" : task;
+    }
+  }
+  const since = new Date(Date.now() - TASK_DEDUPE_WINDOW_MS).toISOString();
+  return findDuplicateTask(userId, requestHash, since);
+}
+
+function existingTaskResponse(task: Task): Response {
+  return jsonResponse({
+    success: true,
+    taskId: task.id,
+    status: task.status,
+    message: "任务已存在",
+    duplicate: true,
+  });
+}
+
+// Postgres 唯一约束冲突（pg 与 Supabase 都使用 SQLSTATE）
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: unknown }).code === "23505";
+}
+
+/**
+ * 计价使用的处理时长：有范围时为范围长度，否则为整个视频
+ */
+function taskDurationSeconds(asset: AssetRecord, range: TimeRange | null | undefined): number | null {
+  return range ? range.end - range.start : asset.duration_seconds;
+}
+
+function taskQualityMultiplier(action: Task["action"], inpaint: InpaintOptions | undefined): number {
+  return action === "remove" ? inpaintCostMultiplier(inpaint ?? DEFAULT_INPAINT_OPTIONS) : 1;
+}
+
+function insufficientCreditsResponse(required: number, balance: number): Response {
+  return jsonResponse(
+    { error: "Credits 不足", code: "insufficient_credits", required, balance },
+    402
+  );
+}
+
+/**
+ * 取消任务：停止后台 job、取消提供方 prediction、记录取消状态并退还预留的 credits
+ */
+async function handleCancelTask(request: Request, taskId: string): Promise<Response> {
+  const userId = await requireUserId(request);
+  const task = await getTaskById(taskId);
+  if (!task || task.user_id !== userId) {
+    return jsonResponse({ error: "Task not found" }, 404);
+  }
+  if (task.status !== "pending" && task.status !== "processing") {
+    return jsonResponse({ error: `Task already ${task.status}`, status: task.status }, 409);
+  }
+
+  // 只取消仍在处理中的任务：读取状态之后 worker 可能已经完成任务并扣除 credits
+  // 先写入取消状态，worker 之后写回结果时会跳过已取消的任务
+  const cancelled = await updateTask(
+    taskId,
+    { status: "cancelled", error_message: "任务已取消" },
+    { onlyActive: true }
+  );
+  if (!cancelled) {
+    const current = await getTaskById(taskId);
+    const status = current?.status ?? task.status;
+    return jsonResponse({ error: `Task already ${status}`, status }, 409);
+  }
+
+  // 再让 job 失效，worker 不会再认领或重新排队
+  const jobs = await cancelJobsForTask(taskId);
+  const predictionIds = new Set(
+    [task.prediction_id, ...jobs.map((job) => job.prediction_id)].filter((id): id is string => !!id)
+  );
+  for (const predictionId of predictionIds) {
+    try {
+      await getInpaintingProvider().cancel(predictionId);
+      console.log("🛑 Prediction cancelled:", predictionId);
+    } catch (error) {
+      // prediction 可能已经结束，任务仍按取消处理
+      console.warn("⚠️ Failed to cancel prediction:", predictionId, errorMessage(error));
+    }
+  }
+
+  const refunded = await refundTaskCredits(taskId).catch((error) => {
+    console.error("❌ Failed to refund credits:", taskId, errorMessage(error));
+    return 0;
   });
+  console.log("🛑 Task cancelled:", taskId);
+
+  return jsonResponse({ success: true, taskId, status: "cancelled", refundedCredits: refunded });
+}
 
-  console.log("🎭 [MOCK] ProPainter prediction created:", predictionId);
-  console.log("🎭 [MOCK] Input:", JSON.stringify(input, null, 2));
+interface LaunchTaskParams {
+  userId: string;
+  asset: AssetRecord;
+  action: Task["action"];
+  maskUrl: string;
+  keepAudio: boolean;
+  processingParams: TaskProcessingParams;
+  parentTaskId?: string;
+  idempotencyKey: string | null;
+  requestHash: string;
+}
 
+/**
+ * 计价、创建任务、预留 credits 并放入后台队列（start-task 和重新运行共用）
+ */
+async function launchTask(params: LaunchTaskParams): Promise<Response> {
+  const { userId, asset, action, maskUrl, processingParams, idempotencyKey } = params;
+  const range = processingParams.range;
+
+  // 按处理时长（有范围时为范围长度）、分辨率和质量预设计价，余额不足时不创建任务
+  const creditsCost = estimateTaskCredits({
+    action,
+    durationSeconds: taskDurationSeconds(asset, range),
+    width: asset.width,
+    height: asset.height,
+    qualityMultiplier: taskQualityMultiplier(action, processingParams.inpaint),
+  });
+  const balance = await getCreditBalance(userId);
+  if (balance < creditsCost) {
+    return insufficientCreditsResponse(creditsCost, balance);
+  }
+
+  let task: Task;
+  try {
+    task = await createTask({
+      user_id: userId,
+      asset_id: asset.id,
+      action,
+      status: "pending",
+      progress: 0,
+      mask_url: maskUrl,
+      keep_audio: params.keepAudio,
+      idempotency_key: idempotencyKey,
+      request_hash: params.requestHash,
+      parent_task_id: params.parentTaskId ?? null,
+      processing_params: processingParams,
+    });
+  } catch (error) {
+    // 并发的相同幂等键请求由唯一索引拦截，返回先创建的任务
+    const winner = idempotencyKey && isUniqueViolation(error) ? await getTaskByIdempotencyKey(userId, idempotencyKey) : null;
+    if (winner) return existingTaskResponse(winner);
+    throw error;
+  }
+
+  // 预留在事务中再次检查余额，并发提交时可能已被其他任务占用
+  const reservation = await reserveTaskCredits(task.id, userId, creditsCost, `${action} ${asset.original_name}`);
+  if (!reservation.reserved) {
+    await updateTask(task.id, { status: "failed", error_message: "Credits 不足" });
+    return insufficientCreditsResponse(creditsCost, reservation.balance);
+  }
+
+  let jobId: string;
+  if (action === "extract") {
+    const payload: ExtractJobPayload = { maskUrl, range };
+    const job = await enqueueJob({
+      type: "extract",
+      userId,
+      taskId: task.id,
+      payload: { ...payload },
+    });
+    jobId = job.id;
+    console.log("✅ Extract task created and queued:", task.id, job.id);
+  } else {
+    console.log("📤 Queueing ProPainter job...", {
+      videoUrl: processingParams.videoUrl,
+      maskUrl,
+      range,
+      options: processingParams.inpaint,
+    });
+
+    // prediction 由 worker 创建并写回 prediction_id
+    const inpaintingInput: InpaintingInput = {
+      video: processingParams.videoUrl ?? "",
+      mask: maskUrl, // 遮罩视频 URL（来自 SAM3）
+      mode: "video_inpainting", // 对象删除使用 video_inpainting 模式
+      ...(processingParams.inpaint ?? DEFAULT_INPAINT_OPTIONS),
+    };
+
+    const payload: InpaintJobPayload = { input: inpaintingInput, range };
+    const job = await enqueueJob({
+      type: "inpaint",
+      userId,
+      taskId: task.id,
+      payload: { ...payload },
+    });
+    jobId = job.id;
+    console.log("✅ Task created and queued:", task.id, job.id);
+  }
+
+  return jsonResponse({
+    success: true,
+    taskId: task.id,
+    jobId,
+    status: task.status,
+    creditsCost,
+    parentTaskId: params.parentTaskId,
+    message: "任务已启动",
+  });
+}
+
+/**
+ * 任务保存的处理参数；较早的任务没有保存，从它的处理 job 还原
+ */
+async function storedProcessingParams(task: Task): Promise<TaskProcessingParams | null> {
+  if (task.processing_params) return task.processing_params;
+  if (task.action === "extract") {
+    const job = await getLatestJobForTask(task.id, "extract");
+    if (!job) return null;
+    const payload = job.payload as unknown as ExtractJobPayload;
+    return { range: payload.range };
+  }
+  const job = await getLatestJobForTask(task.id, "inpaint");
+  if (!job) return null;
+  const { input, range } = job.payload as unknown as InpaintJobPayload;
   return {
-    id: predictionId,
-    status: "starting",
-    created_at: new Date().toISOString(),
-    urls: {
-      get: `http://localhost:8000/api/processing/task/${predictionId}`,
-      cancel: `http://localhost:8000/api/processing/task/${predictionId}/cancel`,
+    videoUrl: input.video,
+    range,
+    inpaint: {
+      fp16: input.fp16,
+      resizeRatio: input.resizeRatio,
+      subvideoLength: input.subvideoLength,
+      saveFps: input.saveFps,
     },
   };
 }
 
 /**
- * 获取模拟预测状态
- * 模拟状态转换：starting -> processing -> succeeded
+ * 重新运行已结束的任务：沿用源任务的遮罩、源资产和时间范围，可以修改 ProPainter 参数
+ * 创建新的任务并关联到源任务，源任务不变；不需要重新生成 SAM3 遮罩
  */
-function getMockPredictionStatus(predictionId: string): any {
-  const prediction = mockPredictions.get(predictionId);
-  if (!prediction) {
-    return {
-      id: predictionId,
-      status: "failed",
-      error: "Prediction not found",
-    };
+async function handleRetryTask(request: Request, taskId: string): Promise<Response> {
+  const userId = await requireUserId(request);
+  const body = (await request.json().catch(() => ({}))) as RetryTaskBody;
+  const parent = await getTaskById(taskId);
+  if (!parent || parent.user_id !== userId) {
+    return jsonResponse({ error: "Task not found" }, 404);
+  }
+  if (!isTaskFinished(parent)) {
+    return jsonResponse({ error: `Task is still ${parent.status}`, status: parent.status }, 409);
+  }
+  if (body.keepAudio !== undefined && typeof body.keepAudio !== "boolean") {
+    return jsonResponse({ error: "keepAudio must be a boolean" }, 400);
   }
 
-  const elapsed = Date.now() - prediction.createdAt;
-  
-  // 状态转换逻辑：
-  // 0-2秒: starting
-  // 2-8秒: processing
-  // 8秒后: succeeded
-  if (elapsed < 2000) {
-    prediction.status = "starting";
-  } else if (elapsed < 8000) {
-    prediction.status = "processing";
-  } else {
-    prediction.status = "succeeded";
-    // 生成模拟输出 URL（使用占位符或原始视频 URL）
-    if (!prediction.output) {
-      // 使用一个占位符视频 URL，或者可以返回原始视频 URL 作为测试
-      prediction.output = [
-        "https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4", // 示例视频
-      ];
+  const asset = await getAssetById(parent.asset_id);
+  if (!asset || asset.user_id !== userId) {
+    return jsonResponse({ error: "Source asset not found" }, 404);
+  }
+  const stored = await storedProcessingParams(parent);
+  if (!parent.mask_url || !stored || (parent.action === "remove" && !stored.videoUrl)) {
+    return jsonResponse({ error: "Task has no stored mask or inputs to retry with" }, 409);
+  }
+
+  let processingParams: TaskProcessingParams = {
+    range: stored.range,
+    objects: stored.objects,
+    maskRefine: stored.maskRefine,
+  };
+  if (parent.action === "remove") {
+    const resolved = resolveInpaintOptions(body, stored.inpaint ?? DEFAULT_INPAINT_OPTIONS);
+    if ("error" in resolved) {
+      return jsonResponse({ error: resolved.error }, 400);
     }
+    processingParams = {
+      videoUrl: stored.videoUrl,
+      range: stored.range,
+      objects: stored.objects,
+      maskRefine: stored.maskRefine,
+      inpaint: resolved.options,
+      preset: resolved.preset ?? undefined,
+    };
+  }
+  const keepAudio = body.keepAudio ?? parent.keep_audio !== false;
+
+  const idempotencyKey = request.headers.get("Idempotency-Key")?.trim() || body.idempotencyKey?.trim() || null;
+  if (idempotencyKey && idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return jsonResponse({ error: "Idempotency key is too long" }, 400);
+  }
+  const requestHash = taskRequestHash({
+    assetId: asset.id,
+    action: parent.action,
+    maskUrl: parent.mask_url,
+    videoUrl: processingParams.videoUrl ?? null,
+    range: processingParams.range ?? null,
+    keepAudio,
+    parentTaskId: parent.id,
+    inpaint: processingParams.inpaint,
+  });
+  const existing = await findExistingTask(userId, idempotencyKey, requestHash);
+  if (existing === "conflict") {
+    return jsonResponse({ error: "Idempotency key was already used with different parameters" }, 422);
+  }
+  if (existing) {
+    console.log("♻️ Duplicate retry, returning existing task:", existing.id);
+    return existingTaskResponse(existing);
+  }
+
+  console.log("🔁 Retrying task:", parent.id, processingParams.inpaint ?? {});
+  return launchTask({
+    userId,
+    asset,
+    action: parent.action,
+    maskUrl: parent.mask_url,
+    keepAudio,
+    processingParams,
+    parentTaskId: parent.id,
+    idempotencyKey,
+    requestHash,
+  });
+}
+
+/**
+ * 源资产在 out/ 下的文件，不存在时返回 null
+ */
+function assetSourcePath(asset: AssetRecord): string | null {
+  const sourcePath = nodePath.resolve(OUT_DIR, nodePath.basename(asset.storage_key));
+  return fs.existsSync(sourcePath) ? sourcePath : null;
+}
+
+/**
+ * 客户端提交的遮罩只接受该用户自己的遮罩 job 的输出，返回 job 中保存的遮罩（不使用客户端提交的其他字段）
+ * 遮罩地址会交给 ffmpeg 读取，任意地址（file:、内网地址、concat: 等）都不能直接使用
+ */
+async function ownedMask(
+  userId: string,
+  mask: { maskVideoUrl?: string; maskUrl?: string } | undefined
+): Promise<MaskJobResult["mask"] | null> {
+  const url = mask?.maskVideoUrl || mask?.maskUrl;
+  if (!url) return null;
+  const job = await findMaskJobByUrl(userId, url);
+  return job ? (job.result as unknown as MaskJobResult).mask : null;
+}
+
+/**
+ * POST /api/processing/refine-mask：对全视频遮罩做膨胀、羽化和时间平滑
+ * 由 worker 执行，前端通过 /api/processing/job/:jobId 获取处理后的遮罩（结构与 generate-mask 相同）
+ */
+async function handleRefineMask(request: Request): Promise<Response> {
+  const userId = await requireUserId(request);
+  const body = (await request.json()) as RefineMaskBody;
+  if (!body.mask?.maskVideoUrl && !body.mask?.maskUrl) {
+    return jsonResponse({ error: "Missing mask.maskVideoUrl" }, 400);
+  }
+  const mask = await ownedMask(userId, body.mask);
+  if (!mask) {
+    return jsonResponse({ error: "Mask not found" }, 404);
+  }
+  const parsed = parseMaskRefineOptions(body.options);
+  if ("error" in parsed) {
+    return jsonResponse({ error: parsed.error }, 400);
+  }
+
+  const payload: RefineMaskJobPayload = { mask, options: parsed.options };
+  const job = await enqueueJob({
+    type: "refine_mask",
+    userId,
+    payload: { ...payload },
+    maxAttempts: 2,
+  });
+  console.log("📥 Mask refine job queued:", job.id, parsed.options);
+
+  return jsonResponse({ success: true, jobId: job.id, status: job.status }, 202);
+}
+
+/**
+ * POST /api/processing/edit-mask：把各关键帧上手动绘制和擦除的修正应用到全视频遮罩
+ * 修正图先保存到 out/，由 worker 执行，前端通过 /api/processing/job/:jobId 获取修正后的遮罩（结构与 generate-mask 相同）
+ */
+async function handleEditMask(request: Request): Promise<Response> {
+  const userId = await requireUserId(request);
+  const body = (await request.json()) as EditMaskBody;
+  if (!body.mask?.maskVideoUrl && !body.mask?.maskUrl) {
+    return jsonResponse({ error: "Missing mask.maskVideoUrl" }, 400);
   }
+  const parsed = parseMaskEdits(body.edits);
+  if ("error" in parsed) {
+    return jsonResponse({ error: parsed.error }, 400);
+  }
+  const mask = await ownedMask(userId, body.mask);
+  if (!mask) {
+    return jsonResponse({ error: "Mask not found" }, 404);
+  }
+
+  const edits = await Promise.all(
+    parsed.edits.map(async (edit) => {
+      const storageKey = `mask_edit_${crypto.randomUUID()}.png`;
+      await fs.promises.writeFile(nodePath.resolve(OUT_DIR, storageKey), edit.png);
+      return { storageKey, time: edit.time, spreadFrames: edit.spreadFrames };
+    })
+  );
+  const payload: EditMaskJobPayload = { mask, edits };
+  const job = await enqueueJob({
+    type: "edit_mask",
+    userId,
+    payload: { ...payload },
+    maxAttempts: 2,
+  });
+  console.log("📥 Mask edit job queued:", job.id, edits.length);
+
+  return jsonResponse({ success: true, jobId: job.id, status: job.status }, 202);
+}
 
-  const result: any = {
-    id: prediction.id,
-    status: prediction.status,
-    created_at: new Date(prediction.createdAt).toISOString(),
+/**
+ * POST /api/processing/import-mask：上传在其他工具中做好的遮罩（multipart：file、assetId，可选 rangeStart / rangeEnd）
+ * 文件先保存到 out/，由 worker 转换为与源视频逐帧对应的二值遮罩，结构与 generate-mask 的结果相同，可直接用于 start-task
+ */
+async function handleImportMask(request: Request): Promise<Response> {
+  const userId = await requireUserId(request);
+  // 文件直接写入 out/，超过上限时立即中止
+  const received = await receiveMaskUpload(request);
+  if ("error" in received) {
+    return jsonResponse({ error: received.error }, received.status);
+  }
+  const { fields, file } = received.upload;
+  const { kind, storageKey } = file;
+  const reject = async (error: string, status: number) => {
+    await fs.promises.rm(nodePath.resolve(OUT_DIR, storageKey), { force: true });
+    return jsonResponse({ error }, status);
   };
+  const assetId = fields.assetId;
+  if (!assetId) {
+    return reject("Missing required fields: file, assetId", 400);
+  }
+  if (file.size === 0) {
+    return reject("Mask file is empty", 400);
+  }
 
-  if (prediction.status === "succeeded" && prediction.output) {
-    result.output = prediction.output;
-  } else if ((prediction as any).status === "failed" && (prediction as any).error) {
-    result.error = (prediction as any).error;
+  const asset = await getAssetById(assetId);
+  if (!asset || asset.user_id !== userId) {
+    return reject("Asset not found", 404);
   }
+  const range =
+    fields.rangeStart !== undefined && fields.rangeEnd !== undefined
+      ? normalizeRange({ start: Number(fields.rangeStart), end: Number(fields.rangeEnd) }, asset.duration_seconds)
+      : null;
+
+  const payload: ImportMaskJobPayload = {
+    assetId: asset.id,
+    storageKey,
+    kind,
+    segment: range ? { assetId: asset.id, range } : undefined,
+  };
+  const job = await enqueueJob({
+    type: "import_mask",
+    userId,
+    payload: { ...payload },
+    maxAttempts: 2,
+  });
+  console.log("📥 Mask import job queued:", job.id, { kind, size: file.size, range });
 
-  return result;
+  return jsonResponse({ success: true, jobId: job.id, status: job.status }, 202);
 }
 
 /**
- * 模拟 SAM3 API 调用
+ * POST /api/processing/export-mask：把任务使用的遮罩（taskId）或生成的遮罩（mask）导出为二值 MP4 或 PNG 序列 zip
+ * 由 worker 执行，完成后通过 GET /api/processing/export-mask/:jobId 下载
  */
-async function mockSAM3Prediction(input: any): Promise<any> {
-  const predictionId = `mock-sam3-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  
-  console.log("🎭 [MOCK] SAM3 prediction created:", predictionId);
-  console.log("🎭 [MOCK] Input:", JSON.stringify(input, null, 2));
+async function handleExportMask(request: Request): Promise<Response> {
+  const userId = await requireUserId(request);
+  const body = (await request.json()) as ExportMaskBody;
+  if (body.format !== "video" && body.format !== "png") {
+    return jsonResponse({ error: "format must be video or png" }, 400);
+  }
+  const format: MaskExportFormat = body.format;
+
+  let maskUrl: string | null | undefined;
+  let baseName = "mask";
+  if (body.taskId) {
+    const task = await getTaskById(body.taskId);
+    if (!task || task.user_id !== userId) {
+      return jsonResponse({ error: "Task not found" }, 404);
+    }
+    maskUrl = task.mask_url;
+    baseName = `mask_${task.id.slice(0, 8)}`;
+  } else if (body.mask?.maskVideoUrl || body.mask?.maskUrl) {
+    const mask = await ownedMask(userId, body.mask);
+    if (!mask) {
+      return jsonResponse({ error: "Mask not found" }, 404);
+    }
+    maskUrl = mask.maskVideoUrl || mask.maskUrl;
+  }
+  if (!maskUrl) {
+    return jsonResponse({ error: "Missing taskId or mask.maskVideoUrl" }, 400);
+  }
 
-  // 模拟立即返回结果（SAM3 通常很快）
-  return {
-    id: predictionId,
-    status: "succeeded",
-    output: [
-      "https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4", // 模拟遮罩视频 URL
-    ],
-    created_at: new Date().toISOString(),
+  const payload: ExportMaskJobPayload = {
+    maskUrl,
+    format,
+    filename: format === "video" ? `${baseName}.mp4` : `${baseName}_frames.zip`,
   };
+  const job = await enqueueJob({
+    type: "export_mask",
+    userId,
+    payload: { ...payload },
+    maxAttempts: 2,
+  });
+  console.log("📥 Mask export job queued:", job.id, format);
+
+  return jsonResponse({ success: true, jobId: job.id, status: job.status }, 202);
 }
 
-// 获取用户ID的辅助函数
-async function requireUserId(request: Request): Promise<string> {
+/**
+ * GET /api/processing/export-mask/:jobId：下载导出的遮罩
+ */
+async function handleExportMaskDownload(request: Request, jobId: string): Promise<Response> {
+  const userId = await requireUserId(request);
+  const job = await getJobById(jobId);
+  if (!job || job.user_id !== userId || job.type !== "export_mask" || job.status !== "succeeded") {
+    return jsonResponse({ error: "Export not found" }, 404);
+  }
+  const result = job.result as unknown as ExportMaskJobResult;
+  const filePath = nodePath.resolve(OUT_DIR, nodePath.basename(result.storageKey));
+  if (!fs.existsSync(filePath)) {
+    return jsonResponse({ error: "Exported file not found" }, 404);
+  }
+  const stat = fs.statSync(filePath);
+  return new Response(fs.createReadStream(filePath) as unknown as BodyInit, {
+    headers: {
+      "Content-Length": String(stat.size),
+      "Content-Type": filePath.endsWith(".zip") ? "application/zip" : "video/mp4",
+      "Content-Disposition": `attachment; filename="${encodeURIComponent(result.download.filename)}"`,
+    },
+  });
+}
+
+/**
+ * POST /api/processing/combine-masks：把多个对象的全视频遮罩合并为一个，一次修复或抠像所有对象
+ * 由 worker 执行，前端通过 /api/processing/job/:jobId 获取合并后的遮罩（结构与 generate-mask 相同）
+ */
+async function handleCombineMasks(request: Request): Promise<Response> {
+  const userId = await requireUserId(request);
+  const body = (await request.json()) as CombineMasksBody;
+  if (!Array.isArray(body.masks) || body.masks.length < 2 || body.masks.length > MAX_COMBINED_MASKS) {
+    return jsonResponse({ error: `masks must contain 2 to ${MAX_COMBINED_MASKS} masks` }, 400);
+  }
+  if (body.masks.some((mask) => !mask?.maskVideoUrl && !mask?.maskUrl)) {
+    return jsonResponse({ error: "Missing maskVideoUrl in masks" }, 400);
+  }
+  const owned = await Promise.all(body.masks.map((mask) => ownedMask(userId, mask)));
+  const masks = owned.filter((mask): mask is MaskJobResult["mask"] => mask !== null);
+  if (masks.length !== owned.length) {
+    return jsonResponse({ error: "Mask not found" }, 404);
+  }
+  // 按范围生成的遮罩只覆盖片段，范围不同时逐帧合并会错位
+  const rangeKey = (mask: CombineMasksJobPayload["masks"][number]) =>
+    mask.segment ? `${mask.segment.range.start}-${mask.segment.range.end}` : "full";
+  if (new Set(masks.map(rangeKey)).size > 1) {
+    return jsonResponse({ error: "All masks must cover the same time range" }, 400);
+  }
+
+  const payload: CombineMasksJobPayload = { masks };
+  const job = await enqueueJob({
+    type: "combine_masks",
+    userId,
+    payload: { ...payload },
+    maxAttempts: 2,
+  });
+  console.log("📥 Combine masks job queued:", job.id, masks.length);
+
+  return jsonResponse({ success: true, jobId: job.id, status: job.status }, 202);
+}
+
+/**
+ * POST /api/processing/refine-mask/preview：在选中帧上预览后处理的效果，返回 PNG
+ * 只处理选中帧附近的一段遮罩，调整参数时可以快速刷新
+ */
+async function handleRefineMaskPreview(request: Request): Promise<Response> {
+  const userId = await requireUserId(request);
+  const body = (await request.json()) as RefineMaskPreviewBody;
+  if (!body.assetId || (!body.mask?.maskVideoUrl && !body.mask?.maskUrl)) {
+    return jsonResponse({ error: "Missing required parameters: assetId, mask" }, 400);
+  }
+  const time = Number(body.time ?? 0);
+  if (!Number.isFinite(time) || time < 0) {
+    return jsonResponse({ error: "time must be a non-negative number" }, 400);
+  }
+  const parsed = parseMaskRefineOptions(body.options);
+  if ("error" in parsed) {
+    return jsonResponse({ error: parsed.error }, 400);
+  }
+
+  const asset = await getAssetById(body.assetId);
+  if (!asset || asset.user_id !== userId) {
+    return jsonResponse({ error: "Asset not found" }, 404);
+  }
+  const sourcePath = assetSourcePath(asset);
+  if (!sourcePath) {
+    return jsonResponse({ error: "Source file not found" }, 404);
+  }
+  const mask = await ownedMask(userId, body.mask);
+  const maskUrl = mask?.maskVideoUrl || mask?.maskUrl;
+  if (!mask || !maskUrl) {
+    return jsonResponse({ error: "Mask not found" }, 404);
+  }
+
+  // 按范围生成的遮罩从入点开始
+  const rangeStart = mask.segment?.range.start ?? 0;
+  const outputPath = nodePath.join(os.tmpdir(), `mask-preview-${crypto.randomUUID()}.png`);
   try {
-    const session = await auth.api?.getSession?.({ headers: request.headers });
-    const uid: string | undefined = session?.user?.id || session?.session?.userId;
-    if (uid) return String(uid);
-  } catch {
-    console.error("Failed to get session");
+    await renderMaskRefinePreview({
+      sourcePath,
+      maskUrl: localMediaInput(maskUrl),
+      sourceSeconds: time,
+      maskSeconds: Math.max(time - rangeStart, 0),
+      refine: parsed.options,
+      outputPath,
+    });
+    return new Response(fs.readFileSync(outputPath), {
+      headers: { "Content-Type": "image/png", "Cache-Control": "no-store" },
+    });
+  } finally {
+    fs.rmSync(outputPath, { force: true });
   }
-  throw new Response("Unauthorized", { status: 401 });
 }
 
 // 生成遮罩（调用 SAM3）
@@ -141,19 +871,66 @@ export async function action({ request, params }: ActionFunctionArgs) {
     const url = new URL(request.url);
     const path = url.pathname;
 
+    // 处理 /api/processing/webhook（提供方回调）
+    if (path.includes("/webhook")) {
+      return await handlePredictionWebhook(request);
+    }
+
+    // 处理 /api/processing/task/:taskId/cancel
+    const cancelMatch = path.match(/\/task\/([^/]+)\/cancel$/);
+    if (cancelMatch) {
+      return await handleCancelTask(request, decodeURIComponent(cancelMatch[1]));
+    }
+
+    // 处理 /api/processing/task/:taskId/retry（以新的参数重新运行）
+    const retryMatch = path.match(/\/task\/([^/]+)\/retry$/);
+    if (retryMatch) {
+      return await handleRetryTask(request, decodeURIComponent(retryMatch[1]));
+    }
+
+    // 处理 /api/processing/refine-mask/preview（选中帧上的后处理预览）
+    if (path.endsWith("/refine-mask/preview")) {
+      return await handleRefineMaskPreview(request);
+    }
+
+    // 处理 /api/processing/refine-mask（遮罩后处理）
+    if (path.endsWith("/refine-mask")) {
+      return await handleRefineMask(request);
+    }
+
+    // 处理 /api/processing/edit-mask（手动修正遮罩）
+    if (path.endsWith("/edit-mask")) {
+      return await handleEditMask(request);
+    }
+
+    // 处理 /api/processing/import-mask（上传遮罩文件）
+    if (path.endsWith("/import-mask")) {
+      return await handleImportMask(request);
+    }
+
+    // 处理 /api/processing/export-mask（导出遮罩文件）
+    if (path.endsWith("/export-mask")) {
+      return await handleExportMask(request);
+    }
+
+    // 处理 /api/processing/combine-masks（合并多个对象的遮罩）
+    if (path.endsWith("/combine-masks")) {
+      return await handleCombineMasks(request);
+    }
+
     // 处理 /api/processing/generate-mask
     if (path.includes("/generate-mask")) {
-      const body = await request.json();
-      const { 
-        textPrompt, 
-        videoUrl, 
-        frameImage, 
+      const body = (await request.json()) as GenerateMaskBody;
+      const {
+        textPrompt,
+        videoUrl,
+        frameImage,
         isSingleFrame = false,
-        visualPromptPoints, // 新增：视觉提示点数组
-        negativePrompt, // 新增：排除提示
-        imageWidth, // 新增：图片宽度
-        imageHeight, // 新增：图片高度
+        visualPromptPoints,
+        negativePrompt,
+        assetId,
       } = body;
+      const visualPromptBoxes = validPromptBoxes(body.visualPromptBoxes);
 
       console.log("🎭 Generating mask with SAM3:", {
         textPrompt,
@@ -161,554 +938,516 @@ export async function action({ request, params }: ActionFunctionArgs) {
         isSingleFrame,
         hasFrameImage: !!frameImage,
         visualPromptPointsCount: visualPromptPoints?.length || 0,
+        visualPromptBoxesCount: visualPromptBoxes.length,
         negativePrompt,
+        range: body.range,
       });
 
-      // 根据模拟模式选择调用真实 API 或模拟 API
-      let prediction: any;
-
-      if (MOCK_SAM3) {
-        console.log("🎭 Using MOCK mode for SAM3 (cost-saving mode)");
-        const replicateInput: any = {
-          prompt: textPrompt || "object",
-          mask_only: true, // 全视频遮罩：mask_only: true 返回纯遮罩给 ProPainter
-        };
-
-        if (isSingleFrame && frameImage) {
-          replicateInput.video = frameImage; // 使用 video 字段，传入图片 URL
-        } else if (videoUrl) {
-          replicateInput.video = videoUrl;
-        }
-
-        prediction = await mockSAM3Prediction(replicateInput);
-      } else {
-        // 检查 API Token
-        if (!REPLICATE_API_TOKEN) {
-          return new Response(
-            JSON.stringify({ error: "REPLICATE_API_TOKEN not configured" }),
-            { status: 500, headers: { "Content-Type": "application/json" } }
-          );
-        }
+      // 如果是单帧遮罩，使用 frameImage URL；否则使用 videoUrl
+      // 注意：SAM3-video 只接受 video 字段，即使是图片 URL 也要用 video
+      const video = isSingleFrame && frameImage ? frameImage : videoUrl;
+      if (!video) {
+        return jsonResponse({ error: "Either frameImage or videoUrl is required" }, 400);
+      }
 
-        // 调用 Replicate SAM3 API
-        // 根据 https://replicate.com/lucataco/sam3-video
-        // SAM3 只接受 video 字段（即使是图片 URL 也要用 video）
-        const replicateInput: any = {
+      const segmentationInput: SegmentationInput = {
+        video,
         // 提示策略：
         // - 有 textPrompt 用 textPrompt
         // - 否则回落一个最弱语义 "object"，避免 SAM3 报 No prompts available
         //   由于我们在前端已清空语义并仅使用正例点锁定实例，弱语义不会重新召回所有对象
-        prompt: textPrompt && textPrompt.trim() !== "" ? textPrompt : "object", // 使用 prompt 而不是 text_prompt
-        // 单帧预览：mask_only: false 返回带颜色的遮罩层用于可视化确认
-        // 全视频遮罩：mask_only: true 返回纯遮罩给 ProPainter
-        mask_only: !isSingleFrame, // 单帧为 false（可视化），全视频为 true（纯遮罩）
-        mask_opacity: 0.5, // 遮罩不透明度（仅在 mask_only: false 时有效）
+        prompt: textPrompt && textPrompt.trim() !== "" ? textPrompt : "object",
+        // 单帧预览：maskOnly: false 返回带颜色的遮罩层用于可视化确认
+        // 全视频遮罩：maskOnly: true 返回纯遮罩给 ProPainter
+        maskOnly: !isSingleFrame,
+        maskOpacity: 0.5,
+        negativePrompt: negativePrompt || undefined,
+        visualPrompt: buildVisualPrompt(visualPromptPoints || [], visualPromptBoxes, isSingleFrame),
       };
 
-        // 如果是单帧遮罩，使用 frameImage URL；否则使用 videoUrl
-        // 注意：SAM3-video 只接受 video 字段，即使是图片 URL 也要用 video
-        if (isSingleFrame && frameImage) {
-          replicateInput.video = frameImage; // 使用 video 字段，传入图片 URL
-        } else if (videoUrl) {
-          replicateInput.video = videoUrl;
-        } else {
-          return new Response(
-            JSON.stringify({ error: "Either frameImage or videoUrl is required" }),
-            { status: 400, headers: { "Content-Type": "application/json" } }
-          );
-        }
-
-        // 添加 negative_prompt（如果提供）
-        if (negativePrompt) {
-          replicateInput.negative_prompt = negativePrompt;
-          console.log("📌 Using negative_prompt:", negativePrompt);
-        }
-
-        // 添加 visual_prompt（如果提供点击点）
-        if (visualPromptPoints && visualPromptPoints.length > 0) {
-          try {
-            const points = visualPromptPoints.map((p: any) => [p.x, p.y]);
-            // 注意：使用 ?? 而不是 ||，因为 label: 0 是有效的（排除点）
-            const labels = visualPromptPoints.map((p: any) => p.label !== undefined ? p.label : 1);
-            // 单帧预览场景只有一帧，frame_index 必须为 0，否则 SAM3 会报 "No prompts available"
-            const frameIndex = isSingleFrame ? 0 : (visualPromptPoints[0]?.frameIndex ?? 0);
-            
-            const visualPromptJson = JSON.stringify({
-              points,
-              labels,
-              frame_index: frameIndex,
-            });
-            
-            replicateInput.visual_prompt = visualPromptJson;
-            console.log("📌 Using visual_prompt:", visualPromptJson);
-          } catch (error) {
-            console.warn("⚠️ Failed to build visual_prompt:", error);
-            // 如果构建失败，继续使用 text prompt
-          }
-        }
+      // 放入后台队列，由 worker 创建并轮询 prediction；前端通过 /api/processing/job/:jobId 查询结果
+      const userId = await requireUserId(request);
+      const payload: MaskJobPayload = { input: segmentationInput, isSingleFrame };
 
-        console.log("📤 Calling Replicate SAM3 API...");
-        // 创建安全的日志对象（避免打印完整的 base64 字符串）
-        const logInput = { ...replicateInput };
-        if (logInput.video && typeof logInput.video === "string" && logInput.video.startsWith("data:")) {
-          logInput.video = `[base64 data, length: ${logInput.video.length} chars]`;
+      // 单帧预览不受时间范围影响；全视频遮罩只为范围内的片段生成
+      if (body.range && !isSingleFrame) {
+        if (!assetId) {
+          return jsonResponse({ error: "assetId is required when range is set" }, 400);
         }
-        console.log("📤 Input:", JSON.stringify(logInput, null, 2));
-
-        // 创建预测 - 使用具体的模型版本
-        const predictionResponse = await fetch(
-        `${REPLICATE_API_URL}/predictions`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Token ${REPLICATE_API_TOKEN}`,
-          },
-          body: JSON.stringify({
-            version: "8cbab4c2a3133e679b5b863b80527f6b5c751ec7b33681b7e0b7c79c749df961", // 使用具体版本号
-            input: replicateInput,
-          }),
+        const asset = await getAssetById(assetId);
+        if (!asset || asset.user_id !== userId) {
+          return jsonResponse({ error: "Asset not found" }, 404);
         }
-      );
-
-        if (!predictionResponse.ok) {
-          const error = await predictionResponse.text();
-          console.error("❌ Replicate API error:", predictionResponse.status, error);
-          return new Response(
-            JSON.stringify({
-              error: `Replicate API error: ${predictionResponse.status} - ${error}`,
-            }),
-            {
-              status: predictionResponse.status,
-              headers: { "Content-Type": "application/json" },
-            }
-          );
+        const range = normalizeRange(body.range, asset.duration_seconds);
+        if (range) {
+          payload.segment = { assetId, range };
+          console.log("⏱️ Processing range only:", range);
         }
+      }
 
-        prediction = await predictionResponse.json();
-        console.log("✅ Replicate prediction created:", prediction.id);
-
-        // 轮询预测结果
-        let predictionResult = prediction;
-        const maxAttempts = 60; // 最多等待 60 秒
-        let attempts = 0;
-
-        while (
-          predictionResult.status !== "succeeded" &&
-          predictionResult.status !== "failed" &&
-          attempts < maxAttempts
-        ) {
-          await new Promise((resolve) => setTimeout(resolve, 1000)); // 等待 1 秒
-          attempts++;
-
-          const statusResponse = await fetch(
-            `${REPLICATE_API_URL}/predictions/${prediction.id}`,
-            {
-              headers: {
-                Authorization: `Token ${REPLICATE_API_TOKEN}`,
-              },
-            }
-          );
-
-          if (!statusResponse.ok) {
-            throw new Error(`Failed to get prediction status: ${statusResponse.status}`);
-          }
-
-          predictionResult = await statusResponse.json();
-          console.log(`🔄 Prediction status (attempt ${attempts}):`, predictionResult.status);
-
-          if (predictionResult.status === "succeeded") {
-            break;
-          }
+      // 全视频遮罩：各关键帧上的视觉提示按源视频帧率换算为遮罩视频中的帧索引
+      const prompts = [...(visualPromptPoints || []), ...visualPromptBoxes];
+      if (!isSingleFrame && assetId && prompts.some((prompt) => prompt.timestamp !== undefined)) {
+        const asset = await getAssetById(assetId);
+        const fps = asset && asset.user_id === userId ? await probeAssetFps(asset) : null;
+        const ranged = buildRangedVisualPrompt(visualPromptPoints || [], visualPromptBoxes, {
+          fps,
+          range: payload.segment?.range ?? null,
+        });
+        if ("error" in ranged) {
+          return jsonResponse({ error: ranged.error }, 400);
         }
+        segmentationInput.visualPrompt = ranged.visualPrompt;
+      }
 
-        if (predictionResult.status !== "succeeded") {
-          console.error("❌ SAM3 prediction failed:", predictionResult);
-          throw new Error(
-            `Prediction failed or timed out: ${predictionResult.status}`
-          );
-        }
+      if (segmentationInput.negativePrompt) {
+        console.log("📌 Using negative_prompt:", segmentationInput.negativePrompt);
+      }
+      if (segmentationInput.visualPrompt) {
+        console.log("📌 Using visual_prompt:", segmentationInput.visualPrompt);
+      }
 
-        // 获取结果
-        const output = predictionResult.output;
-        console.log("✅ SAM3 mask generated successfully, output:", output);
-
-        if (isSingleFrame) {
-          // 单帧遮罩预览：mask_only: false，返回带颜色的遮罩层用于可视化确认
-          // SAM3 返回的是单帧 MP4，前端需要提取第一帧显示
-          return new Response(
-            JSON.stringify({
-              success: true,
-              mask: {
-                preview: output, // MP4 URL，前端需要提取第一帧
-                maskUrl: output, // MP4 URL
-                maskVideoUrl: output, // 完整的 MP4 URL
-                predictionId: prediction.id,
-                isVideo: true, // 标记这是视频，需要提取第一帧
-              },
-            }),
-            { headers: { "Content-Type": "application/json" } }
-          );
-        } else {
-          // 全视频遮罩：mask_only: false，返回带颜色的遮罩视频（ProPainter 可以处理）
-          return new Response(
-            JSON.stringify({
-              success: true,
-              mask: {
-                preview: output, // 遮罩视频 URL（带颜色）
-                maskUrl: output,
-                maskVideoUrl: output, // 遮罩视频 URL，用于 ProPainter
-                predictionId: prediction.id,
-                isVideo: true,
-              },
-            }),
-            { headers: { "Content-Type": "application/json" } }
-          );
-        }
+      // 创建安全的日志对象（避免打印完整的 base64 字符串）
+      const logInput = { ...segmentationInput };
+      if (logInput.video.startsWith("data:")) {
+        logInput.video = `[base64 data, length: ${logInput.video.length} chars]`;
       }
+      console.log("📤 Input:", JSON.stringify(logInput, null, 2));
+
+      const job = await enqueueJob({
+        type: "generate_mask",
+        userId,
+        payload: { ...payload },
+      });
+      console.log("📥 Mask job queued:", job.id);
+
+      return jsonResponse({ success: true, jobId: job.id, status: job.status }, 202);
     }
 
     // 处理 /api/processing/start-task
     if (path.includes("/start-task")) {
-      const body = await request.json();
+      const body = (await request.json()) as StartTaskBody;
       const { assetId, action, maskData, textPrompt, videoUrl } = body;
+      const keepAudio = body.keepAudio !== false;
 
       console.log("🎬 Starting processing task:", {
         assetId,
         action,
         hasMaskData: !!maskData,
         textPrompt,
+        keepAudio,
+        preset: body.preset,
       });
 
       // 验证参数
       if (!assetId || !action || !maskData) {
-        return new Response(
-          JSON.stringify({ error: "Missing required parameters: assetId, action, maskData" }),
-          { status: 400, headers: { "Content-Type": "application/json" } }
-        );
+        return jsonResponse({ error: "Missing required parameters: assetId, action, maskData" }, 400);
       }
 
-      // 只支持 remove 操作（使用 ProPainter）
-      if (action !== "remove") {
-        return new Response(
-          JSON.stringify({ error: `Action "${action}" not supported yet. Only "remove" is supported.` }),
-          { status: 400, headers: { "Content-Type": "application/json" } }
+      // remove 使用 ProPainter 修复，extract 由 worker 用遮罩本地抠像
+      if (action !== "remove" && action !== "extract") {
+        return jsonResponse(
+          { error: `Action "${action}" not supported. Supported actions: remove, extract.` },
+          400
         );
       }
 
       // 获取视频 URL 和遮罩 URL
-      const inputVideoUrl = videoUrl || maskData.videoUrl;
-      const maskUrl = maskData.maskVideoUrl || maskData.maskUrl || maskData.preview;
+      const inputVideoUrl = videoUrl || maskData.videoUrl || "";
 
-      if (!inputVideoUrl || !maskUrl) {
-        return new Response(
-          JSON.stringify({ error: "Missing videoUrl or maskUrl in maskData" }),
-          { status: 400, headers: { "Content-Type": "application/json" } }
-        );
+      if (!maskData.maskVideoUrl && !maskData.maskUrl) {
+        return jsonResponse({ error: "Missing maskUrl in maskData" }, 400);
+      }
+      if (action === "remove" && !inputVideoUrl) {
+        return jsonResponse({ error: "Missing videoUrl or maskUrl in maskData" }, 400);
+      }
+      const resolved = resolveInpaintOptions({ preset: body.preset });
+      if ("error" in resolved) {
+        return jsonResponse({ error: resolved.error }, 400);
       }
+      const inpaint = action === "remove" ? resolved.options : undefined;
+      const objectNames = Array.isArray(body.objects)
+        ? body.objects.filter((name): name is string => typeof name === "string" && name.trim() !== "")
+        : [];
+      const objects = objectNames.length ? objectNames : undefined;
+
+      // worker 读取源文件并为当前用户创建新资产，需先确认资产归属
+      const userId = await requireUserId(request);
+      const asset = await getAssetById(assetId);
+      if (!asset || asset.user_id !== userId) {
+        return jsonResponse({ error: "Asset not found" }, 404);
+      }
+      // 遮罩地址会交给 ffmpeg 读取，只接受当前用户遮罩 job 生成的遮罩，片段和后处理参数也以 job 结果为准
+      const mask = await ownedMask(userId, maskData);
+      const maskUrl = mask?.maskVideoUrl || mask?.maskUrl;
+      if (!mask || !maskUrl) {
+        return jsonResponse({ error: "Mask not found" }, 404);
+      }
+      const segment = mask.segment;
+      const maskRefine = mask.refine;
 
-      console.log("📤 Calling ProPainter API...", {
-        videoUrl: inputVideoUrl,
+      // 重复提交（双击确认、网络重试）返回已有任务，不会再创建一次付费的 prediction
+      const idempotencyKey = request.headers.get("Idempotency-Key")?.trim() || body.idempotencyKey?.trim() || null;
+      if (idempotencyKey && idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+        return jsonResponse({ error: "Idempotency key is too long" }, 400);
+      }
+      const requestHash = taskRequestHash({
+        assetId,
+        action,
         maskUrl,
-        mockMode: MOCK_PROPAINTER,
+        videoUrl: action === "remove" ? inputVideoUrl : null,
+        range: segment?.range ?? null,
+        keepAudio,
+        inpaint,
       });
+      const existing = await findExistingTask(userId, idempotencyKey, requestHash);
+      if (existing === "conflict") {
+        return jsonResponse({ error: "Idempotency key was already used with different parameters" }, 422);
+      }
+      if (existing) {
+        console.log("♻️ Duplicate start-task, returning existing task:", existing.id);
+        return existingTaskResponse(existing);
+      }
 
-      // 构建 ProPainter 输入参数
-      // SAM3 已返回遮罩视频（mask_only: false，带颜色），ProPainter 可以处理
-      const propainterInput: any = {
-        video: inputVideoUrl,
-        mask: maskUrl, // 遮罩视频 URL（来自 SAM3，mask_only: false，带颜色）
-        mode: "video_inpainting", // 对象删除使用 video_inpainting 模式
-        fp16: true, // 使用半精度以降低内存使用和成本
-        resize_ratio: 0.5, // 缩放到 50% 以优化处理速度和效果
-        subvideo_length: 40, // 子视频长度，优化内存使用和处理效果
-        save_fps: 24, // 输出帧率
-      };
+      return await launchTask({
+        userId,
+        asset,
+        action,
+        maskUrl,
+        keepAudio,
+        processingParams:
+          action === "remove"
+            ? {
+                // 按范围处理时只修复遮罩对应的片段
+                videoUrl: segment ? segment.url : inputVideoUrl,
+                range: segment?.range,
+                objects,
+                maskRefine,
+                inpaint,
+                preset: resolved.preset ?? undefined,
+              }
+            : { range: segment?.range, objects, maskRefine },
+        idempotencyKey,
+        requestHash,
+      });
+    }
 
-      let prediction: any;
-
-      // 根据模拟模式选择调用真实 API 或模拟 API
-      if (MOCK_PROPAINTER) {
-        console.log("🎭 Using MOCK mode for ProPainter (cost-saving mode)");
-        prediction = await mockProPainterPrediction(propainterInput);
-      } else {
-        // 检查 API Token（仅在非模拟模式下需要）
-        if (!REPLICATE_API_TOKEN) {
-          return new Response(
-            JSON.stringify({ error: "REPLICATE_API_TOKEN not configured" }),
-            { status: 500, headers: { "Content-Type": "application/json" } }
-          );
-        }
+    return new Response("Not found", { status: 404 });
+  } catch (error) {
+    if (error instanceof Response) return error;
+    console.error("❌ Error in processing API:", error);
+    return jsonResponse(
+      { error: errorMessage(error) },
+      error instanceof ProviderError ? error.status : 500
+    );
+  }
+}
 
-        // 创建预测（真实 API 调用）
-        const predictionResponse = await fetch(
-          `${REPLICATE_API_URL}/predictions`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Token ${REPLICATE_API_TOKEN}`,
-            },
-            body: JSON.stringify({
-              version: PROPAINTER_VERSION,
-              input: propainterInput,
-            }),
-          }
-        );
+interface TaskStatusResponse {
+  taskId: string;
+  status: string;
+  message: string;
+  percentage: number;
+  etaSeconds?: number; // 预计剩余时间，仅在处理中且能估计时返回
+  outputUrl?: string;
+  outputUrls?: string[];
+  outputAssetId?: string; // 输出保存为资产时的资产 ID
+  framesUrl?: string; // extract 的 PNG 序列 zip
+  error?: string | null;
+}
 
-        if (!predictionResponse.ok) {
-          const error = await predictionResponse.text();
-          console.error("❌ ProPainter API error:", predictionResponse.status, error);
-          return new Response(
-            JSON.stringify({
-              error: `ProPainter API error: ${predictionResponse.status} - ${error}`,
-            }),
-            {
-              status: predictionResponse.status,
-              headers: { "Content-Type": "application/json" },
-            }
-          );
-        }
+/**
+ * 由数据库中的任务记录生成状态响应（worker 与 webhook 负责更新记录）
+ */
+function taskStatusResponse(task: Task): TaskStatusResponse {
+  const response: TaskStatusResponse = {
+    taskId: task.id,
+    status: task.status,
+    message: "",
+    percentage: task.progress || 0,
+  };
 
-        prediction = await predictionResponse.json();
-        console.log("✅ ProPainter prediction created:", prediction.id);
+  switch (task.status) {
+    case "pending":
+      response.message = "任务排队中...";
+      break;
+    case "processing":
+      response.message = "正在处理视频...";
+      response.percentage = Math.max(task.progress || 0, 5);
+      if (task.eta_seconds != null) {
+        response.etaSeconds = task.eta_seconds;
       }
-
-      // 获取用户ID并创建任务记录（使用 prediction.id 作为任务ID）
-      try {
-        const userId = await requireUserId(request);
-        const maskUrl = maskData.maskVideoUrl || maskData.maskUrl || maskData.preview;
-        
-        // 创建任务记录到数据库，使用 prediction.id 作为任务ID
-        // 这样可以直接通过 taskId 查找和更新任务
-        const { createTask } = await import("~/lib/tasks.repo");
-        
-        await createTask({
-          id: prediction.id, // 使用 prediction.id 作为任务ID
-          user_id: userId,
-          asset_id: assetId,
-          action: action as "remove" | "extract",
-          status: "processing",
-          progress: 0,
-          mask_url: maskUrl,
-        });
-        console.log("✅ Task created in database:", prediction.id);
-      } catch (error: any) {
-        // 如果创建任务失败，记录错误但不影响API响应
-        // 因为任务ID（prediction.id）仍然可以用于查询状态
-        console.warn("⚠️ Failed to create task in database:", error.message);
+      break;
+    case "completed":
+      response.message = task.output_url ? "处理完成" : "处理完成，但未找到输出";
+      response.percentage = 100;
+      if (task.output_url) {
+        response.outputUrl = task.output_url;
+        response.outputUrls = [task.output_url];
+      }
+      if (task.output_asset_id) {
+        response.outputAssetId = task.output_asset_id;
+        if (task.action === "extract") {
+          response.framesUrl = `/api/assets/${task.output_asset_id}/frames`;
+          response.outputUrls?.push(response.framesUrl);
+        }
       }
+      break;
+    case "failed":
+      response.message = task.error_message || "处理失败";
+      response.percentage = 0;
+      response.error = task.error_message;
+      break;
+    case "cancelled":
+      response.message = "任务已取消";
+      break;
+  }
+  return response;
+}
+
+// 用户任务流中的一条：状态响应加上列表展示需要的字段
+interface TaskEventData extends TaskStatusResponse {
+  action: Task["action"];
+  createdAt: string;
+  updatedAt: string;
+}
+
+function isTaskFinished(task: Task): boolean {
+  return task.status === "completed" || task.status === "failed" || task.status === "cancelled";
+}
+
+// pg 返回 Date，Supabase 返回字符串
+function toIsoString(value: string | Date): string {
+  return new Date(value).toISOString();
+}
+
+/**
+ * GET /api/processing/task/:taskId/events：推送单个任务的状态、进度和输出变化，任务结束后关闭连接
+ */
+async function handleTaskEvents(request: Request, taskId: string): Promise<Response> {
+  const userId = await requireUserId(request);
+  const task = await getTaskById(taskId);
+  if (!task || task.user_id !== userId) {
+    return jsonResponse({ error: "Task not found" }, 404);
+  }
 
-      // 返回任务 ID（使用 prediction.id 作为任务 ID）
-      return new Response(
-        JSON.stringify({
-          success: true,
-          taskId: prediction.id,
-          status: prediction.status,
-          message: "任务已启动",
-        }),
-        { headers: { "Content-Type": "application/json" } }
-      );
+  let lastSent = "";
+  return eventStreamResponse(request, async () => {
+    const current = await getTaskById(taskId);
+    if (!current) return { events: [], done: true };
+    const status = taskStatusResponse(current);
+    const serialized = JSON.stringify(status);
+    const changed = serialized !== lastSent;
+    lastSent = serialized;
+    return {
+      events: changed ? [{ event: "status", data: status }] : [],
+      done: isTaskFinished(current),
+    };
+  });
+}
+
+/**
+ * GET /api/processing/tasks/events：推送当前用户所有任务的变化（新建的任务也会推送）
+ * 首次连接只推送之后的变化，可用 ?since= 指定起点；断线重连时从 Last-Event-ID 继续
+ */
+async function handleUserTaskEvents(request: Request, url: URL): Promise<Response> {
+  const userId = await requireUserId(request);
+  const requested = request.headers.get("Last-Event-ID") || url.searchParams.get("since");
+  let since = requested && !Number.isNaN(Date.parse(requested)) ? toIsoString(requested) : new Date().toISOString();
+
+  return eventStreamResponse(request, async () => {
+    const tasks = await listTasksUpdatedSince(userId, since);
+    const events = tasks.map((task) => {
+      const updatedAt = toIsoString(task.updated_at);
+      const data: TaskEventData = {
+        ...taskStatusResponse(task),
+        action: task.action,
+        createdAt: toIsoString(task.created_at),
+        updatedAt,
+      };
+      return { event: "task", id: updatedAt, data };
+    });
+    if (tasks.length > 0) {
+      since = toIsoString(tasks[tasks.length - 1].updated_at);
     }
+    return { events };
+  });
+}
 
-    return new Response("Not found", { status: 404 });
-  } catch (error: any) {
-    console.error("❌ Error in processing API:", error);
-    return new Response(
-      JSON.stringify({
-        error: error.message || "Internal server error",
-      }),
-      {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      }
-    );
+/**
+ * 资产的帧率：资产表不保存帧率，从 out/ 下的源文件读取，读取失败时返回 null
+ */
+async function probeAssetFps(asset: AssetRecord): Promise<number | null> {
+  const sourcePath = assetSourcePath(asset);
+  if (!sourcePath) return null;
+  const info = await probeMedia(sourcePath).catch(() => null);
+  return info?.fps ?? null;
+}
+
+/**
+ * GET /api/processing/estimate?assetId=&action=remove|extract&start=&end=&preset=
+ * 确认操作前的费用和耗时估计：价格与 start-task 预留的一致，耗时参考最近完成的同类任务
+ * remove 可以传质量预设，以及重新运行时单独修改的 resizeRatio、subvideoLength、fp16
+ */
+async function handleEstimate(request: Request, url: URL): Promise<Response> {
+  const userId = await requireUserId(request);
+  const assetId = url.searchParams.get("assetId");
+  const action = url.searchParams.get("action");
+  if (!assetId) {
+    return jsonResponse({ error: "assetId is required" }, 400);
   }
+  if (action !== "remove" && action !== "extract") {
+    return jsonResponse({ error: `Action "${action}" not supported. Supported actions: remove, extract.` }, 400);
+  }
+
+  const numberParam = (name: string) => (url.searchParams.has(name) ? Number(url.searchParams.get(name)) : undefined);
+  const resolved = resolveInpaintOptions({
+    preset: url.searchParams.get("preset") ?? undefined,
+    resizeRatio: numberParam("resizeRatio"),
+    subvideoLength: numberParam("subvideoLength"),
+    fp16: url.searchParams.has("fp16") ? url.searchParams.get("fp16") === "true" : undefined,
+  });
+  if ("error" in resolved) {
+    return jsonResponse({ error: resolved.error }, 400);
+  }
+
+  const asset = await getAssetById(assetId);
+  if (!asset || asset.user_id !== userId) {
+    return jsonResponse({ error: "Asset not found" }, 404);
+  }
+
+  const start = url.searchParams.get("start");
+  const end = url.searchParams.get("end");
+  const range =
+    start !== null && end !== null ? normalizeRange({ start: Number(start), end: Number(end) }, asset.duration_seconds) : null;
+  const [fps, balance, history] = await Promise.all([
+    probeAssetFps(asset),
+    getCreditBalance(userId),
+    listRecentCompletedTasks(action),
+  ]);
+  const secondsPerCredit = medianSecondsPerCredit(history);
+  const params: Parameters<typeof estimateTaskCredits>[0] = {
+    action,
+    durationSeconds: taskDurationSeconds(asset, range),
+    width: asset.width,
+    height: asset.height,
+    qualityMultiplier: taskQualityMultiplier(action, resolved.options),
+  };
+  const credits = estimateTaskCredits(params);
+
+  return jsonResponse({
+    credits,
+    estimatedSeconds: estimateProcessingSeconds({ ...params, fps, secondsPerCredit }),
+    balance,
+    sufficient: balance >= credits,
+    durationSeconds: params.durationSeconds,
+    width: asset.width,
+    height: asset.height,
+    fps,
+    basedOnHistory: secondsPerCredit !== null,
+    inpaintOptions: action === "remove" ? resolved.options : null,
+  });
 }
 
-// Loader 函数（如果需要）
+// Loader 函数
 export async function loader({ request, params }: LoaderFunctionArgs) {
   const url = new URL(request.url);
   const path = url.pathname;
 
-  // 处理 GET /api/processing/task/:taskId
-  if (path.includes("/task/")) {
-    const taskId = path.split("/task/")[1]?.split("?")[0]; // 提取 taskId，移除查询参数
+  // 处理 GET /api/processing/estimate（确认前的费用和耗时估计）
+  if (path.endsWith("/estimate")) {
+    try {
+      return await handleEstimate(request, url);
+    } catch (error) {
+      if (error instanceof Response) throw error;
+      console.error("❌ Error estimating task:", error);
+      return jsonResponse({ error: errorMessage(error) }, 500);
+    }
+  }
 
-    if (!taskId) {
-      return new Response(
-        JSON.stringify({ error: "Task ID is required" }),
-        { status: 400, headers: { "Content-Type": "application/json" } }
-      );
+  // 处理 GET /api/processing/tasks/events（当前用户所有任务的状态推送）
+  if (path.endsWith("/tasks/events")) {
+    try {
+      return await handleUserTaskEvents(request, url);
+    } catch (error) {
+      if (error instanceof Response) throw error;
+      console.error("❌ Error opening task event stream:", error);
+      return jsonResponse({ error: errorMessage(error) }, 500);
     }
+  }
 
-    console.log("📊 Querying task status:", taskId, { mockMode: MOCK_PROPAINTER });
-
-    let prediction: any;
-
-    // 根据模拟模式选择查询真实 API 或模拟状态
-    if (MOCK_PROPAINTER && taskId.startsWith("mock-")) {
-      // 模拟模式：从内存中获取状态
-      console.log("🎭 [MOCK] Getting prediction status");
-      prediction = getMockPredictionStatus(taskId);
-      console.log("📊 [MOCK] Prediction status:", prediction.status);
-    } else {
-      // 真实 API 模式
-      // 检查 API Token
-      if (!REPLICATE_API_TOKEN) {
-        return new Response(
-          JSON.stringify({ error: "REPLICATE_API_TOKEN not configured" }),
-          { status: 500, headers: { "Content-Type": "application/json" } }
-        );
-      }
+  // 处理 GET /api/processing/task/:taskId/events（单个任务的状态推送）
+  const taskEventsMatch = path.match(/\/task\/([^/]+)\/events$/);
+  if (taskEventsMatch) {
+    try {
+      return await handleTaskEvents(request, decodeURIComponent(taskEventsMatch[1]));
+    } catch (error) {
+      if (error instanceof Response) throw error;
+      console.error("❌ Error opening task event stream:", error);
+      return jsonResponse({ error: errorMessage(error) }, 500);
+    }
+  }
 
-      try {
-        // 查询预测状态
-        const statusResponse = await fetch(
-          `${REPLICATE_API_URL}/predictions/${taskId}`,
-          {
-            headers: {
-              Authorization: `Token ${REPLICATE_API_TOKEN}`,
-            },
-          }
-        );
+  // 处理 GET /api/processing/export-mask/:jobId（下载导出的遮罩）
+  const exportMatch = path.match(/\/export-mask\/([^/]+)$/);
+  if (exportMatch) {
+    try {
+      return await handleExportMaskDownload(request, decodeURIComponent(exportMatch[1]));
+    } catch (error) {
+      if (error instanceof Response) throw error;
+      console.error("❌ Error downloading exported mask:", error);
+      return jsonResponse({ error: errorMessage(error) }, 500);
+    }
+  }
 
-        if (!statusResponse.ok) {
-          const error = await statusResponse.text();
-          console.error("❌ Failed to get prediction status:", statusResponse.status, error);
-          return new Response(
-            JSON.stringify({
-              error: `Failed to get prediction status: ${statusResponse.status}`,
-              status: "error",
-            }),
-            {
-              status: statusResponse.status,
-              headers: { "Content-Type": "application/json" },
-            }
-          );
-        }
+  // 处理 GET /api/processing/job/:jobId（遮罩生成等后台任务的结果）
+  if (path.includes("/job/")) {
+    const jobId = path.split("/job/")[1]?.split("?")[0];
+    if (!jobId) {
+      return jsonResponse({ error: "Job ID is required" }, 400);
+    }
 
-        prediction = await statusResponse.json();
-        console.log("📊 Prediction status:", prediction.status);
-      } catch (error: any) {
-        console.error("❌ Error querying task status:", error);
-        return new Response(
-          JSON.stringify({
-            error: error.message || "Internal server error",
-            status: "error",
-          }),
-          {
-            status: 500,
-            headers: { "Content-Type": "application/json" },
-          }
-        );
+    try {
+      const userId = await requireUserId(request);
+      const job = await getJobById(jobId);
+      if (!job || job.user_id !== userId) {
+        return jsonResponse({ error: "Job not found" }, 404);
       }
+      return jsonResponse({
+        jobId: job.id,
+        type: job.type,
+        status: job.status,
+        taskId: job.task_id,
+        error: job.status === "failed" ? job.last_error : job.status === "cancelled" ? "cancelled" : undefined,
+        ...(job.status === "succeeded" ? job.result : {}),
+      });
+    } catch (error) {
+      if (error instanceof Response) throw error;
+      console.error("❌ Error querying job status:", error);
+      return jsonResponse({ error: errorMessage(error), status: "error" }, 500);
     }
+  }
 
-    try {
+  // 处理 GET /api/processing/task/:taskId
+  if (path.includes("/task/")) {
+    const taskId = path.split("/task/")[1]?.split("?")[0]; // 提取 taskId，移除查询参数
 
-      // 根据状态返回相应的响应
-      let response: any = {
-        taskId,
-        status: prediction.status,
-        message: "",
-        percentage: 0,
-      };
+    if (!taskId) {
+      return jsonResponse({ error: "Task ID is required" }, 400);
+    }
 
-      switch (prediction.status) {
-        case "starting":
-          response.message = "任务正在启动...";
-          response.percentage = 5;
-          break;
-        case "processing":
-          response.message = "正在处理视频...";
-          response.percentage = 50;
-          
-          // 更新数据库中的任务进度
-          try {
-            await updateTask(taskId, {
-              status: "processing",
-              progress: 50,
-            });
-          } catch (error: any) {
-            // 静默失败，不影响API响应
-            console.warn("⚠️ Failed to update task progress:", error.message);
-          }
-          break;
-        case "succeeded":
-          // 获取输出结果
-          const output = prediction.output;
-          if (Array.isArray(output) && output.length > 0) {
-            // ProPainter 返回的是 URL 数组
-            response.message = "处理完成";
-            response.percentage = 100;
-            response.outputUrl = output[0]; // 第一个 URL 是处理后的视频
-            response.outputUrls = output; // 所有输出 URL
-            response.status = "completed";
-            
-            // 更新数据库中的任务记录
-            try {
-              await updateTask(taskId, {
-                status: "completed",
-                progress: 100,
-                output_url: output[0],
-              });
-              console.log("✅ Task updated in database:", taskId);
-            } catch (error: any) {
-              // 如果更新失败，记录错误但不影响API响应
-              console.warn("⚠️ Failed to update task in database:", error.message);
-            }
-          } else {
-            response.message = "处理完成，但未找到输出";
-            response.percentage = 100;
-            response.status = "completed";
-          }
-          break;
-        case "failed":
-          response.message = prediction.error || "处理失败";
-          response.percentage = 0;
-          response.status = "failed";
-          response.error = prediction.error;
-          
-          // 更新数据库中的任务记录
-          try {
-            await updateTask(taskId, {
-              status: "failed",
-              progress: 0,
-              error_message: prediction.error || "处理失败",
-            });
-            console.log("✅ Task marked as failed in database:", taskId);
-          } catch (error: any) {
-            // 如果更新失败，记录错误但不影响API响应
-            console.warn("⚠️ Failed to update task in database:", error.message);
-          }
-          break;
-        case "canceled":
-          response.message = "任务已取消";
-          response.percentage = 0;
-          response.status = "cancelled";
-          break;
-        default:
-          response.message = `状态: ${prediction.status}`;
-          response.percentage = 10;
-      }
+    console.log("📊 Querying task status:", taskId);
 
-      return new Response(
-        JSON.stringify(response),
-        { headers: { "Content-Type": "application/json" } }
-      );
-    } catch (error: any) {
-      console.error("❌ Error processing task status:", error);
-      return new Response(
-        JSON.stringify({
-          error: error.message || "Internal server error",
-          status: "error",
-        }),
-        {
-          status: 500,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
+    try {
+      // 任务状态由 worker 和 webhook 写入数据库，这里只读数据库
+      const task = await getTaskById(taskId);
+      if (!task) {
+        return jsonResponse({ error: "Task not found", status: "error" }, 404);
+      }
+      return jsonResponse(taskStatusResponse(task));
+    } catch (error) {
+      console.error("❌ Error querying task status:", error);
+      return jsonResponse({ error: errorMessage(error), status: "error" }, 500);
     }
   }
 
@@ -0,0 +1,167 @@
+import { auth } from "~/lib/auth.server";
+import { listCreditTransactions } from "~/lib/credits.repo";
+import {
+  countTasksByStatus,
+  getTaskWithAssets,
+  listTasksWithAssets,
+  type Task,
+  type TaskListOptions,
+} from "~/lib/tasks.repo";
+import {
+  toTaskListItem,
+  type TaskDetail,
+  type TaskListItem,
+  type TaskListResponse,
+  type TaskSummaryResponse,
+} from "~/lib/task-history";
+
+async function requireUserId(request: Request): Promise<string> {
+  try {
+    const session = await auth.api?.getSession?.({ headers: request.headers });
+    const uid: string | undefined = session?.user?.id || session?.session?.userId;
+    if (uid) return String(uid);
+  } catch {
+    console.error("Failed to get session");
+  }
+  throw new Response("Unauthorized", { status: 401 });
+}
+
+function jsonResponse(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+const TASK_STATUSES: Task["status"][] = ["pending", "processing", "completed", "failed", "cancelled"];
+const TASK_ACTIONS: Task["action"][] = ["remove", "extract"];
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * 游标：上一页最后一个任务的 created_at 和 id（base64url 编码）
+ */
+function encodeCursor(task: TaskListItem): string {
+  return Buffer.from(JSON.stringify([task.created_at, task.id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): TaskListOptions["cursor"] {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, "base64url").toString()) as [unknown, unknown];
+    if (typeof createdAt === "string" && typeof id === "string" && !Number.isNaN(Date.parse(createdAt))) {
+      return { createdAt, id };
+    }
+  } catch {
+    // 无效游标
+  }
+  return null;
+}
+
+/**
+ * 日期参数：ISO 时间或 YYYY-MM-DD；endOfDay 时 YYYY-MM-DD 表示当天结束（用于 to，包含当天）
+ */
+function parseDateParam(value: string | null, endOfDay = false): string | null | "invalid" {
+  if (!value) return null;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return "invalid";
+  const dayOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  return new Date(dayOnly && endOfDay ? time + 24 * 60 * 60 * 1000 : time).toISOString();
+}
+
+/**
+ * GET /api/tasks?limit=&cursor=&status=&action=&from=&to=
+ */
+async function handleListTasks(userId: string, url: URL): Promise<Response> {
+  const params = url.searchParams;
+  const limit = Math.min(Math.max(Number(params.get("limit")) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  const status = params.get("status");
+  if (status && !TASK_STATUSES.includes(status as Task["status"])) {
+    return jsonResponse({ error: `Invalid status: ${status}` }, 400);
+  }
+  const action = params.get("action");
+  if (action && !TASK_ACTIONS.includes(action as Task["action"])) {
+    return jsonResponse({ error: `Invalid action: ${action}` }, 400);
+  }
+  const from = parseDateParam(params.get("from"));
+  const to = parseDateParam(params.get("to"), true);
+  if (from === "invalid" || to === "invalid") {
+    return jsonResponse({ error: "Invalid date filter" }, 400);
+  }
+  const rawCursor = params.get("cursor");
+  const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+  if (rawCursor && !cursor) {
+    return jsonResponse({ error: "Invalid cursor" }, 400);
+  }
+
+  const rows = await listTasksWithAssets(userId, {
+    limit,
+    cursor,
+    status: (status as Task["status"]) || undefined,
+    action: (action as Task["action"]) || undefined,
+    from: from ?? undefined,
+    to: to ?? undefined,
+  });
+  const tasks = rows.map(toTaskListItem);
+  const last = tasks[tasks.length - 1];
+  const body: TaskListResponse = { tasks, nextCursor: tasks.length === limit && last ? encodeCursor(last) : null };
+  return jsonResponse(body);
+}
+
+/**
+ * GET /api/tasks/summary：各状态的任务数
+ */
+async function handleSummary(userId: string): Promise<Response> {
+  const counts = await countTasksByStatus(userId);
+  const body: TaskSummaryResponse = {
+    total: Object.values(counts).reduce((sum, count) => sum + (count ?? 0), 0),
+    counts,
+  };
+  return jsonResponse(body);
+}
+
+/**
+ * GET /api/tasks/:id：任务详情，包含处理参数和该任务的 credits 流水
+ */
+async function handleTaskDetail(userId: string, taskId: string): Promise<Response> {
+  const task = await getTaskWithAssets(taskId, userId);
+  if (!task) {
+    return jsonResponse({ error: "Task not found" }, 404);
+  }
+  const transactions = await listCreditTransactions(userId, { taskId, limit: 20 });
+  const detail: TaskDetail = {
+    ...toTaskListItem(task),
+    mask_url: task.mask_url ?? null,
+    keep_audio: task.keep_audio !== false,
+    output_asset_name: task.output_asset_name,
+    credits_reserved: Number(task.credits_reserved) || 0,
+    parent_task_id: task.parent_task_id ?? null,
+    processing_params: task.processing_params ?? null,
+    credit_transactions: transactions,
+  };
+  return jsonResponse({ task: detail });
+}
+
+export async function loader({ request }: { request: Request }) {
+  try {
+    const userId = await requireUserId(request);
+    const url = new URL(request.url);
+    const pathname = url.pathname.replace(/\/+$/, "");
+
+    if (pathname.endsWith("/api/tasks")) {
+      return await handleListTasks(userId, url);
+    }
+    if (pathname.endsWith("/api/tasks/summary")) {
+      return await handleSummary(userId);
+    }
+    const detailMatch = pathname.match(/\/api\/tasks\/([^/]+)$/);
+    if (detailMatch) {
+      return await handleTaskDetail(userId, decodeURIComponent(detailMatch[1]));
+    }
+    return new Response("Not found", { status: 404 });
+  } catch (error) {
+    if (error instanceof Response) throw error;
+    console.error("Failed to get tasks:", error);
+    return jsonResponse({ error: "Failed to get tasks" }, 500);
+  }
+}
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router";
 import { Button } from "~/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
@@ -7,6 +7,10 @@ import { Progress } from "~/components/ui/progress";
 import { useAuth } from "~/hooks/useAuth";
 import { ProfileMenu } from "~/components/ui/ProfileMenu";
 import { KimuLogo } from "~/components/ui/KimuLogo";
+import { VersionHistoryDialog } from "~/components/object-selection/VersionHistoryDialog";
+import { TaskDetailDialog } from "~/components/tasks/TaskDetailDialog";
+import { Input } from "~/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
 import {
   Upload,
   Link as LinkIcon,
@@ -23,8 +27,13 @@ import {
   FileVideo,
   Zap,
   Download,
+  History,
+  Pencil,
 } from "lucide-react";
 import { cn } from "~/lib/utils";
+import { formatEta } from "~/lib/progress";
+import { subscribeUserTasks, type UserTaskEvent } from "~/lib/processing.client";
+import type { TaskListItem, TaskListResponse, TaskSummaryResponse } from "~/lib/task-history";
 import { auth } from "~/lib/auth.server";
 
 // 任务状态类型
@@ -35,20 +44,65 @@ type TaskStatus =
   | "mask_generating"
   | "processing"
   | "completed"
-  | "failed";
+  | "failed"
+  | "cancelled";
 
-type TaskType = "remove" | "extract";
+type Task = TaskListItem;
 
-interface Task {
+interface TaskFilters {
+  status: Task["status"] | "all";
+  action: Task["action"] | "all";
+  from: string; // YYYY-MM-DD，包含当天
+  to: string;
+}
+
+const DEFAULT_TASK_FILTERS: TaskFilters = { status: "all", action: "all", from: "", to: "" };
+
+// 原始上传及其派生版本数
+interface OriginalAsset {
   id: string;
-  type: TaskType;
-  status: TaskStatus;
-  video_url?: string;
-  output_video_url?: string;
-  credits_cost?: number;
-  progress?: number;
+  name: string;
+  durationInSeconds: number | null;
   created_at: string;
-  updated_at: string;
+  versionCount: number;
+}
+
+const TASKS_PAGE_SIZE = 10;
+
+// 由服务端的状态计数计算统计
+function taskCounts(summary: TaskSummaryResponse): Pick<DashboardStats, "totalTasks" | "activeTasks" | "completedTasks"> {
+  return {
+    totalTasks: summary.total,
+    activeTasks: (summary.counts.pending ?? 0) + (summary.counts.processing ?? 0),
+    completedTasks: summary.counts.completed ?? 0,
+  };
+}
+
+// 任务推送中会变化的字段（推送不含资产信息，列表中已有的保留）
+function taskUpdateFromEvent(event: UserTaskEvent): Partial<Task> {
+  return {
+    status: event.status,
+    progress: event.percentage,
+    eta_seconds: event.etaSeconds ?? null,
+    output_url: event.outputUrl ?? null,
+    output_asset_id: event.outputAssetId ?? null,
+    error_message: event.error ?? null,
+    updated_at: event.updatedAt,
+  };
+}
+
+function taskListQuery(filters: TaskFilters, cursor: string | null): string {
+  const params = new URLSearchParams({ limit: String(TASKS_PAGE_SIZE) });
+  if (filters.status !== "all") params.set("status", filters.status);
+  if (filters.action !== "all") params.set("action", filters.action);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (cursor) params.set("cursor", cursor);
+  return params.toString();
+}
+
+function hasTaskFilters(filters: TaskFilters): boolean {
+  return filters.status !== "all" || filters.action !== "all" || !!filters.from || !!filters.to;
 }
 
 interface DashboardStats {
@@ -86,8 +140,30 @@ export default function Dashboard() {
     creditsBalance: 0,
   });
   const [recentTasks, setRecentTasks] = useState<Task[]>([]);
+  const [taskFilters, setTaskFilters] = useState<TaskFilters>(DEFAULT_TASK_FILTERS);
+  const [tasksCursor, setTasksCursor] = useState<string | null>(null);
+  const [loadingTasks, setLoadingTasks] = useState(false);
+  const [detailTaskId, setDetailTaskId] = useState<string | null>(null); // 正在查看详情的任务
+  const taskFiltersRef = useRef(taskFilters);
+  taskFiltersRef.current = taskFilters;
+  const recentTasksRef = useRef(recentTasks);
+  recentTasksRef.current = recentTasks;
+  const [recentAssets, setRecentAssets] = useState<OriginalAsset[]>([]);
+  const [versionAssetId, setVersionAssetId] = useState<string | null>(null); // 正在查看版本历史的资产
   const [starCount, setStarCount] = useState<number | null>(null);
 
+  // 任务统计（所有任务，不受筛选影响）
+  const loadTaskSummary = useCallback(async () => {
+    try {
+      const res = await fetch("/api/tasks/summary", { credentials: "include" });
+      if (!res.ok) return;
+      const summary = (await res.json()) as TaskSummaryResponse;
+      setStats((prev) => ({ ...prev, ...taskCounts(summary) }));
+    } catch (error) {
+      console.error("Failed to load task summary:", error);
+    }
+  }, []);
+
   // 获取统计数据
   useEffect(() => {
     const loadData = async () => {
@@ -102,28 +178,14 @@ export default function Dashboard() {
           setStats((prev) => ({ ...prev, creditsBalance: 0 }));
         }
 
-        // 获取任务列表
-        const tasksRes = await fetch("/api/tasks?limit=5", { credentials: "include" });
-        if (tasksRes.ok) {
-          const tasksData = await tasksRes.json();
-          const tasks = tasksData.tasks || [];
-          setRecentTasks(tasks);
-
-          // 计算统计
-          setStats((prev) => ({
-            ...prev,
-            totalTasks: tasks.length,
-            activeTasks: tasks.filter((t: Task) =>
-              ["pending", "uploading", "preprocessing", "mask_generating", "processing"].includes(
-                t.status,
-              ),
-            ).length,
-            completedTasks: tasks.filter((t: Task) => t.status === "completed").length,
-          }));
-        } else if (tasksRes.status === 404) {
-          // API 未实现时使用空数组
-          setRecentTasks([]);
+        // 获取最近上传的视频（含版本数）
+        const assetsRes = await fetch("/api/assets/originals?limit=6", { credentials: "include" });
+        if (assetsRes.ok) {
+          const assetsData = await assetsRes.json();
+          setRecentAssets(assetsData.assets || []);
         }
+
+        await loadTaskSummary();
       } catch (error) {
         console.error("Failed to load dashboard data:", error);
       } finally {
@@ -134,7 +196,55 @@ export default function Dashboard() {
     if (user) {
       loadData();
     }
-  }, [user]);
+  }, [user, loadTaskSummary]);
+
+  // 加载任务列表：cursor 为空时按当前筛选重新加载第一页，否则追加下一页
+  const loadTasks = useCallback(async (filters: TaskFilters, cursor: string | null) => {
+    setLoadingTasks(true);
+    try {
+      const res = await fetch(`/api/tasks?${taskListQuery(filters, cursor)}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`Failed to load tasks: ${res.status}`);
+      const data = (await res.json()) as TaskListResponse;
+      // 筛选已变化时丢弃过期的结果
+      if (filters !== taskFiltersRef.current) return;
+      setRecentTasks((prev) => (cursor ? [...prev, ...data.tasks] : data.tasks));
+      setTasksCursor(data.nextCursor);
+    } catch (error) {
+      console.error("Failed to load tasks:", error);
+    } finally {
+      setLoadingTasks(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) loadTasks(taskFilters, null);
+  }, [user, taskFilters, loadTasks]);
+
+  // 任务实时更新：列表中已有的任务更新状态和进度；比列表中所有任务都新的任务插到最前面
+  // 推送不含资产信息，新任务从详情接口补全；有筛选时不插入
+  useEffect(() => {
+    if (!user) return;
+    const knownStatus = new Map<string, Task["status"]>();
+    return subscribeUserTasks((event) => {
+      if (knownStatus.get(event.taskId) !== event.status) loadTaskSummary();
+      knownStatus.set(event.taskId, event.status);
+
+      const tasks = recentTasksRef.current;
+      if (tasks.some((t) => t.id === event.taskId)) {
+        setRecentTasks((prev) => prev.map((t) => (t.id === event.taskId ? { ...t, ...taskUpdateFromEvent(event) } : t)));
+        return;
+      }
+      const isNewest = tasks.length === 0 || Date.parse(event.createdAt) > Date.parse(tasks[0].created_at);
+      if (!isNewest || hasTaskFilters(taskFiltersRef.current)) return;
+      fetch(`/api/tasks/${encodeURIComponent(event.taskId)}`, { credentials: "include" })
+        .then((res) => (res.ok ? (res.json() as Promise<{ task: Task }>) : null))
+        .then((data) => {
+          if (!data) return;
+          setRecentTasks((prev) => (prev.some((t) => t.id === data.task.id) ? prev : [data.task, ...prev]));
+        })
+        .catch(() => undefined);
+    });
+  }, [user, loadTaskSummary]);
 
   // 获取 GitHub stars
   useEffect(() => {
@@ -154,6 +264,7 @@ export default function Dashboard() {
       processing: { label: "处理中", variant: "default" as const, icon: Loader2 },
       completed: { label: "已完成", variant: "default" as const, icon: CheckCircle2 },
       failed: { label: "失败", variant: "destructive" as const, icon: XCircle },
+      cancelled: { label: "已取消", variant: "secondary" as const, icon: XCircle },
     };
 
     const config = statusConfig[status] || statusConfig.pending;
@@ -179,6 +290,7 @@ export default function Dashboard() {
       processing: 80,
       completed: 100,
       failed: 0,
+      cancelled: 0,
     };
 
     return progressMap[task.status] || 0;
@@ -353,17 +465,118 @@ export default function Dashboard() {
           </div>
         </section>
 
+        {/* 最近的视频及其版本 */}
+        {recentAssets.length > 0 && (
+          <section>
+            <h2 className="text-lg font-semibold mb-4">我的视频</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {recentAssets.map((asset) => (
+                <Card key={asset.id}>
+                  <CardContent className="pt-6 space-y-3">
+                    <div className="flex items-start gap-3">
+                      <FileVideo className="h-5 w-5 text-muted-foreground shrink-0 mt-0.5" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{asset.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(asset.created_at).toLocaleDateString("zh-CN", {
+                            month: "short",
+                            day: "numeric",
+                          })}
+                          {asset.durationInSeconds ? ` · ${asset.durationInSeconds.toFixed(1)}s` : ""}
+                        </p>
+                      </div>
+                      {asset.versionCount > 0 && (
+                        <Badge variant="outline" className="text-xs shrink-0">
+                          {asset.versionCount} 个版本
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="flex-1 h-7 text-xs"
+                        onClick={() => navigate(`/object-selection/${asset.id}`)}>
+                        <Pencil className="h-3 w-3 mr-1" />
+                        编辑
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="flex-1 h-7 text-xs"
+                        disabled={asset.versionCount === 0}
+                        onClick={() => setVersionAssetId(asset.id)}>
+                        <History className="h-3 w-3 mr-1" />
+                        版本历史
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* 最近任务列表 */}
         <section>
           <div className="flex items-center justify-between mb-4">
-            <h2 className="text-lg font-semibold">最近任务</h2>
-            <Button variant="ghost" size="sm" onClick={() => navigate("/tasks")} className="text-xs">
-              查看全部
-              <ArrowRight className="h-3 w-3 ml-1" />
-            </Button>
+            <h2 className="text-lg font-semibold">任务历史</h2>
+            {hasTaskFilters(taskFilters) && (
+              <Button variant="ghost" size="sm" onClick={() => setTaskFilters(DEFAULT_TASK_FILTERS)} className="text-xs">
+                清除筛选
+              </Button>
+            )}
+          </div>
+
+          {/* 筛选 */}
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <Select
+              value={taskFilters.status}
+              onValueChange={(value: TaskFilters["status"]) => setTaskFilters((prev) => ({ ...prev, status: value }))}>
+              <SelectTrigger size="sm" className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">全部状态</SelectItem>
+                <SelectItem value="pending">等待中</SelectItem>
+                <SelectItem value="processing">处理中</SelectItem>
+                <SelectItem value="completed">已完成</SelectItem>
+                <SelectItem value="failed">失败</SelectItem>
+                <SelectItem value="cancelled">已取消</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={taskFilters.action}
+              onValueChange={(value: TaskFilters["action"]) => setTaskFilters((prev) => ({ ...prev, action: value }))}>
+              <SelectTrigger size="sm" className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">全部操作</SelectItem>
+                <SelectItem value="remove">删除</SelectItem>
+                <SelectItem value="extract">提取</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              aria-label="开始日期"
+              className="h-8 w-40 text-xs"
+              value={taskFilters.from}
+              max={taskFilters.to || undefined}
+              onChange={(e) => setTaskFilters((prev) => ({ ...prev, from: e.target.value }))}
+            />
+            <span className="text-xs text-muted-foreground">至</span>
+            <Input
+              type="date"
+              aria-label="结束日期"
+              className="h-8 w-40 text-xs"
+              value={taskFilters.to}
+              min={taskFilters.from || undefined}
+              onChange={(e) => setTaskFilters((prev) => ({ ...prev, to: e.target.value }))}
+            />
           </div>
 
-          {loading ? (
+          {loading || (loadingTasks && recentTasks.length === 0) ? (
             <div className="space-y-3">
               {Array.from({ length: 3 }).map((_, i) => (
                 <Card key={i} className="animate-pulse">
@@ -373,6 +586,10 @@ export default function Dashboard() {
                 </Card>
               ))}
             </div>
+          ) : recentTasks.length === 0 && hasTaskFilters(taskFilters) ? (
+            <Card>
+              <CardContent className="pt-12 pb-12 text-center text-sm text-muted-foreground">没有符合筛选条件的任务</CardContent>
+            </Card>
           ) : recentTasks.length === 0 ? (
             <Card>
               <CardContent className="pt-12 pb-12 text-center">
@@ -393,14 +610,27 @@ export default function Dashboard() {
                 <Card
                   key={task.id}
                   className="group hover:border-primary/50 transition-all cursor-pointer"
-                  onClick={() => navigate(`/tasks/${task.id}`)}>
+                  onClick={() => setDetailTaskId(task.id)}>
                   <CardContent className="pt-6">
                     <div className="flex items-start justify-between gap-4">
+                      {task.thumbnail_url ? (
+                        <img
+                          src={task.thumbnail_url}
+                          alt=""
+                          loading="lazy"
+                          className="w-28 aspect-video rounded object-cover bg-muted shrink-0"
+                        />
+                      ) : (
+                        <div className="w-28 aspect-video rounded bg-muted/50 flex items-center justify-center shrink-0">
+                          <FileVideo className="h-5 w-5 text-muted-foreground/40" />
+                        </div>
+                      )}
                       <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate mb-1">{task.asset_name ?? "源视频已删除"}</p>
                         <div className="flex items-center gap-2 mb-2">
                           {getStatusBadge(task.status)}
                           <Badge variant="outline" className="text-xs">
-                            {task.type === "remove" ? "删除" : "提取"}
+                            {task.action === "remove" ? "删除" : "提取"}
                           </Badge>
                           {task.credits_cost && (
                             <Badge variant="outline" className="text-xs gap-1">
@@ -417,7 +647,10 @@ export default function Dashboard() {
                           <div className="space-y-1 mb-2">
                             <div className="flex items-center justify-between text-xs text-muted-foreground">
                               <span>处理进度</span>
-                              <span>{getTaskProgress(task)}%</span>
+                              <span>
+                                {getTaskProgress(task)}%
+                                {task.eta_seconds != null && ` · 剩余${formatEta(task.eta_seconds)}`}
+                              </span>
                             </div>
                             <Progress value={getTaskProgress(task)} className="h-1.5" />
                           </div>
@@ -432,14 +665,14 @@ export default function Dashboard() {
                               minute: "2-digit",
                             })}
                           </span>
-                          {task.status === "completed" && task.output_video_url && (
+                          {task.status === "completed" && task.output_url && (
                             <Button
                               size="sm"
                               variant="ghost"
                               className="h-6 px-2 text-xs"
                               onClick={(e) => {
                                 e.stopPropagation();
-                                window.open(task.output_video_url, "_blank");
+                                window.open(task.output_url ?? "", "_blank");
                               }}>
                               <Download className="h-3 w-3 mr-1" />
                               下载
@@ -455,6 +688,15 @@ export default function Dashboard() {
                   </CardContent>
                 </Card>
               ))}
+              {tasksCursor && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  disabled={loadingTasks}
+                  onClick={() => loadTasks(taskFilters, tasksCursor)}>
+                  {loadingTasks ? <Loader2 className="h-4 w-4 animate-spin" /> : "加载更多"}
+                </Button>
+              )}
             </div>
           )}
         </section>
@@ -502,6 +744,23 @@ export default function Dashboard() {
           </Card>
         </section>
       </main>
+
+      {versionAssetId && (
+        <VersionHistoryDialog
+          assetId={versionAssetId}
+          open={versionAssetId !== null}
+          onOpenChange={(open) => !open && setVersionAssetId(null)}
+        />
+      )}
+
+      {detailTaskId && (
+        <TaskDetailDialog
+          taskId={detailTaskId}
+          open={detailTaskId !== null}
+          onOpenChange={(open) => !open && setDetailTaskId(null)}
+          onSelectTask={setDetailTaskId}
+        />
+      )}
     </div>
   );
 }
@@ -1,17 +1,50 @@
 import React, { useState, useEffect, useRef, useCallback } from "react";
 import { useParams, useNavigate, useLoaderData } from "react-router";
 import { Button } from "~/components/ui/button";
-import { ArrowLeft, Undo2, Redo2, Save, Download } from "lucide-react";
+import { ArrowLeft, Undo2, Redo2, Save, Download, History, Pencil, Upload } from "lucide-react";
 import { VideoControls } from "~/components/object-selection/VideoControls";
 import { toast } from "sonner";
 import { ActionPanel } from "~/components/object-selection/ActionPanel";
 import { FrameTimeline } from "~/components/object-selection/FrameTimeline";
+import { VersionHistoryDialog } from "~/components/object-selection/VersionHistoryDialog";
 import { MaskOverlay } from "~/components/object-selection/MaskOverlay";
 import { PIXELS_PER_SECOND } from "~/components/timeline/types";
-import { useObjectSelection, type ClickPoint, type MaskData } from "~/hooks/useObjectSelection";
+import {
+  getEnabledObjects,
+  useObjectSelection,
+  type ClickPoint,
+  type ManualMaskEdit,
+  type MaskData,
+  type MaskPaintTool,
+  type VisualPromptTool,
+} from "~/hooks/useObjectSelection";
 import { ObjectSelectionChatBox } from "~/components/object-selection/ObjectSelectionChatBox";
 import { LoadingOverlay } from "~/components/object-selection/LoadingOverlay";
 import type { DifyOperationResult } from "~/lib/dify.api";
+import {
+  combineMasks,
+  editMask,
+  estimateTask,
+  generateMask,
+  importMask,
+  isTaskFinished,
+  refineMask,
+  startTask,
+  subscribeTaskStatus,
+  type GeneratedMask,
+  type TaskEstimate,
+  type TaskStatusEvent,
+} from "~/lib/processing.client";
+import { formatEta } from "~/lib/progress";
+import { DEFAULT_INPAINT_PRESET, type InpaintPreset } from "~/lib/inpaint-options";
+import { isMaskRefineNoop, type MaskRefineOptions } from "~/lib/mask-refine";
+import { MaskRefineDialog } from "~/components/object-selection/MaskRefineDialog";
+import { SelectionObjectList } from "~/components/object-selection/SelectionObjectList";
+import { VisualPromptLayer } from "~/components/object-selection/VisualPromptLayer";
+import { MaskPaintLayer } from "~/components/object-selection/MaskPaintLayer";
+import { MaskImportDialog } from "~/components/object-selection/MaskImportDialog";
+import { MaskExportMenu } from "~/components/object-selection/MaskExportMenu";
+import { generatePointId, normalizeToPixel } from "~/lib/mask-editing.utils";
 // 遮罩编辑相关工具函数已移除，仅保留通过 prompt 生成遮罩的功能
 // Project save/load is handled via API
 import type { TimelineState } from "~/components/timeline/types";
@@ -32,9 +65,12 @@ interface Asset {
 interface TaskProgress {
   percentage: number;
   status: string;
+  etaSeconds?: number; // 预计剩余时间（秒）
   taskId?: string;
   outputUrl?: string;
   outputUrls?: string[];
+  outputAssetId?: string; // 输出已保存为资产（extract 生成的透明背景视频）
+  framesUrl?: string; // extract 的 PNG 序列 zip
 }
 
 export async function loader({ request, params }: { request: Request; params: { assetId: string } }) {
@@ -128,7 +164,58 @@ export async function loader({ request, params }: { request: Request; params: {
   }
 }
 
-export default function ObjectSelectionPage() {
+// 切换到其它版本（同一路由、不同 assetId）时重新挂载，避免沿用上一个版本的帧、遮罩和任务状态
+/**
+ * 单帧遮罩的预览图：SAM3 返回 MP4 时提取第一帧
+ */
+async function maskPreviewUrl(mask: GeneratedMask): Promise<string> {
+  if (!mask.isVideo) return mask.preview;
+  // 从 MP4 视频中提取第一帧作为预览
+  try {
+    const video = document.createElement('video');
+    video.src = mask.maskVideoUrl;
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+
+    const previewUrl = await new Promise<string>((resolve, reject) => {
+      video.onloadeddata = () => {
+        video.currentTime = 0;
+        video.onseeked = () => {
+          try {
+            const canvas = document.createElement('canvas');
+            canvas.width = video.videoWidth;
+            canvas.height = video.videoHeight;
+            const ctx = canvas.getContext('2d');
+            if (ctx) {
+              ctx.drawImage(video, 0, 0);
+              resolve(canvas.toDataURL('image/png'));
+            } else {
+              reject(new Error('Failed to get canvas context'));
+            }
+          } catch (error) {
+            reject(error);
+          }
+        };
+        video.onerror = () => reject(new Error('Failed to load video'));
+      };
+      video.onerror = () => reject(new Error('Failed to load video'));
+    });
+
+    console.log("✅ Extracted first frame from mask video");
+    return previewUrl;
+  } catch (error) {
+    console.warn("⚠️ Failed to extract first frame, using video URL directly:", error);
+    // 如果提取失败，使用视频 URL 直接显示（浏览器会自动显示第一帧）
+    return mask.maskVideoUrl;
+  }
+}
+
+export default function ObjectSelectionRoute() {
+  const params = useParams();
+  return <ObjectSelectionPage key={params.assetId} />;
+}
+
+function ObjectSelectionPage() {
   const params = useParams();
   const navigate = useNavigate();
   const assetId = params.assetId!;
@@ -149,6 +236,16 @@ export default function ObjectSelectionPage() {
   const [maskVideoUrl, setMaskVideoUrl] = useState<string | null>(null); // 全视频遮罩视频 URL
   const [isGeneratingMask, setIsGeneratingMask] = useState(false); // 是否正在生成全视频遮罩
   const taskFinishedRef = useRef(false);
+  const unsubscribeTaskRef = useRef<(() => void) | null>(null); // 任务进度推送，取消任务时需要立即停止
+  const confirmingRef = useRef(false); // 正在确认并提交任务
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [processingRange, setProcessingRange] = useState<{ start: number; end: number } | null>(null); // 处理范围（入点/出点）
+  const [keepAudio, setKeepAudio] = useState(true); // 输出是否保留原音频
+  const [inpaintPreset, setInpaintPreset] = useState<InpaintPreset>(DEFAULT_INPAINT_PRESET); // 删除对象的质量预设
+  const [refineMaskEnabled, setRefineMaskEnabled] = useState(false); // 生成全视频遮罩后先优化遮罩
+  const [maskToRefine, setMaskToRefine] = useState<{ mask: GeneratedMask; prompts: string[]; idempotencyKey: string } | null>(null); // 等待在优化对话框中确认的遮罩
+  const [isVersionHistoryOpen, setIsVersionHistoryOpen] = useState(false);
+  const [isMaskImportOpen, setIsMaskImportOpen] = useState(false); // 导入遮罩对话框
   const [isProcessing, setIsProcessing] = useState(false);
   const [isExtractingFrames, setIsExtractingFrames] = useState(false);
   const [isZoomed, setIsZoomed] = useState(false);
@@ -172,7 +269,11 @@ export default function ObjectSelectionPage() {
     state: selectionState,
     addClickPoint,
     removeClickPoint,
-    setMaskData,
+    addObject,
+    updateObject,
+    removeObject,
+    toggleObject,
+    setActiveObjectId,
     setSelectedFrameIndex,
     setPendingAction,
     clearSelection,
@@ -188,10 +289,67 @@ export default function ObjectSelectionPage() {
   // Alias for easier access
   const selectedFrameIndex = selectionState.selectedFrameIndex;
   const selectedObject = selectionState.selectedObject;
-  const maskData = selectionState.maskData;
+  const selectionObjects = selectionState.objects;
+  // 画布上预览遮罩的对象，未指定时为最后添加的对象
+  const activeObject =
+    selectionObjects.find((object) => object.id === selectionState.activeObjectId) ??
+    selectionObjects[selectionObjects.length - 1] ??
+    null;
+  const maskData = activeObject?.maskData ?? null;
+  // 在画布上添加提示点、框选，或用画笔/橡皮直接修正遮罩
+  const [canvasTool, setCanvasTool] = useState<VisualPromptTool | MaskPaintTool | null>(null);
+  const [brushSize, setBrushSize] = useState(24); // 画笔直径（源视频像素）
+  const [maskEditSpread, setMaskEditSpread] = useState(5); // 新的修正应用到前后各多少帧
+  // 当前对象在选中关键帧上的提示点和框，以及时间轴上带有提示的关键帧
+  const activePromptPoints = activeObject?.visualPromptPoints ?? [];
+  const activePromptBoxes = activeObject?.visualPromptBoxes ?? [];
+  const framePromptPoints = activePromptPoints.filter((point) => point.frameIndex === selectedFrameIndex);
+  const framePromptBoxes = activePromptBoxes.filter((box) => box.frameIndex === selectedFrameIndex);
+  const frameMaskEdit = activeObject?.maskEdits.find((edit) => edit.frameIndex === selectedFrameIndex) ?? null;
+  const promptFrames: Record<number, { include: number; exclude: number; boxes: number; edited: boolean }> = {};
+  const frameCounts = (frameIndex: number) =>
+    (promptFrames[frameIndex] ??= { include: 0, exclude: 0, boxes: 0, edited: false });
+  for (const point of activePromptPoints) {
+    const counts = frameCounts(point.frameIndex);
+    if (point.label === 1) counts.include++;
+    else counts.exclude++;
+  }
+  for (const box of activePromptBoxes) {
+    frameCounts(box.frameIndex).boxes++;
+  }
+  for (const edit of activeObject?.maskEdits ?? []) {
+    frameCounts(edit.frameIndex).edited = true;
+  }
   const pendingAction = selectionState.pendingAction;
   const pendingMaskOperation = selectionState.pendingMaskOperation;
   const isMaskEditMode = selectionState.isMaskEditMode;
+  const [taskEstimate, setTaskEstimate] = useState<TaskEstimate | null>(null); // 确认前的费用和耗时估计
+  const [isEstimating, setIsEstimating] = useState(false);
+
+  // 等待确认时估算费用和耗时（操作类型、处理范围或质量预设变化时重新估算）
+  useEffect(() => {
+    if (!waitingForConfirmation || !pendingAction) {
+      setTaskEstimate(null);
+      return;
+    }
+    let cancelled = false;
+    setIsEstimating(true);
+    estimateTask({ assetId, action: pendingAction, range: processingRange, inpaint: { preset: inpaintPreset } })
+      .then((estimate) => {
+        if (!cancelled) setTaskEstimate(estimate);
+      })
+      .catch((error) => {
+        // 估算失败不阻止提交，余额由 start-task 再次检查
+        console.error("❌ Failed to estimate task:", error);
+        if (!cancelled) setTaskEstimate(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsEstimating(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [waitingForConfirmation, pendingAction, assetId, processingRange, inpaintPreset]);
 
   // 提取关键帧（每2秒一帧）
   const extractKeyFrames = useCallback(async () => {
@@ -495,6 +653,20 @@ export default function ObjectSelectionPage() {
         setPendingOperationResult(result);
         setIsProcessing(true);
 
+        // 每次描述一个对象，加入已选对象列表；相同文本提示的对象重新生成遮罩
+        const objectId =
+          selectionObjects.find((object) => object.textPrompt === result.text_prompt)?.id ?? crypto.randomUUID();
+        addObject({
+          id: objectId,
+          name: result.text_prompt,
+          textPrompt: result.text_prompt,
+          visualPromptPoints: [],
+          visualPromptBoxes: [],
+          maskEdits: [],
+          maskData: null,
+          enabled: true,
+        });
+
         // 在上一条 AI 消息后面添加加载 icon（不创建新消息）
         setChatMessages((prev) => {
           // 找到最后一条 AI 消息的索引
@@ -518,84 +690,28 @@ export default function ObjectSelectionPage() {
         });
 
         try {
-          // 调用 SAM3 API 生成单帧遮罩（使用 text prompt）
-          const response = await fetch("/api/processing/generate-mask", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            credentials: "include",
-            body: JSON.stringify({
-              assetId,
-              textPrompt: result.text_prompt, // 使用 text prompt 而不是坐标
-              timestamp: frame.timestamp,
-              frameImage: frame.url,
-              videoUrl: asset.fullUrl || asset.mediaUrlRemote,
-              isSingleFrame: true, // 标记为单帧遮罩
-            }),
+          // 调用 SAM3 API 生成单帧遮罩（使用 text prompt），任务在后台队列中执行
+          const mask = await generateMask({
+            assetId,
+            textPrompt: result.text_prompt, // 使用 text prompt 而不是坐标
+            timestamp: frame.timestamp,
+            frameImage: frame.url,
+            videoUrl: asset.fullUrl || asset.mediaUrlRemote,
+            isSingleFrame: true, // 标记为单帧遮罩
           });
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error("API Error:", response.status, errorText);
-            throw new Error(`Failed to generate mask: ${response.status}`);
-          }
-
-          const data = await response.json();
-          if (data.success && data.mask) {
-            // 如果 mask.isVideo 为 true，需要从 MP4 中提取第一帧作为预览
-            let previewUrl = data.mask.preview;
-            
-            if (data.mask.isVideo) {
-              // 从 MP4 视频中提取第一帧作为预览
-              try {
-                const video = document.createElement('video');
-                video.src = data.mask.maskVideoUrl;
-                video.crossOrigin = 'anonymous';
-                video.muted = true;
-                
-                await new Promise<void>((resolve, reject) => {
-                  video.onloadeddata = () => {
-                    video.currentTime = 0;
-                    video.onseeked = () => {
-                      try {
-                        const canvas = document.createElement('canvas');
-                        canvas.width = video.videoWidth;
-                        canvas.height = video.videoHeight;
-                        const ctx = canvas.getContext('2d');
-                        if (ctx) {
-                          ctx.drawImage(video, 0, 0);
-                          previewUrl = canvas.toDataURL('image/png');
-                          resolve();
-                        } else {
-                          reject(new Error('Failed to get canvas context'));
-                        }
-                      } catch (error) {
-                        reject(error);
-                      }
-                    };
-                    video.onerror = () => reject(new Error('Failed to load video'));
-                  };
-                  video.onerror = () => reject(new Error('Failed to load video'));
-                });
-                
-                console.log("✅ Extracted first frame from mask video");
-              } catch (error) {
-                console.warn("⚠️ Failed to extract first frame, using video URL directly:", error);
-                // 如果提取失败，使用视频 URL 直接显示（浏览器会自动显示第一帧）
-                previewUrl = data.mask.maskVideoUrl;
-              }
-            }
-            
-            snapshotState();
-            const frame = keyFrames[selectedFrameIndex];
-            setMaskData({
-              preview: previewUrl,
-              maskUrl: data.mask.maskUrl,
-              predictionId: data.mask.predictionId,
-              // 初始化 visualPromptPoints（如果是第一次生成）
-              visualPromptPoints: [],
-              textPrompt: result.text_prompt,
-              imageWidth: asset.width || 1920,
-              imageHeight: asset.height || 1080,
+          if (mask.maskVideoUrl || mask.preview) {
+            const previewUrl = await maskPreviewUrl(mask);
+            updateObject(objectId, {
+              maskData: {
+                preview: previewUrl,
+                maskUrl: mask.maskUrl,
+                predictionId: mask.predictionId,
+                // 初始化 visualPromptPoints（如果是第一次生成）
+                visualPromptPoints: [],
+                textPrompt: result.text_prompt,
+                imageWidth: asset.width || 1920,
+                imageHeight: asset.height || 1080,
+              },
             });
             
             // 设置 pending action
@@ -633,7 +749,7 @@ export default function ObjectSelectionPage() {
               // 添加确认消息
               return [...updated, {
                 id: `confirm-${Date.now()}`,
-                content: "遮罩预览已生成并显示在画布上，请使用下方的按钮进行确认或重新选择。",
+                content: "遮罩预览已生成并显示在画布上，可以继续描述其他要一起处理的对象，或使用下方的按钮进行确认或重新选择。",
                 isUser: false,
                 timestamp: new Date(),
               }];
@@ -643,11 +759,12 @@ export default function ObjectSelectionPage() {
             setIsProcessing(false);
             setWaitingForConfirmation(true);
           } else {
-            throw new Error(data.error || "Invalid response");
+            throw new Error("Invalid response");
           }
         } catch (error: any) {
           console.error("Error generating mask:", error);
           toast.error(`生成遮罩失败: ${error.message || "请重试"}`);
+          removeObject(objectId);
           
           // 取消加载 icon，并添加错误消息（不替换原来的消息）
           setChatMessages((prev) => {
@@ -681,7 +798,7 @@ export default function ObjectSelectionPage() {
         }
       }
     },
-    [keyFrames, selectedFrameIndex, assetId, asset.fullUrl, asset.mediaUrlRemote, snapshotState, setMaskData, setPendingAction, chatMessages]
+    [keyFrames, selectedFrameIndex, assetId, asset.fullUrl, asset.mediaUrlRemote, selectionObjects, addObject, updateObject, removeObject, setPendingAction]
   );
 
   // 处理 Remove 操作
@@ -698,25 +815,106 @@ export default function ObjectSelectionPage() {
     setPendingAction("extract");
   }, [selectedObject, maskData, snapshotState, setPendingAction]);
 
+  // 在 canvas 中加载全视频遮罩，不自动播放，等待用户点击播放
+  const showMaskVideo = useCallback((maskVideo: string) => {
+    setMaskVideoUrl(maskVideo);
+    // 使用 setTimeout 确保状态更新完成后再加载视频
+    setTimeout(() => {
+      if (videoRef.current) {
+        videoRef.current.src = maskVideo;
+        videoRef.current.load();
+        // 重置 currentTime 到 0
+        setCurrentTime(0);
+      }
+    }, 100);
+  }, []);
+
+  // 启动处理任务；同一次确认使用同一个幂等键，网络重试不会重复创建付费任务
+  // prompts 为参与处理的各对象的文本提示，多个对象时 mask 为合并后的遮罩
+  // 导入的遮罩没有选择对象，由导入对话框指定 action
+  const submitTask = useCallback(async (
+    mask: GeneratedMask,
+    prompts: string[],
+    idempotencyKey: string,
+    action: "remove" | "extract" | null = pendingAction
+  ) => {
+    if (!action) {
+      throw new Error("请先选择对象并生成遮罩");
+    }
+    const taskData = await startTask({
+      assetId,
+      action,
+      maskData: mask,
+      textPrompt: prompts.join(", "),
+      objects: prompts,
+      videoUrl: asset.fullUrl || asset.mediaUrlRemote, // 传递原始视频 URL
+      keepAudio,
+      preset: inpaintPreset,
+    }, idempotencyKey);
+    if (!taskData.success || !taskData.taskId) {
+      throw new Error("Invalid response");
+    }
+    // 设置任务进度，useEffect 会自动订阅进度推送
+    taskFinishedRef.current = false;
+    setTaskProgress({
+      percentage: 0,
+      status: "处理中...",
+      taskId: taskData.taskId,
+    });
+    setChatMessages((prev) => [
+      ...prev,
+      { id: (Date.now() + 1).toString(), content: "任务已启动，正在处理视频...", isUser: false, timestamp: new Date() },
+    ]);
+  }, [pendingAction, assetId, asset.fullUrl, asset.mediaUrlRemote, keepAudio, inpaintPreset]);
+
+  // 生成遮罩或启动任务失败：提示错误并恢复到可以重新操作的状态
+  const handleProcessingError = useCallback((error: unknown) => {
+    console.error("Error starting task:", error);
+    toast.error("启动任务失败，请重试");
+    setChatMessages((prev) => [
+      ...prev,
+      {
+        id: Date.now().toString(),
+        content: `处理失败: ${(error instanceof Error && error.message) || "请重试"}`,
+        isUser: false,
+        timestamp: new Date(),
+      },
+    ]);
+    setIsProcessing(false);
+    setTaskProgress(null);
+  }, []);
+
   // 确认操作 - 启动处理任务（用户确认遮罩后）
   const handleConfirm = useCallback(async () => {
+    // 只处理已开启且遮罩已生成的对象
+    const targets = getEnabledObjects(selectionObjects);
     console.log("🔵 handleConfirm called", {
-      hasMaskData: !!maskData,
+      objects: targets.map((object) => object.textPrompt),
       pendingAction,
       hasPendingOperationResult: !!pendingOperationResult,
-      maskData,
       pendingOperationResult,
     });
     
-    if (!maskData || !pendingAction || !pendingOperationResult) {
+    if (targets.length === 0 || !pendingAction || !pendingOperationResult) {
       console.error("❌ Missing required data for confirmation:", {
-        maskData: !!maskData,
+        objects: targets.length,
         pendingAction,
         pendingOperationResult: !!pendingOperationResult,
       });
       toast.error("请先选择对象并生成遮罩");
       return;
     }
+    const prompts = targets.map((object) => object.textPrompt);
+    // 余额不足时不生成全视频遮罩（SAM3 同样会产生费用）
+    if (taskEstimate && !taskEstimate.sufficient) {
+      toast.error(`Credits 不足：需要 ${taskEstimate.credits}，当前余额 ${taskEstimate.balance}`);
+      return;
+    }
+
+    // 防止双击确认：isProcessing 是异步更新的状态，用 ref 立即拦截重复调用
+    if (confirmingRef.current) return;
+    confirmingRef.current = true;
+    const idempotencyKey = crypto.randomUUID();
 
     setIsProcessing(true);
     setIsGeneratingMask(true); // 开始生成全视频遮罩
@@ -724,9 +922,12 @@ export default function ObjectSelectionPage() {
     setWaitingForConfirmation(false);
 
     // 在对话框中添加处理消息
+    const objectNames = targets.map((object) => object.name).join("、");
     const processingMessage: typeof chatMessages[0] = {
       id: Date.now().toString(),
-      content: "已确认，正在为整个视频生成遮罩并处理...",
+      content: processingRange
+        ? `已确认（${objectNames}），正在为 ${processingRange.start.toFixed(2)}s - ${processingRange.end.toFixed(2)}s 生成遮罩并处理...`
+        : `已确认（${objectNames}），正在为整个视频生成遮罩并处理...`,
       isUser: false,
       timestamp: new Date(),
     };
@@ -734,270 +935,301 @@ export default function ObjectSelectionPage() {
 
     try {
       taskFinishedRef.current = false; // 重置完成标记，避免重复提示
-      // 第一步：生成全视频遮罩
-      const maskResponse = await fetch("/api/processing/generate-mask", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        credentials: "include",
-        body: JSON.stringify({
-          assetId,
-          textPrompt: pendingOperationResult.text_prompt,
-          videoUrl: asset.fullUrl || asset.mediaUrlRemote,
-          isSingleFrame: false, // 全视频遮罩
-        }),
-      });
-
-      if (!maskResponse.ok) {
-        throw new Error("Failed to generate full video mask");
+      // 第一步：为每个对象生成全视频遮罩，多个对象时合并为一个，一次修复
+      const masks = await Promise.all(
+        targets.map(async (object) => {
+          const generated = await generateMask({
+            assetId,
+            textPrompt: object.textPrompt,
+            visualPromptPoints: object.visualPromptPoints, // 各关键帧上的提示点，服务端按帧分组
+            visualPromptBoxes: object.visualPromptBoxes,
+            videoUrl: asset.fullUrl || asset.mediaUrlRemote,
+            isSingleFrame: false, // 全视频遮罩
+            range: processingRange ?? undefined, // 设置了入点/出点时只处理该范围
+          });
+          // 手动修正只作用于该对象自己的遮罩，合并前应用
+          if (object.maskEdits.length === 0) return generated;
+          return editMask(
+            generated,
+            object.maskEdits.map((edit) => ({
+              image: edit.image,
+              time: edit.timestamp,
+              spreadFrames: edit.spreadFrames,
+            }))
+          );
+        })
+      );
+      let mask = masks[0];
+      if (masks.length > 1) {
+        setTaskProgress({ percentage: 0, status: `正在合并 ${masks.length} 个对象的遮罩...` });
+        mask = await combineMasks(masks);
       }
 
-      const maskData_result = await maskResponse.json();
-      if (!maskData_result.success || !maskData_result.mask) {
-        throw new Error("Failed to generate full video mask");
-      }
+      setIsGeneratingMask(false); // 遮罩生成完成，停止游标动画
+      const maskVideo = mask.maskVideoUrl || mask.preview;
+      if (maskVideo) showMaskVideo(maskVideo);
 
-      // 保存遮罩视频 URL，用于在 canvas 中显示
-      const maskVideo = maskData_result.mask.maskVideoUrl || maskData_result.mask.preview;
-      if (maskVideo) {
-        setIsGeneratingMask(false); // 遮罩生成完成，停止游标动画
-        setMaskVideoUrl(maskVideo);
-        
-        // 在 canvas 中加载遮罩视频并自动播放
-        // 使用 setTimeout 确保状态更新完成后再加载视频
-        setTimeout(() => {
-          if (videoRef.current) {
-            videoRef.current.src = maskVideo;
-            videoRef.current.load();
-            // 重置 currentTime 到 0，但不自动播放，等待用户点击播放
-            setCurrentTime(0);
-            // 不自动播放，让用户手动控制
-            // videoRef.current.play().catch((error) => {
-            //   console.error("❌ Failed to play mask video:", error);
-            // });
-          }
-        }, 100);
-      } else {
-        setIsGeneratingMask(false);
+      // 打开了遮罩优化时，先在对话框中调整参数并预览，确认后再启动处理任务
+      if (refineMaskEnabled) {
+        setMaskToRefine({ mask, prompts, idempotencyKey });
+        setTaskProgress({ percentage: 0, status: "等待优化遮罩..." });
+        return;
       }
 
       // 第二步：启动处理任务
-      const taskResponse = await fetch("/api/processing/start-task", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        credentials: "include",
-        body: JSON.stringify({
-          assetId,
-          action: pendingAction,
-          maskData: maskData_result.mask,
-          textPrompt: pendingOperationResult.text_prompt,
-          videoUrl: asset.fullUrl || asset.mediaUrlRemote, // 传递原始视频 URL
-        }),
-      });
+      await submitTask(mask, prompts, idempotencyKey);
+    } catch (error) {
+      handleProcessingError(error);
+    } finally {
+      confirmingRef.current = false;
+    }
+  }, [selectionObjects, pendingAction, pendingOperationResult, assetId, asset.fullUrl, asset.mediaUrlRemote, processingRange, taskEstimate, refineMaskEnabled, showMaskVideo, submitTask, handleProcessingError]);
 
-      if (!taskResponse.ok) {
-        throw new Error("Failed to start task");
+  // 遮罩优化对话框：应用参数（或使用原始遮罩）后启动处理任务
+  const handleRefineMaskDone = useCallback(async (options: MaskRefineOptions | null) => {
+    const pending = maskToRefine;
+    if (!pending) return;
+    setMaskToRefine(null);
+    try {
+      let mask = pending.mask;
+      if (options && !isMaskRefineNoop(options)) {
+        setTaskProgress({ percentage: 0, status: "正在优化遮罩..." });
+        mask = await refineMask(pending.mask, options);
+        showMaskVideo(mask.maskVideoUrl);
       }
+      await submitTask(mask, pending.prompts, pending.idempotencyKey);
+    } catch (error) {
+      handleProcessingError(error);
+    }
+  }, [maskToRefine, showMaskVideo, submitTask, handleProcessingError]);
+
+  // 优化对话框预览选中的关键帧，设置了处理范围时限制在范围内
+  const refinePreviewTime = (() => {
+    const frame = selectedFrameIndex !== null ? keyFrames[selectedFrameIndex] : undefined;
+    const time = frame?.timestamp ?? 0;
+    return processingRange ? Math.min(Math.max(time, processingRange.start), processingRange.end) : time;
+  })();
+
+  const handleRefineMaskCancel = useCallback(() => {
+    setMaskToRefine(null);
+    setIsProcessing(false);
+    setTaskProgress(null);
+    setChatMessages((prev) => [
+      ...prev,
+      { id: Date.now().toString(), content: "已取消处理", isUser: false, timestamp: new Date() },
+    ]);
+  }, []);
 
-      const taskData = await taskResponse.json();
-      if (taskData.success && taskData.taskId) {
-        // 设置任务进度，useEffect 会自动开始轮询
-        taskFinishedRef.current = false;
-        setTaskProgress({
-          percentage: 0,
-          status: "处理中...",
-          taskId: taskData.taskId,
-        });
-        
-        const successMessage: typeof chatMessages[0] = {
-          id: (Date.now() + 1).toString(),
-          content: "任务已启动，正在处理视频...",
-          isUser: false,
-          timestamp: new Date(),
-        };
-        setChatMessages((prev) => [...prev, successMessage]);
-      } else {
-        throw new Error("Invalid response");
-      }
-    } catch (error: any) {
-      console.error("Error starting task:", error);
-      toast.error("启动任务失败，请重试");
-      const errorMessage: typeof chatMessages[0] = {
-        id: Date.now().toString(),
-        content: `处理失败: ${error.message || "请重试"}`,
-        isUser: false,
-        timestamp: new Date(),
-      };
-      setChatMessages((prev) => [...prev, errorMessage]);
-      setIsProcessing(false);
-      setTaskProgress(null);
+  // 导入遮罩：转换为与源视频逐帧对应的遮罩后直接启动处理任务，不经过 SAM3
+  const handleImportMask = useCallback(async (file: File, action: "remove" | "extract") => {
+    if (confirmingRef.current) return;
+    confirmingRef.current = true;
+    setIsMaskImportOpen(false);
+    setIsProcessing(true);
+    setTaskProgress({ percentage: 0, status: "正在导入遮罩..." });
+    setChatMessages((prev) => [
+      ...prev,
+      { id: Date.now().toString(), content: `已导入遮罩 ${file.name}，正在转换并处理...`, isUser: false, timestamp: new Date() },
+    ]);
+    try {
+      const mask = await importMask({ assetId, file, range: processingRange });
+      showMaskVideo(mask.maskVideoUrl);
+      await submitTask(mask, [file.name], crypto.randomUUID(), action);
+    } catch (error) {
+      handleProcessingError(error);
+    } finally {
+      confirmingRef.current = false;
     }
-  }, [maskData, pendingAction, pendingOperationResult, assetId, asset.fullUrl, asset.mediaUrlRemote, chatMessages]);
+  }, [assetId, processingRange, showMaskVideo, submitTask, handleProcessingError]);
 
-  // 轮询任务进度 - 使用 useEffect 管理
+  // 订阅任务进度推送（SSE）- 使用 useEffect 管理
   useEffect(() => {
-    if (!taskProgress?.taskId) return;
+    const taskId = taskProgress?.taskId;
+    if (!taskId) return;
     
     // 重置完成标记
     taskFinishedRef.current = false;
-    
-    const interval = setInterval(async () => {
-      // 如果任务已完成，停止轮询
-      if (taskFinishedRef.current) {
-        clearInterval(interval);
-        return;
-      }
 
-      try {
-        const response = await fetch(`/api/processing/task/${taskProgress.taskId}`, {
-          credentials: "include",
-        });
+    const handleStatus = (data: TaskStatusEvent) => {
+      // 任务已完成（或已在本地取消）时忽略后续推送
+      if (taskFinishedRef.current) return;
 
-        if (!response.ok) {
-          clearInterval(interval);
-          setIsProcessing(false);
-          setTaskProgress((prev) => prev ? { ...prev, status: "Failed to get progress" } : null);
-          const errorMessage: typeof chatMessages[0] = {
-            id: Date.now().toString(),
-            content: "获取任务进度失败",
+      const newStatus = data.message || data.status || "处理中...";
+      const newPercentage = data.percentage || 0;
+      const etaSeconds = data.etaSeconds;
+      
+      setTaskProgress((prev) => prev ? {
+        ...prev,
+        percentage: newPercentage,
+        status: newStatus,
+        etaSeconds,
+      } : null);
+
+      // 在对话框中更新进度（只更新，不添加新消息）
+      if (newPercentage > 0 && newPercentage < 100) {
+        setChatMessages((prev) => {
+          // 移除旧的进度消息，添加新的
+          const filtered = prev.filter((m) => !m.id.startsWith("progress-"));
+          return [...filtered, {
+            id: `progress-${taskId}`,
+            content: `${newStatus} (${Math.round(newPercentage)}%${etaSeconds !== undefined ? `，剩余${formatEta(etaSeconds)}` : ""})`,
             isUser: false,
             timestamp: new Date(),
-          };
-          setChatMessages((prev) => [...prev, errorMessage]);
-          return;
-        }
+          }];
+        });
+      }
 
-        const data = await response.json();
-        const newStatus = data.message || data.status || "处理中...";
-        const newPercentage = data.percentage || 0;
-        
-        setTaskProgress((prev) => prev ? {
+      if (!isTaskFinished(data.status)) return;
+
+      // 立即标记为完成（连接由 subscribeTaskStatus 关闭）
+      taskFinishedRef.current = true;
+      setIsProcessing(false);
+      const finalMessageId = `final-${taskId}`;
+      
+      // 保存处理结果到状态
+      if (data.status === "completed" && data.outputUrl) {
+        const outputUrl = data.outputUrl;
+        setTaskProgress(prev => prev ? {
           ...prev,
-          percentage: newPercentage,
-          status: newStatus,
+          outputUrl,
+          outputUrls: data.outputUrls || [outputUrl],
+          outputAssetId: data.outputAssetId,
+          framesUrl: data.framesUrl,
+          percentage: 100,
+          status: "处理完成"
         } : null);
-
-        // 在对话框中更新进度（只更新，不添加新消息）
-        if (newPercentage > 0 && newPercentage < 100) {
-          setChatMessages((prev) => {
-            // 移除旧的进度消息，添加新的
-            const filtered = prev.filter((m) => !m.id.startsWith("progress-"));
-            return [...filtered, {
-              id: `progress-${taskProgress.taskId}`,
-              content: `${newStatus} (${Math.round(newPercentage)}%)`,
-              isUser: false,
-              timestamp: new Date(),
-            }];
-          });
-        }
-
-        if (data.status === "completed" || data.status === "failed") {
-          // 防止重复处理 - 使用更严格的检查
-          if (taskFinishedRef.current) {
-            clearInterval(interval);
-            return;
+        
+        setChatMessages((prev) => {
+          // 检查是否已存在该任务的最终消息（使用 ID 而不是内容）
+          const hasFinalMessage = prev.some((m) => m.id === finalMessageId);
+          
+          if (hasFinalMessage) {
+            // 如果已存在，只移除进度消息，不重复添加
+            return prev.filter((m) => !m.id.startsWith("progress-"));
           }
           
-          // 立即标记为完成并停止轮询
-          taskFinishedRef.current = true;
-          clearInterval(interval);
-          setIsProcessing(false);
+          // 移除进度消息，添加最终消息
+          const filtered = prev.filter((m) => !m.id.startsWith("progress-"));
+          return [...filtered, {
+            id: finalMessageId,
+            content: data.framesUrl
+              ? "✅ 抠像完成！透明背景视频已保存到媒体库，也可以下载 WebM 或 PNG 序列。"
+              : "✅ 处理完成！视频已准备好下载。",
+            isUser: false,
+            timestamp: new Date(),
+          }];
+        });
+        
+        // 使用 toast 的 id 参数防止重复显示
+        toast.success("处理完成！", { id: `toast-${taskId}` });
+      } else {
+        // 没有 outputUrl 或处理失败
+        setChatMessages((prev) => {
+          // 检查是否已存在该任务的最终消息
+          const hasFinalMessage = prev.some((m) => m.id === finalMessageId);
           
-          // 保存处理结果到状态
-          if (data.status === "completed" && data.outputUrl) {
-            // 检查是否是模拟模式的占位符 URL
-            const isMockPlaceholder = data.outputUrl.includes("commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny");
-            const isValidOutput = data.outputUrl && !isMockPlaceholder;
-            
-            setTaskProgress(prev => prev ? {
-              ...prev,
-              outputUrl: isValidOutput ? data.outputUrl : undefined,
-              outputUrls: isValidOutput ? (data.outputUrls || [data.outputUrl]) : undefined,
-              percentage: 100,
-              status: isValidOutput ? "处理完成" : "模拟模式（测试完成）"
-            } : null);
-            
-            // 检查是否已经添加过最终消息，使用精确的 ID 检查
-            const finalMessageId = `final-${taskProgress.taskId}`;
-            setChatMessages((prev) => {
-              // 检查是否已存在该任务的最终消息（使用 ID 而不是内容）
-              const hasFinalMessage = prev.some((m) => m.id === finalMessageId);
-              
-              if (hasFinalMessage) {
-                // 如果已存在，只移除进度消息，不重复添加
-                return prev.filter((m) => !m.id.startsWith("progress-"));
-              }
-              
-              // 移除进度消息，添加最终消息
-              const filtered = prev.filter((m) => !m.id.startsWith("progress-"));
-              return [...filtered, {
-                id: finalMessageId,
-                content: isValidOutput 
-                  ? "✅ 处理完成！视频已准备好下载。" 
-                  : "🎭 模拟模式测试完成（未实际处理视频）",
-                isUser: false,
-                timestamp: new Date(),
-              }];
-            });
-            
-            // 使用 toast 的 id 参数防止重复显示
-            if (isValidOutput) {
-              toast.success("处理完成！", { id: `toast-${taskProgress.taskId}` });
-            } else {
-              toast.info("模拟模式测试完成", { id: `toast-${taskProgress.taskId}` });
-            }
-          } else {
-            // 没有 outputUrl 或处理失败
-            const finalMessageId = `final-${taskProgress.taskId}`;
-            setChatMessages((prev) => {
-              // 检查是否已存在该任务的最终消息
-              const hasFinalMessage = prev.some((m) => m.id === finalMessageId);
-              
-              if (hasFinalMessage) {
-                return prev.filter((m) => !m.id.startsWith("progress-"));
-              }
-              
-              const filtered = prev.filter((m) => !m.id.startsWith("progress-"));
-              return [...filtered, {
-                id: finalMessageId,
-                content: data.status === "completed"
-                  ? "⚠️ 处理完成，但未找到输出视频"
-                  : "❌ 处理失败，请重试",
-                isUser: false,
-                timestamp: new Date(),
-              }];
-            });
-            
-            // 使用 toast 的 id 参数防止重复显示
-            if (data.status === "completed") {
-              toast.warning("处理完成，但未找到输出视频", { id: `toast-${taskProgress.taskId}` });
-            } else {
-              toast.error("处理失败", { id: `toast-${taskProgress.taskId}` });
-            }
+          if (hasFinalMessage) {
+            return prev.filter((m) => !m.id.startsWith("progress-"));
           }
-        }
-      } catch (error) {
-        console.error("Error polling task progress:", error);
-        clearInterval(interval);
-        setIsProcessing(false);
-        setChatMessages((prev) => {
-          const hasErrorMessage = prev.some((m) => m.content.includes("获取任务进度时出错"));
-          if (hasErrorMessage) return prev;
           
-          return [...prev, {
-            id: Date.now().toString(),
-            content: "获取任务进度时出错",
+          const filtered = prev.filter((m) => !m.id.startsWith("progress-"));
+          return [...filtered, {
+            id: finalMessageId,
+            content: data.status === "completed"
+              ? "⚠️ 处理完成，但未找到输出视频"
+              : data.status === "cancelled"
+              ? "🛑 任务已取消"
+              : "❌ 处理失败，请重试",
             isUser: false,
             timestamp: new Date(),
           }];
         });
+        
+        // 使用 toast 的 id 参数防止重复显示
+        if (data.status === "completed") {
+          toast.warning("处理完成，但未找到输出视频", { id: `toast-${taskId}` });
+        } else if (data.status === "cancelled") {
+          toast.info("任务已取消", { id: `toast-${taskId}` });
+        } else {
+          toast.error("处理失败", { id: `toast-${taskId}` });
+        }
       }
-    }, 1000);
+    };
+
+    const handleError = () => {
+      if (taskFinishedRef.current) return;
+      setIsProcessing(false);
+      setTaskProgress((prev) => prev ? { ...prev, status: "Failed to get progress" } : null);
+      setChatMessages((prev) => {
+        const hasErrorMessage = prev.some((m) => m.content.includes("获取任务进度失败"));
+        if (hasErrorMessage) return prev;
+        
+        return [...prev, {
+          id: Date.now().toString(),
+          content: "获取任务进度失败",
+          isUser: false,
+          timestamp: new Date(),
+        }];
+      });
+    };
+
+    const unsubscribe = subscribeTaskStatus(taskId, handleStatus, handleError);
+    unsubscribeTaskRef.current = unsubscribe;
 
     return () => {
-      clearInterval(interval);
+      unsubscribe();
+      unsubscribeTaskRef.current = null;
       taskFinishedRef.current = false;
     };
-  }, [taskProgress?.taskId]); // 移除 chatMessages 依赖，避免重复创建 interval
+  }, [taskProgress?.taskId]); // 移除 chatMessages 依赖，避免重复订阅
+
+  // 取消正在处理的任务
+  const handleCancelTask = useCallback(async () => {
+    const taskId = taskProgress?.taskId;
+    if (!taskId || isCancelling) return;
+
+    setIsCancelling(true);
+    try {
+      const response = await fetch(`/api/processing/task/${encodeURIComponent(taskId)}/cancel`, {
+        method: "POST",
+        credentials: "include",
+      });
+      const data = await response.json().catch(() => ({}));
+      // 409 表示任务已经结束，交给进度推送展示最终结果
+      if (!response.ok && response.status !== 409) {
+        throw new Error(data.error || `Failed to cancel task: ${response.status}`);
+      }
+      if (response.status === 409) {
+        toast.info("任务已结束，无法取消");
+        return;
+      }
+
+      // 立即停止接收进度推送
+      taskFinishedRef.current = true;
+      unsubscribeTaskRef.current?.();
+      unsubscribeTaskRef.current = null;
+      setIsProcessing(false);
+      setIsGeneratingMask(false);
+      setTaskProgress((prev) => prev ? { ...prev, status: "任务已取消" } : null);
+      setChatMessages((prev) => [
+        ...prev.filter((m) => !m.id.startsWith("progress-")),
+        {
+          id: `final-${taskId}`,
+          content: data.refundedCredits > 0
+            ? `🛑 任务已取消，已退还 ${data.refundedCredits} Credits`
+            : "🛑 任务已取消",
+          isUser: false,
+          timestamp: new Date(),
+        },
+      ]);
+      toast.success("任务已取消", { id: `toast-${taskId}` });
+    } catch (error) {
+      console.error("取消任务失败:", error);
+      toast.error("取消任务失败，请重试");
+    } finally {
+      setIsCancelling(false);
+    }
+  }, [taskProgress?.taskId, isCancelling]);
 
   // 处理下载
   const handleDownload = useCallback(async () => {
@@ -1010,7 +1242,9 @@ export default function ObjectSelectionPage() {
       // 创建下载链接
       const link = document.createElement('a');
       link.href = taskProgress.outputUrl;
-      link.download = `processed-video-${assetId}-${Date.now()}.mp4`;
+      // extract 输出为带透明通道的 WebM
+      const ext = taskProgress.framesUrl ? "webm" : "mp4";
+      link.download = `processed-video-${assetId}-${Date.now()}.${ext}`;
       link.target = '_blank';
       
       // 添加到 DOM，触发下载，然后移除
@@ -1079,6 +1313,25 @@ export default function ObjectSelectionPage() {
     setPixelsPerSecond(PIXELS_PER_SECOND * zoomLevel);
   }, []);
 
+  // 设置处理范围：入点/出点取当前时间，入点晚于出点时重新开始选择
+  const handleSetInPoint = useCallback(() => {
+    setProcessingRange((prev) => {
+      const end = prev && prev.end > currentTime ? prev.end : asset.durationInSeconds;
+      return { start: currentTime, end };
+    });
+  }, [currentTime, asset.durationInSeconds]);
+
+  const handleSetOutPoint = useCallback(() => {
+    setProcessingRange((prev) => {
+      const start = prev && prev.start < currentTime ? prev.start : 0;
+      return { start, end: currentTime };
+    });
+  }, [currentTime]);
+
+  const handleClearRange = useCallback(() => {
+    setProcessingRange(null);
+  }, []);
+
   // 保存项目状态
   const handleSaveProject = useCallback(async () => {
     try {
@@ -1122,7 +1375,7 @@ export default function ObjectSelectionPage() {
             taskData: {
               assetId: asset.id,
               clickPoints: selectionState.clickPoints,
-              maskData: selectionState.maskData,
+              objects: selectionState.objects,
               selectedFrameIndex: selectionState.selectedFrameIndex,
               pendingAction: selectionState.pendingAction,
             },
@@ -1143,7 +1396,7 @@ export default function ObjectSelectionPage() {
             taskData: {
               assetId: asset.id,
               clickPoints: selectionState.clickPoints,
-              maskData: selectionState.maskData,
+              objects: selectionState.objects,
               selectedFrameIndex: selectionState.selectedFrameIndex,
               pendingAction: selectionState.pendingAction,
             },
@@ -1201,6 +1454,137 @@ export default function ObjectSelectionPage() {
   // 遮罩编辑功能已废弃，仅通过 prompt 输入生成遮罩
   const maskImageRef = useRef<HTMLImageElement>(null);
 
+  // 在选中的关键帧上为当前对象添加提示点（像素坐标相对源视频尺寸，与关键帧图片一致）
+  const handleAddPromptPoint = useCallback((normalizedX: number, normalizedY: number) => {
+    if (!activeObject || selectedFrameIndex === null || (canvasTool !== "include" && canvasTool !== "exclude")) return;
+    const frame = keyFrames[selectedFrameIndex];
+    if (!frame) return;
+    const [x, y] = normalizeToPixel(normalizedX, normalizedY, asset.width || 1920, asset.height || 1080);
+    updateObject(activeObject.id, {
+      visualPromptPoints: [
+        ...activeObject.visualPromptPoints,
+        {
+          id: generatePointId(),
+          x,
+          y,
+          normalizedX,
+          normalizedY,
+          label: canvasTool === "include" ? 1 : 0,
+          textPrompt: activeObject.textPrompt,
+          frameIndex: selectedFrameIndex,
+          timestamp: frame.timestamp,
+        },
+      ],
+    });
+  }, [activeObject, selectedFrameIndex, canvasTool, keyFrames, asset.width, asset.height, updateObject]);
+
+  const handleRemovePromptPoint = useCallback((pointId: string) => {
+    if (!activeObject) return;
+    updateObject(activeObject.id, {
+      visualPromptPoints: activeObject.visualPromptPoints.filter((point) => point.id !== pointId),
+    });
+  }, [activeObject, updateObject]);
+
+  // 在选中的关键帧上为当前对象添加框选区域（归一化坐标为左上角、右下角）
+  const handleAddPromptBox = useCallback((normalized: { x1: number; y1: number; x2: number; y2: number }) => {
+    if (!activeObject || selectedFrameIndex === null) return;
+    const frame = keyFrames[selectedFrameIndex];
+    if (!frame) return;
+    const width = asset.width || 1920;
+    const height = asset.height || 1080;
+    const [x1, y1] = normalizeToPixel(normalized.x1, normalized.y1, width, height);
+    const [x2, y2] = normalizeToPixel(normalized.x2, normalized.y2, width, height);
+    updateObject(activeObject.id, {
+      visualPromptBoxes: [
+        ...activeObject.visualPromptBoxes,
+        {
+          id: generatePointId(),
+          x1,
+          y1,
+          x2,
+          y2,
+          normalized,
+          frameIndex: selectedFrameIndex,
+          timestamp: frame.timestamp,
+        },
+      ],
+    });
+  }, [activeObject, selectedFrameIndex, keyFrames, asset.width, asset.height, updateObject]);
+
+  const handleRemovePromptBox = useCallback((boxId: string) => {
+    if (!activeObject) return;
+    updateObject(activeObject.id, {
+      visualPromptBoxes: activeObject.visualPromptBoxes.filter((box) => box.id !== boxId),
+    });
+  }, [activeObject, updateObject]);
+
+  // 画笔或橡皮画完一笔后保存当前帧的修正（每个关键帧一个，替换之前的）
+  const saveMaskEdit = useCallback((changes: Partial<Pick<ManualMaskEdit, "image" | "spreadFrames">> | null) => {
+    if (!activeObject || selectedFrameIndex === null) return;
+    const frame = keyFrames[selectedFrameIndex];
+    const others = activeObject.maskEdits.filter((edit) => edit.frameIndex !== selectedFrameIndex);
+    if (!frame || changes === null) {
+      updateObject(activeObject.id, { maskEdits: others });
+      return;
+    }
+    const image = changes.image ?? frameMaskEdit?.image;
+    if (!image) return;
+    updateObject(activeObject.id, {
+      maskEdits: [
+        ...others,
+        {
+          frameIndex: selectedFrameIndex,
+          timestamp: frame.timestamp,
+          image,
+          spreadFrames: changes.spreadFrames ?? frameMaskEdit?.spreadFrames ?? maskEditSpread,
+        },
+      ],
+    });
+  }, [activeObject, selectedFrameIndex, keyFrames, frameMaskEdit, maskEditSpread, updateObject]);
+
+  // 修改扩展范围时同时应用到当前帧已有的修正
+  const handleMaskEditSpreadChange = useCallback((frames: number) => {
+    setMaskEditSpread(frames);
+    if (frameMaskEdit) saveMaskEdit({ spreadFrames: frames });
+  }, [frameMaskEdit, saveMaskEdit]);
+
+  // 用选中关键帧上的提示点和框重新生成当前对象的单帧遮罩；其他帧上的提示在生成全视频遮罩时一起发送
+  const handleRefreshObjectMask = useCallback(async () => {
+    if (!activeObject || selectedFrameIndex === null) return;
+    const frame = keyFrames[selectedFrameIndex];
+    if (!frame) return;
+    setIsProcessing(true);
+    try {
+      const mask = await generateMask({
+        assetId,
+        textPrompt: activeObject.textPrompt,
+        timestamp: frame.timestamp,
+        frameImage: frame.url,
+        videoUrl: asset.fullUrl || asset.mediaUrlRemote,
+        isSingleFrame: true,
+        visualPromptPoints: framePromptPoints,
+        visualPromptBoxes: framePromptBoxes,
+      });
+      updateObject(activeObject.id, {
+        maskData: {
+          preview: await maskPreviewUrl(mask),
+          maskUrl: mask.maskUrl,
+          predictionId: mask.predictionId,
+          visualPromptPoints: framePromptPoints,
+          visualPromptBoxes: framePromptBoxes,
+          textPrompt: activeObject.textPrompt,
+          imageWidth: asset.width || 1920,
+          imageHeight: asset.height || 1080,
+        },
+      });
+    } catch (error) {
+      console.error("Error refreshing mask:", error);
+      toast.error(`更新遮罩失败: ${(error instanceof Error && error.message) || "请重试"}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [activeObject, selectedFrameIndex, keyFrames, framePromptPoints, framePromptBoxes, assetId, asset.fullUrl, asset.mediaUrlRemote, asset.width, asset.height, updateObject]);
+
   // 处理拖拽开始
   const handleMouseDown = useCallback(
     (e: React.MouseEvent<HTMLDivElement>) => {
@@ -1290,6 +1674,29 @@ export default function ObjectSelectionPage() {
           >
             <Redo2 className="h-4 w-4" />
           </Button>
+          {/* Import Mask */}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsMaskImportOpen(true)}
+            disabled={isProcessing}
+            className="gap-2"
+            title="导入在其他工具中做好的遮罩"
+          >
+            <Upload className="h-4 w-4" />
+            导入遮罩
+          </Button>
+          {/* Version History */}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsVersionHistoryOpen(true)}
+            className="gap-2"
+            title="版本历史"
+          >
+            <History className="h-4 w-4" />
+            版本
+          </Button>
           {/* Save Button */}
           <Button
             variant="ghost"
@@ -1316,6 +1723,10 @@ export default function ObjectSelectionPage() {
         >
           {/* Video Canvas - 上方 */}
           <div className="flex-1 relative bg-black flex items-start justify-center overflow-hidden min-h-0 rounded-lg pt-4">
+            {/* 全视频遮罩可以导出到其他工具使用 */}
+            {maskVideoUrl && (
+              <MaskExportMenu source={{ mask: { maskVideoUrl } }} className="absolute right-3 top-3 z-20" />
+            )}
             <div
               className="relative w-full h-full flex items-start justify-center"
               onMouseDown={handleMouseDown}
@@ -1392,6 +1803,56 @@ export default function ObjectSelectionPage() {
                 }}
               />
               
+              {/* 已选对象：选择参与处理的对象，点击名称预览其遮罩 */}
+              <SelectionObjectList
+                objects={selectionObjects}
+                activeObjectId={activeObject?.id ?? null}
+                disabled={isProcessing}
+                onSelect={setActiveObjectId}
+                onToggle={toggleObject}
+                onRemove={removeObject}
+                tool={canvasTool}
+                onToolChange={selectedFrameIndex !== null ? setCanvasTool : undefined}
+                onRefreshMask={handleRefreshObjectMask}
+                brushSize={brushSize}
+                onBrushSizeChange={setBrushSize}
+                spreadFrames={frameMaskEdit?.spreadFrames ?? maskEditSpread}
+                onSpreadFramesChange={handleMaskEditSpreadChange}
+                onClearMaskEdit={() => saveMaskEdit(null)}
+                className="absolute left-3 top-3 z-10 w-56"
+              />
+
+              {/* 当前对象在选中关键帧上的提示点和框 */}
+              {activeObject && selectedFrameIndex !== null && !maskVideoUrl && (
+                <VisualPromptLayer
+                  key={maskData ? "mask" : "video"}
+                  targetRef={maskData ? maskImageRef : videoRef}
+                  transform={`scale(${zoomScale}) translate(${panX / zoomScale}px, ${panY / zoomScale}px)`}
+                  points={framePromptPoints}
+                  boxes={framePromptBoxes}
+                  tool={isProcessing || canvasTool === "brush" || canvasTool === "eraser" ? null : canvasTool}
+                  onAddPoint={handleAddPromptPoint}
+                  onRemovePoint={handleRemovePromptPoint}
+                  onAddBox={handleAddPromptBox}
+                  onRemoveBox={handleRemovePromptBox}
+                />
+              )}
+
+              {/* 当前对象在选中关键帧上的手动修正：白色为添加，黑色为擦除 */}
+              {activeObject && selectedFrameIndex !== null && !maskVideoUrl && (
+                <MaskPaintLayer
+                  key={`${activeObject.id}-${selectedFrameIndex}-${maskData ? "mask" : "video"}`}
+                  targetRef={maskData ? maskImageRef : videoRef}
+                  transform={`scale(${zoomScale}) translate(${panX / zoomScale}px, ${panY / zoomScale}px)`}
+                  width={asset.width || 1920}
+                  height={asset.height || 1080}
+                  image={frameMaskEdit?.image ?? null}
+                  tool={!isProcessing && (canvasTool === "brush" || canvasTool === "eraser") ? canvasTool : null}
+                  brushSize={brushSize}
+                  onChange={(image) => saveMaskEdit({ image })}
+                />
+              )}
+
               {/* 如果有遮罩，显示遮罩图像（覆盖在视频上方） */}
               {maskData && selectedFrameIndex !== null && (
                 <img
@@ -1425,6 +1886,10 @@ export default function ObjectSelectionPage() {
                       ? "正在生成全视频遮罩..."
                       : taskProgress?.status || "正在处理中..."
                   }
+                  percentage={!isGeneratingMask && taskProgress?.taskId ? taskProgress.percentage : undefined}
+                  etaSeconds={!isGeneratingMask ? taskProgress?.etaSeconds : undefined}
+                  onCancel={!isGeneratingMask && taskProgress?.taskId ? handleCancelTask : undefined}
+                  isCancelling={isCancelling}
                 />
               )}
 
@@ -1448,14 +1913,34 @@ export default function ObjectSelectionPage() {
                 </div>
                 <div className="px-4 py-2 border-t bg-background flex items-center justify-between">
                   <span className="text-xs text-muted-foreground">处理完成，可以下载视频</span>
-                  <Button
-                    onClick={handleDownload}
-                    size="sm"
-                    variant="default"
-                  >
-                    <Download className="mr-2 h-4 w-4" />
-                    下载视频
-                  </Button>
+                  <div className="flex items-center gap-2">
+                    {taskProgress.outputAssetId && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => navigate(`/object-selection/${taskProgress.outputAssetId}`)}
+                      >
+                        <Pencil className="mr-2 h-4 w-4" />
+                        继续编辑此版本
+                      </Button>
+                    )}
+                    {taskProgress.framesUrl && (
+                      <Button asChild size="sm" variant="outline">
+                        <a href={taskProgress.framesUrl} download>
+                          <Download className="mr-2 h-4 w-4" />
+                          下载 PNG 序列
+                        </a>
+                      </Button>
+                    )}
+                    <Button
+                      onClick={handleDownload}
+                      size="sm"
+                      variant="default"
+                    >
+                      <Download className="mr-2 h-4 w-4" />
+                      下载视频
+                    </Button>
+                  </div>
                 </div>
               </div>
             ) : (
@@ -1470,6 +1955,11 @@ export default function ObjectSelectionPage() {
                   onFrameSelect={handleFrameSelect}
                   onTimelineSeek={handleTimelineSeek}
                   onZoomChange={handleZoomChange}
+                  range={processingRange}
+                  onSetInPoint={handleSetInPoint}
+                  onSetOutPoint={handleSetOutPoint}
+                  onClearRange={handleClearRange}
+                  promptFrames={promptFrames}
                 />
               ) : (
                 <div className="h-48 border-t bg-muted/30 flex items-center justify-center">
@@ -1497,7 +1987,7 @@ export default function ObjectSelectionPage() {
           onUserConfirm={handleConfirm}
           onUserCancel={() => {
             setWaitingForConfirmation(false);
-            setMaskData(null);
+            clearSelection();
             setPendingOperationResult(null);
             setSelectedFrameIndex(null);
           }}
@@ -1507,10 +1997,46 @@ export default function ObjectSelectionPage() {
           conversationId={difyConversationId}
           onConversationIdChange={setDifyConversationId}
           waitingForConfirmation={waitingForConfirmation}
+          keepAudio={keepAudio}
+          onKeepAudioChange={setKeepAudio}
+          refineMask={refineMaskEnabled}
+          onRefineMaskChange={setRefineMaskEnabled}
+          inpaintPreset={inpaintPreset}
+          onInpaintPresetChange={pendingAction === "remove" ? setInpaintPreset : undefined}
+          estimate={taskEstimate}
+          isEstimating={isEstimating}
         />
       </div>
 
 
+      {maskToRefine && (
+        <MaskRefineDialog
+          open
+          assetId={asset.id}
+          mask={maskToRefine.mask}
+          frameTime={refinePreviewTime}
+          onConfirm={(options) => handleRefineMaskDone(options)}
+          onSkip={() => handleRefineMaskDone(null)}
+          onCancel={handleRefineMaskCancel}
+        />
+      )}
+
+      <MaskImportDialog
+        open={isMaskImportOpen}
+        assetId={asset.id}
+        range={processingRange}
+        inpaintPreset={inpaintPreset}
+        onInpaintPresetChange={setInpaintPreset}
+        onConfirm={handleImportMask}
+        onCancel={() => setIsMaskImportOpen(false)}
+      />
+
+      <VersionHistoryDialog
+        assetId={asset.id}
+        open={isVersionHistoryOpen}
+        onOpenChange={setIsVersionHistoryOpen}
+      />
+
       {/* 隐藏的 canvas 用于提取帧 */}
       <canvas ref={canvasRef} className="hidden" />
     </div>
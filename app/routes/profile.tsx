@@ -3,10 +3,28 @@ import { useAuth } from "~/hooks/useAuth";
 import { Card } from "~/components/ui/card";
 import { Button } from "~/components/ui/button";
 import { useTheme } from "next-themes";
-import { Sun, Moon, Monitor, HardDrive, FolderOpen, Calendar, ArrowLeft } from "lucide-react";
+import { Sun, Moon, Monitor, HardDrive, FolderOpen, Calendar, ArrowLeft, Coins } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
 import { Progress } from "~/components/ui/progress";
 
+interface CreditTransactionItem {
+  id: string;
+  task_id: string | null;
+  type: "reserve" | "capture" | "refund" | "grant";
+  amount: number;
+  balance_after: number;
+  description: string | null;
+  created_at: string;
+}
+
+// capture 只是确认预留的扣费，不再改变余额
+const TRANSACTION_LABELS: Record<CreditTransactionItem["type"], { label: string; sign: string; className: string }> = {
+  reserve: { label: "Reserved", sign: "-", className: "text-orange-500" },
+  capture: { label: "Charged", sign: "", className: "text-muted-foreground" },
+  refund: { label: "Refunded", sign: "+", className: "text-green-600" },
+  grant: { label: "Granted", sign: "+", className: "text-green-600" },
+};
+
 export default function Profile() {
   const { user } = useAuth();
   const { theme, setTheme, systemTheme } = useTheme();
@@ -14,6 +32,42 @@ export default function Profile() {
   const [limitBytes, setLimitBytes] = React.useState<number>(2 * 1024 * 1024 * 1024);
   const [projectCount, setProjectCount] = React.useState<number | null>(null);
   const [memberSince, setMemberSince] = React.useState<string | null>(null);
+  const [creditsBalance, setCreditsBalance] = React.useState<number | null>(null);
+  const [transactions, setTransactions] = React.useState<CreditTransactionItem[]>([]);
+  const [transactionsCursor, setTransactionsCursor] = React.useState<string | null>(null);
+  const [loadingTransactions, setLoadingTransactions] = React.useState(false);
+
+  const loadTransactions = React.useCallback(async (before?: string) => {
+    setLoadingTransactions(true);
+    try {
+      const params = new URLSearchParams({ limit: "20" });
+      if (before) params.set("before", before);
+      const res = await fetch(`/api/credits/transactions?${params}`, { credentials: "include" });
+      if (!res.ok) return;
+      const j = await res.json();
+      const items: CreditTransactionItem[] = Array.isArray(j?.transactions) ? j.transactions : [];
+      setTransactions((prev) => (before ? [...prev, ...items] : items));
+      setTransactionsCursor(j?.nextCursor ?? null);
+    } catch (error) {
+      console.error('Failed to fetch credit transactions:', error);
+    } finally {
+      setLoadingTransactions(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/credits", { credentials: "include" });
+        if (!res.ok) return;
+        const j = await res.json();
+        setCreditsBalance(Number(j?.balance) || 0);
+      } catch (error) {
+        console.error('Failed to fetch credits:', error);
+      }
+    })();
+    loadTransactions();
+  }, [loadTransactions]);
 
   React.useEffect(() => {
     let cancelled = false;
@@ -151,8 +205,55 @@ export default function Profile() {
               {memberSince ? new Date(memberSince).toLocaleDateString() : "—"}
             </div>
           </Card>
+          <Card className="p-4">
+            <div className="text-sm text-muted-foreground inline-flex items-center gap-2">
+              <Coins className="h-4 w-4" /> Credits
+            </div>
+            <div className="text-2xl font-semibold mt-1">{creditsBalance === null ? "—" : creditsBalance}</div>
+          </Card>
         </div>
 
+        <Card className="p-4 mt-6">
+          <div className="text-sm font-medium mb-3">Credit history</div>
+          {transactions.length === 0 ? (
+            <div className="text-sm text-muted-foreground">{loadingTransactions ? "Loading..." : "No transactions yet"}</div>
+          ) : (
+            <div className="divide-y divide-border">
+              {transactions.map((tx) => {
+                const meta = TRANSACTION_LABELS[tx.type];
+                return (
+                  <div key={tx.id} className="flex items-center justify-between gap-4 py-2 text-sm">
+                    <div className="min-w-0">
+                      <div className="font-medium">{meta.label}</div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {new Date(tx.created_at).toLocaleString()}
+                        {tx.description ? ` · ${tx.description}` : ""}
+                      </div>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <div className={`font-medium ${meta.className}`}>
+                        {meta.sign}
+                        {tx.amount}
+                      </div>
+                      <div className="text-xs text-muted-foreground">Balance {tx.balance_after}</div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          {transactionsCursor && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="mt-2"
+              disabled={loadingTransactions}
+              onClick={() => loadTransactions(transactionsCursor)}>
+              {loadingTransactions ? "Loading..." : "Load more"}
+            </Button>
+          )}
+        </Card>
+
         <div className="mt-6">
           <Button variant="outline">Manage Subscription</Button>
         </div>
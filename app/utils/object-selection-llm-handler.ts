@@ -1,10 +1,10 @@
 // LLM handler functions for object selection operations
 
-import type { ClickPoint, MaskData } from "~/hooks/useObjectSelection";
+import type { ClickPoint, MaskData, SelectionObject } from "~/hooks/useObjectSelection";
 
 export interface ObjectSelectionState {
   clickPoints: ClickPoint[];
-  maskData: MaskData | null;
+  objects: SelectionObject[];
   selectedFrameIndex: number | null;
   selectedObject: ClickPoint | null;
   pendingAction: "remove" | "extract" | null;
@@ -101,7 +101,9 @@ export function llmGetSelectionStatus(
 ) {
   return {
     hasSelection: state.selectedObject !== null,
-    hasMask: state.maskData !== null,
+    hasMask: state.objects.some((object) => object.maskData !== null),
+    objectsCount: state.objects.length,
+    enabledObjectsCount: state.objects.filter((object) => object.enabled).length,
     clickPointsCount: state.clickPoints.length,
     selectedFrameIndex: state.selectedFrameIndex,
     pendingAction: state.pendingAction,
@@ -0,0 +1,30 @@
+-- Durable background job queue for mask generation and inpainting
+create table if not exists jobs (
+  id text primary key,
+  type text not null check (type in ('generate_mask', 'inpaint')),
+  user_id text not null,
+  task_id text null,
+  payload jsonb not null default '{}'::jsonb,
+  status text not null default 'queued' check (status in ('queued', 'running', 'succeeded', 'failed')),
+  prediction_id text null,
+  result jsonb null,
+  attempts int not null default 0,
+  max_attempts int not null default 5,
+  run_at timestamptz not null default now(),
+  locked_at timestamptz null,
+  locked_by text null,
+  last_error text null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Worker polls ready jobs ordered by run_at
+create index if not exists idx_jobs_status_run_at on jobs(status, run_at);
+create index if not exists idx_jobs_task_id on jobs(task_id);
+create index if not exists idx_jobs_user_id_created_at on jobs(user_id, created_at desc);
+
+-- Provider prediction owned by the task (task id is no longer the prediction id)
+alter table tasks add column if not exists prediction_id text null;
+-- Tasks created before the queue used the prediction id as the task id
+update tasks set prediction_id = id where prediction_id is null and id not like 'task-%';
+create index if not exists idx_tasks_prediction_id on tasks(prediction_id);
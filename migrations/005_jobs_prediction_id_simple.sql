@@ -0,0 +1,2 @@
+-- Webhook callbacks look up jobs by provider prediction id
+create index if not exists idx_jobs_prediction_id on jobs(prediction_id);
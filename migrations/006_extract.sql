@@ -0,0 +1,6 @@
+-- Extract action: alpha-matted object export rendered by the worker
+alter table jobs drop constraint if exists jobs_type_check;
+alter table jobs add constraint jobs_type_check check (type in ('generate_mask', 'inpaint', 'extract'));
+
+-- Asset created from the task output (extract produces a new WebM asset)
+alter table tasks add column if not exists output_asset_id text null;
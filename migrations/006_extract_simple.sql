@@ -0,0 +1,4 @@
+-- 006_extract_simple.sql - Extract action (Transaction mode compatible)
+
+-- Asset created from the task output (extract produces a new WebM asset)
+alter table tasks add column if not exists output_asset_id text null;
@@ -0,0 +1,19 @@
+-- 007_task_cancel_simple.sql - Cancelled tasks and credits (Transaction mode compatible)
+
+-- Cancelled tasks
+alter table tasks drop constraint if exists tasks_status_check;
+alter table tasks add constraint tasks_status_check check (status in ('pending', 'processing', 'completed', 'failed', 'cancelled'));
+
+-- Jobs of a cancelled task have their own state (earlier versions marked them failed with last_error 'cancelled')
+update jobs set status = 'cancelled' where status = 'failed' and last_error = 'cancelled';
+
+-- Credits balance per user (read by /api/credits)
+create table if not exists credits (
+  user_id text primary key,
+  balance int not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Credits held for a task while it runs; refunded on cancel
+alter table tasks add column if not exists credits_reserved int not null default 0;
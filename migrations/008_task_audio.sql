@@ -0,0 +1,2 @@
+-- Per-task option to keep or drop the source audio track in processed outputs
+alter table tasks add column if not exists keep_audio boolean not null default true;
@@ -0,0 +1,4 @@
+-- 008_task_audio_simple.sql - Keep/drop source audio per task (Transaction mode compatible)
+
+-- Per-task option to keep or drop the source audio track in processed outputs
+alter table tasks add column if not exists keep_audio boolean not null default true;
@@ -0,0 +1,7 @@
+-- 009_derived_assets_simple.sql - Derived assets (Transaction mode compatible)
+
+-- Processing outputs are stored as assets linked to their source asset and task
+alter table assets add column if not exists derived_from_asset_id uuid null;
+alter table assets add column if not exists task_id text null;
+
+create index if not exists idx_assets_derived_from on assets(derived_from_asset_id);
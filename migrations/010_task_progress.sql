@@ -0,0 +1,2 @@
+-- Estimated remaining seconds for processing tasks, parsed from provider logs (null when unknown)
+alter table tasks add column if not exists eta_seconds integer;
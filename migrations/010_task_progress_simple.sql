@@ -0,0 +1,4 @@
+-- 010_task_progress_simple.sql - Task ETA (Transaction mode compatible)
+
+-- Estimated remaining seconds for processing tasks, parsed from provider logs (null when unknown)
+alter table tasks add column if not exists eta_seconds integer;
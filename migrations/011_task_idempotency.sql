@@ -0,0 +1,8 @@
+-- Duplicate protection for start-task: client-supplied idempotency key and a hash of the submitted parameters
+alter table tasks add column if not exists idempotency_key text;
+alter table tasks add column if not exists request_hash text;
+
+create unique index if not exists idx_tasks_user_idempotency_key
+  on tasks(user_id, idempotency_key) where idempotency_key is not null;
+create index if not exists idx_tasks_user_request_hash
+  on tasks(user_id, request_hash, created_at desc) where request_hash is not null;
@@ -0,0 +1,12 @@
+-- 011_task_idempotency_simple.sql - Task idempotency (Transaction mode compatible)
+
+-- Duplicate protection for start-task: client-supplied idempotency key and a hash of the submitted parameters
+alter table tasks add column if not exists idempotency_key text;
+alter table tasks add column if not exists request_hash text;
+
+-- Must be unique: concurrent start-task requests with the same key are resolved by the unique violation
+-- Earlier versions of this file created a plain index under idx_tasks_user_idempotency_key, replaced here
+create unique index if not exists idx_tasks_user_idempotency_key_unique
+  on tasks(user_id, idempotency_key) where idempotency_key is not null;
+drop index if exists idx_tasks_user_idempotency_key;
+create index if not exists idx_tasks_user_request_hash on tasks(user_id, request_hash, created_at desc);
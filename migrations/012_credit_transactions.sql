@@ -0,0 +1,22 @@
+-- Credits ledger: every change to a user's credits is recorded with the resulting balance
+--   reserve - credits held for a task when it starts (deducted from the available balance)
+--   capture - the held credits are charged when the task completes (balance unchanged)
+--   refund  - the held credits are returned when the task fails or is cancelled
+--   grant   - credits added manually (pnpm credits:grant)
+-- amount is always positive; the type gives its effect on the balance
+create table if not exists credit_transactions (
+  id uuid primary key,
+  user_id text not null,
+  task_id text null references tasks(id) on delete set null,
+  type text not null check (type in ('reserve', 'capture', 'refund', 'grant')),
+  amount int not null check (amount >= 0),
+  balance_after int not null,
+  description text null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_credit_transactions_user_created on credit_transactions(user_id, created_at desc);
+create index if not exists idx_credit_transactions_task on credit_transactions(task_id);
+
+-- Price of the task in credits, fixed when it is reserved
+alter table tasks add column if not exists credits_cost int not null default 0;
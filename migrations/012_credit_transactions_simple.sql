@@ -0,0 +1,20 @@
+-- 012_credit_transactions_simple.sql - Credits ledger (Transaction mode compatible)
+
+-- Credits ledger: reserve / capture / refund per task, grant for manual top-ups
+-- amount is always positive; the type gives its effect on the balance
+create table if not exists credit_transactions (
+  id uuid primary key,
+  user_id text not null,
+  task_id text null,
+  type text not null,
+  amount int not null,
+  balance_after int not null,
+  description text null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_credit_transactions_user_created on credit_transactions(user_id, created_at desc);
+create index if not exists idx_credit_transactions_task on credit_transactions(task_id);
+
+-- Price of the task in credits, fixed when it is reserved
+alter table tasks add column if not exists credits_cost int not null default 0;
@@ -0,0 +1,6 @@
+-- Re-running a task creates a new task linked to the one it was retried from
+alter table tasks add column if not exists parent_task_id text null references tasks(id) on delete set null;
+-- Inputs needed to run the task again: source video URL, time range and ProPainter options
+alter table tasks add column if not exists processing_params jsonb null;
+
+create index if not exists idx_tasks_parent_task on tasks(parent_task_id) where parent_task_id is not null;
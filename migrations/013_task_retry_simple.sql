@@ -0,0 +1,8 @@
+-- 013_task_retry_simple.sql - Task retry (Transaction mode compatible)
+
+-- Re-running a task creates a new task linked to the one it was retried from
+alter table tasks add column if not exists parent_task_id text null;
+-- Inputs needed to run the task again: source video URL, time range and ProPainter options
+alter table tasks add column if not exists processing_params jsonb null;
+
+create index if not exists idx_tasks_parent_task on tasks(parent_task_id);
@@ -0,0 +1,3 @@
+-- Mask refinement (dilation, feathering, temporal smoothing) runs as a worker job between generate-mask and start-task
+alter table jobs drop constraint if exists jobs_type_check;
+alter table jobs add constraint jobs_type_check check (type in ('generate_mask', 'refine_mask', 'inpaint', 'extract'));
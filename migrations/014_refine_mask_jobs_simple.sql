@@ -0,0 +1,3 @@
+-- 014_refine_mask_jobs_simple.sql - Mask refinement jobs (Transaction mode compatible)
+
+-- The simple schema has no check constraint on jobs.type, so the new 'refine_mask' job type needs no changes
@@ -0,0 +1,3 @@
+-- Masks of several selected objects are combined by a worker job before start-task
+alter table jobs drop constraint if exists jobs_type_check;
+alter table jobs add constraint jobs_type_check check (type in ('generate_mask', 'refine_mask', 'combine_masks', 'inpaint', 'extract'));
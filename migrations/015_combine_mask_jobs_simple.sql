@@ -0,0 +1,3 @@
+-- 015_combine_mask_jobs_simple.sql - Combine mask jobs (Transaction mode compatible)
+
+-- The simple schema has no check constraint on jobs.type, so the new 'combine_masks' job type needs no changes
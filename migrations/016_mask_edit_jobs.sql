@@ -0,0 +1,3 @@
+-- Masks painted or erased by hand are applied to the full-video mask by a worker job before start-task
+alter table jobs drop constraint if exists jobs_type_check;
+alter table jobs add constraint jobs_type_check check (type in ('generate_mask', 'refine_mask', 'combine_masks', 'edit_mask', 'inpaint', 'extract'));
@@ -0,0 +1,3 @@
+-- 016_mask_edit_jobs_simple.sql - Mask edit jobs (Transaction mode compatible)
+
+-- The simple schema has no check constraint on jobs.type, so the new 'edit_mask' job type needs no changes
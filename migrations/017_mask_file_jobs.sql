@@ -0,0 +1,3 @@
+-- Uploaded mask files are converted, and generated masks exported, by worker jobs
+alter table jobs drop constraint if exists jobs_type_check;
+alter table jobs add constraint jobs_type_check check (type in ('generate_mask', 'refine_mask', 'combine_masks', 'edit_mask', 'import_mask', 'export_mask', 'inpaint', 'extract'));
@@ -0,0 +1,3 @@
+-- 017_mask_file_jobs_simple.sql - Mask import and export jobs (Transaction mode compatible)
+
+-- The simple schema has no check constraint on jobs.type, so the new 'import_mask' and 'export_mask' job types need no changes
@@ -0,0 +1,29 @@
+#!/usr/bin/env tsx
+/**
+ * 手动增加 credits（充值、补偿、本地测试），写入 credit_transactions 账本
+ *
+ * 使用方法：
+ *   pnpm credits:grant <userId> <amount>
+ *   pnpm credits:grant <userId> <amount> "补偿失败任务"   # 说明（默认: Manual grant）
+ */
+
+import "dotenv/config";
+import { grantCredits } from "~/lib/credits.repo";
+
+async function run() {
+  const [userId, rawAmount, description] = process.argv.slice(2);
+  const amount = Number(rawAmount);
+  if (!userId || !Number.isInteger(amount) || amount <= 0) {
+    console.error("Usage: pnpm credits:grant <userId> <amount> [description]");
+    process.exit(1);
+  }
+
+  const balance = await grantCredits(userId, amount, description || "Manual grant");
+  console.log(`💰 Granted ${amount} credits to ${userId}, balance: ${balance}`);
+  process.exit(0);
+}
+
+run().catch((error) => {
+  console.error("❌", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
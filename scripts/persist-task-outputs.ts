@@ -0,0 +1,40 @@
+#!/usr/bin/env tsx
+/**
+ * 补存任务输出：把已完成但 output_url 仍指向提供方地址的任务输出下载到 out/，保存为派生资产
+ * 提供方的输出地址有时效，过期的任务会下载失败并被跳过
+ *
+ * 使用方法：
+ *   pnpm outputs:persist
+ *   pnpm outputs:persist 500   # 最多处理的任务数（默认: 100）
+ */
+
+import "dotenv/config";
+import { persistTaskOutput } from "~/lib/processing.jobs";
+import { listTasksWithExternalOutput, updateTask } from "~/lib/tasks.repo";
+
+async function run() {
+  const limit = Number(process.argv[2]) || 100;
+  const tasks = await listTasksWithExternalOutput(limit);
+  console.log(`🔍 Found ${tasks.length} task(s) with provider output URLs`);
+
+  let persisted = 0;
+  for (const task of tasks) {
+    if (!task.output_url) continue;
+    try {
+      const asset = await persistTaskOutput(task, task.output_url);
+      await updateTask(task.id, { output_url: `/api/assets/${asset.id}/raw`, output_asset_id: asset.id });
+      persisted++;
+      console.log(`✅ ${task.id} → ${asset.id}`);
+    } catch (error) {
+      console.error(`❌ ${task.id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.log(`📦 Persisted ${persisted}/${tasks.length}`);
+  process.exit(0);
+}
+
+run().catch((error) => {
+  console.error("❌", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,75 @@
+#!/usr/bin/env tsx
+/**
+ * 本地 webhook 替身：模拟 Replicate 向 /api/processing/webhook 推送带签名的 prediction 状态
+ * 用于在没有公网地址的开发环境中验证回调流程
+ *
+ * 使用方法：
+ *   pnpm webhook:standin <fixture> <predictionId>
+ *   pnpm webhook:standin succeeded abc123
+ *   pnpm webhook:standin starting,processing,succeeded abc123   # 依次推送多个状态
+ *
+ * fixture 为 scripts/fixtures/webhooks/ 下的文件名（不含 .json），文件中的 PREDICTION_ID 会被替换
+ *
+ * 环境变量：
+ *   REPLICATE_WEBHOOK_SECRET - 与服务端相同的签名密钥（必需）
+ *   WEBHOOK_STANDIN_URL - 回调地址（默认: http://localhost:5173/api/processing/webhook）
+ *   WEBHOOK_STANDIN_DELAY_MS - 推送多个状态时的间隔（默认: 1000）
+ */
+
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+import { signWebhookPayload } from "~/lib/webhook.signature";
+
+const FIXTURES_DIR = path.resolve("scripts/fixtures/webhooks");
+const WEBHOOK_URL = process.env.WEBHOOK_STANDIN_URL || "http://localhost:5173/api/processing/webhook";
+const DELAY_MS = Number(process.env.WEBHOOK_STANDIN_DELAY_MS) || 1000;
+
+function loadFixture(name: string, predictionId: string): string {
+  const file = path.join(FIXTURES_DIR, `${name}.json`);
+  if (!fs.existsSync(file)) {
+    const available = fs
+      .readdirSync(FIXTURES_DIR)
+      .filter((f) => f.endsWith(".json"))
+      .map((f) => f.replace(/\.json$/, ""));
+    throw new Error(`Fixture not found: ${name}（可用: ${available.join(", ")}）`);
+  }
+  const payload = JSON.parse(fs.readFileSync(file, "utf8").replaceAll("PREDICTION_ID", predictionId));
+  return JSON.stringify(payload);
+}
+
+async function post(secret: string, body: string): Promise<void> {
+  const response = await fetch(WEBHOOK_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...signWebhookPayload(secret, body) },
+    body,
+  });
+  const text = await response.text();
+  console.log(`${response.ok ? "✅" : "❌"} ${response.status} ${text}`);
+}
+
+async function run() {
+  const [fixtureArg, predictionId] = process.argv.slice(2);
+  if (!fixtureArg || !predictionId) {
+    console.error("❌ 用法: pnpm webhook:standin <fixture[,fixture...]> <predictionId>");
+    process.exit(1);
+  }
+
+  const secret = process.env.REPLICATE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error("❌ 错误: REPLICATE_WEBHOOK_SECRET 环境变量未设置");
+    process.exit(1);
+  }
+
+  const fixtures = fixtureArg.split(",").filter(Boolean);
+  for (const [index, name] of fixtures.entries()) {
+    if (index > 0) await new Promise((resolve) => setTimeout(resolve, DELAY_MS));
+    console.log(`📤 POST ${WEBHOOK_URL} (${name}, ${predictionId})`);
+    await post(secret, loadFixture(name, predictionId));
+  }
+}
+
+run().catch((error) => {
+  console.error("❌", error instanceof Error ? error.message : error);
+  process.exit(1);
+});